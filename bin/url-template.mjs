@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+/**
+ * url-template 실행 파일
+ *
+ * CLI 소스가 TypeScript이므로 tsx 로더를 등록한 뒤 진입점을 불러옴
+ * (npx 없이 설치된 tsx만 사용)
+ */
+import { register as registerCjs } from 'tsx/cjs/api';
+import { register as registerEsm } from 'tsx/esm/api';
+
+registerCjs();
+registerEsm();
+await import('../src/cli/url-template.ts');
@@ -0,0 +1,142 @@
+import { parseArgs } from 'node:util';
+import { ExplainLocale } from '../types/explain.types';
+
+/**
+ * 잘못된 명령/옵션으로 CLI를 실행했을 때 발생하는 에러 (종료 코드 2)
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const CLI_COMMANDS = ['render', 'parse', 'lint', 'explain', 'decode'] as const;
+
+export type CliCommand = typeof CLI_COMMANDS[number];
+
+/**
+ * 파싱된 CLI 인자
+ */
+export interface CliArgs {
+  command: CliCommand;
+  /** 명령 뒤의 템플릿 (없거나 '-'면 stdin에서 읽음) */
+  template: string | null;
+  /** 변환 함수를 불러올 매핑 파일 (.json, .csv) 또는 JS 모듈 */
+  mapping: string | null;
+  /** STRICT 모드로 렌더링 */
+  strict: boolean;
+  lossless: boolean;
+  decodePercent: boolean;
+  plusAsSpace: boolean;
+  json: boolean;
+  /** lint: 규칙별 심각도 (name=severity) */
+  rules: string[];
+  /** lint: 자동 수정한 템플릿 출력 */
+  fix: boolean;
+  /** explain: Markdown으로 출력 */
+  markdown: boolean;
+  /** explain: 보고서 언어 */
+  locale: ExplainLocale;
+  /** decode: 렌더링된 URL (없으면 stdin에서 읽음) */
+  url: string | null;
+  /** decode: 템플릿에 없는 쿼리 key를 불일치로 볼지 */
+  strictQuery: boolean;
+}
+
+export const USAGE = `사용법: url-template <명령> [템플릿] [옵션]
+
+명령:
+  render    템플릿을 렌더링한 URL 출력
+  parse     파싱 결과 출력 (--json: 전체 결과를 JSON으로)
+  lint      문법 오류와 린트 결과 출력 (error가 있으면 종료 코드 1)
+  explain   값마다 어떻게 변환되었는지 단계별로 설명 (--markdown, --lang en)
+  decode    렌더링된 URL에서 값을 되돌림 (--url 또는 stdin)
+
+템플릿을 생략하거나 '-'로 주면 stdin에서 읽습니다.
+
+옵션:
+  -m, --mapping <파일>     변환 매핑 (.json, .csv) 또는 typeConverter/encryptor/decryptor를 내보내는 JS 모듈
+      --strict             STRICT 모드로 렌더링
+      --lossless           빈 세그먼트와 값 없는 key 보존
+      --decode-percent     %XX로 인코딩된 템플릿 디코딩
+      --plus-as-space      쿼리의 +를 공백으로 디코딩
+      --json               결과를 JSON으로 출력
+      --rule <이름=심각도>  lint 규칙 심각도 (error, warning, off / 여러 번 지정 가능)
+      --fix                lint 자동 수정을 적용한 템플릿 출력
+      --markdown           explain 보고서를 Markdown으로 출력
+      --lang <ko|en>       explain 보고서 언어 (기본값: ko)
+      --url <URL>          decode할 URL
+      --strict-query       decode시 템플릿에 없는 쿼리 key를 불일치로 처리
+  -h, --help               도움말
+
+종료 코드: 0 성공, 1 실패 (필수 값 누락, 문법 오류, lint error, decode 불일치), 2 잘못된 사용법`;
+
+/**
+ * 명령줄 인자를 파싱하는 함수
+ *
+ * @param argv process.argv.slice(2)
+ * @returns 파싱된 인자 (도움말 요청이면 null)
+ * @throws CliUsageError 알 수 없는 명령/옵션, 템플릿이 두 개 이상인 경우
+ */
+export const parseCliArgs = (argv: string[]): CliArgs | null => {
+  let parsed: ReturnType<typeof parseCliOptions>;
+  try {
+    parsed = parseCliOptions(argv);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length === 0) return null;
+
+  const [command, ...rest] = positionals;
+  const locale = values.lang ?? 'ko';
+  if (locale !== 'ko' && locale !== 'en') {
+    throw new CliUsageError(`--lang은 ko 또는 en입니다: ${locale}`);
+  }
+  if (!(CLI_COMMANDS as readonly string[]).includes(command)) {
+    throw new CliUsageError(`알 수 없는 명령입니다: ${command}`);
+  }
+  if (rest.length > 1) {
+    throw new CliUsageError('템플릿은 하나만 지정할 수 있습니다 (공백이 있으면 따옴표로 감싸세요)');
+  }
+
+  return {
+    command: command as CliCommand,
+    template: rest[0] === undefined || rest[0] === '-' ? null : rest[0],
+    mapping: values.mapping ?? null,
+    strict: !!values.strict,
+    lossless: !!values.lossless,
+    decodePercent: !!values['decode-percent'],
+    plusAsSpace: !!values['plus-as-space'],
+    json: !!values.json,
+    rules: values.rule ?? [],
+    fix: !!values.fix,
+    markdown: !!values.markdown,
+    locale,
+    url: values.url ?? null,
+    strictQuery: !!values['strict-query']
+  };
+};
+
+const parseCliOptions = (argv: string[]) => parseArgs({
+  args: argv,
+  allowPositionals: true,
+  strict: true,
+  options: {
+    mapping: { type: 'string', short: 'm' },
+    strict: { type: 'boolean' },
+    lossless: { type: 'boolean' },
+    'decode-percent': { type: 'boolean' },
+    'plus-as-space': { type: 'boolean' },
+    json: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+    rule: { type: 'string', multiple: true },
+    fix: { type: 'boolean' },
+    markdown: { type: 'boolean' },
+    lang: { type: 'string' },
+    url: { type: 'string' },
+    'strict-query': { type: 'boolean' }
+  }
+});
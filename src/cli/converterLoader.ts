@@ -0,0 +1,145 @@
+import { readFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { Decryptor, Encryptor, TypeConverter } from '../types/parser.types';
+import { CliUsageError } from './cliArgs';
+
+/**
+ * 매핑 파일/모듈에서 불러온 변환 함수들 (encryptor/decryptor는 e 플래그가 있는 템플릿에 필요)
+ */
+export interface LoadedConverters {
+  typeConverter?: TypeConverter;
+  encryptor?: Encryptor;
+  decryptor?: Decryptor;
+}
+
+/**
+ * 값 매핑
+ * - 타입별: { "A": { "A_TYPE_1": "값" }, "B": { ... } }
+ * - 타입 구분 없음: { "A_TYPE_1": "값" }
+ * (둘을 섞으면 타입별 매핑을 먼저 찾음)
+ */
+export type ValueMapping = Record<string, string | Record<string, string>>;
+
+/**
+ * 매핑에서 값을 찾는 TypeConverter를 만드는 함수
+ * 값이 없으면 throw하여 엔진이 변환 실패로 처리하도록 함 (필수 값이면 종료 코드 1)
+ */
+export const createMappingConverter = (mapping: ValueMapping): TypeConverter => {
+  return async (value, type) => {
+    const typed = mapping[type];
+    if (typeof typed === 'object' && typed !== null && typeof typed[value] === 'string') {
+      return typed[value];
+    }
+    const flat = mapping[value];
+    if (typeof flat === 'string') {
+      return flat;
+    }
+    throw new Error(`매핑에 값이 없습니다: ${type}/${value}`);
+  };
+};
+
+/**
+ * CSV 한 줄을 필드로 나눔 ("..." 안의 쉼표와 ""는 값으로 처리)
+ */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+/**
+ * CSV 매핑을 파싱하는 함수
+ *
+ * 형식 (한 파일 안에서 섞어 써도 됨, 빈 줄과 #으로 시작하는 줄은 무시):
+ * - type,name,value → 타입별 매핑
+ * - name,value → 타입 구분 없는 매핑
+ * 첫 줄이 헤더(type,name,value 또는 name,value)면 건너뜀
+ */
+export const parseCsvMapping = (text: string): ValueMapping => {
+  const mapping: ValueMapping = {};
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.trimStart().startsWith('#'));
+
+  lines.forEach((line, index) => {
+    const fields = splitCsvLine(line).map(field => field.trim());
+    if (index === 0 && ['type,name,value', 'name,value'].includes(fields.join(',').toLowerCase())) return;
+
+    if (fields.length === 3) {
+      const [type, name, value] = fields;
+      const typed = mapping[type];
+      mapping[type] = { ...(typeof typed === 'object' ? typed : {}), [name]: value };
+    } else if (fields.length === 2) {
+      mapping[fields[0]] = fields[1];
+    } else {
+      throw new CliUsageError(`CSV ${index + 1}번째 줄의 필드 수가 올바르지 않습니다 (2개 또는 3개): ${line}`);
+    }
+  });
+
+  return mapping;
+};
+
+const pickFunction = <T>(exports: Record<string, unknown>, name: string): T | undefined => {
+  const candidate = exports[name];
+  if (candidate === undefined) return undefined;
+  if (typeof candidate !== 'function') {
+    throw new CliUsageError(`모듈의 ${name}가 함수가 아닙니다`);
+  }
+  return candidate as T;
+};
+
+/**
+ * 매핑 파일 또는 JS 모듈에서 변환 함수를 불러오는 함수
+ *
+ * - .json / .csv: 값 매핑으로 typeConverter 생성
+ * - .js / .mjs / .cjs / .ts: typeConverter, encryptor, decryptor를 내보내는 모듈
+ *   (named export 또는 default export 객체, registerType/registerFlag 같은 등록도 모듈에서 수행 가능)
+ *
+ * @param path 파일 경로 (현재 디렉터리 기준)
+ */
+export const loadConverters = async (path: string): Promise<LoadedConverters> => {
+  const absolutePath = resolve(path);
+  const extension = extname(absolutePath).toLowerCase();
+
+  if (extension === '.json' || extension === '.csv') {
+    const text = await readFile(absolutePath, 'utf8');
+    const mapping = extension === '.json' ? JSON.parse(text) as ValueMapping : parseCsvMapping(text);
+    return { typeConverter: createMappingConverter(mapping) };
+  }
+
+  if (['.js', '.mjs', '.cjs', '.ts'].includes(extension)) {
+    const imported = await import(pathToFileURL(absolutePath).href) as Record<string, unknown>;
+    const exports = (typeof imported.default === 'object' && imported.default !== null
+      ? imported.default
+      : imported) as Record<string, unknown>;
+    return {
+      typeConverter: pickFunction<TypeConverter>(exports, 'typeConverter'),
+      encryptor: pickFunction<Encryptor>(exports, 'encryptor'),
+      decryptor: pickFunction<Decryptor>(exports, 'decryptor')
+    };
+  }
+
+  throw new CliUsageError(`지원하지 않는 매핑 파일 형식입니다: ${extension || path} (.json, .csv, .js, .mjs, .cjs, .ts)`);
+};
@@ -0,0 +1,323 @@
+import { createUrlTemplateEngine, UrlTemplateEngineOptions } from '../services/templateEngine';
+import { validateTemplate } from '../services/templateValidator';
+import { lintTemplate, applyLintFixes } from '../services/templateLinter';
+import { decodeUrl } from '../services/templateDecoder';
+import { explainRender } from '../services/templateExplainer';
+import { InvalidHostnameError, RequiredValueMissingError, TemplateSyntaxError } from '../errors/templateErrors';
+import { FilteringMode, ParameterFlags, ParseResult } from '../types/parser.types';
+import { LintConfig, LintRuleName, LintRuleSeverity } from '../types/lint.types';
+import { DiagnosticCode } from '../types/diagnostic.types';
+import { parseTemplate, walkTemplate } from '../parsers/templateParser';
+import { CliArgs, CliUsageError, USAGE, parseCliArgs } from './cliArgs';
+import { LoadedConverters, loadConverters } from './converterLoader';
+
+/**
+ * CLI 입출력 (테스트나 다른 도구에서 호출할 때 교체할 수 있도록 분리)
+ */
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /** stdin 전체를 읽음 (터미널에서 직접 실행해 입력이 없으면 null) */
+  readStdin: () => Promise<string | null>;
+}
+
+const readProcessStdin = async (): Promise<string | null> => {
+  if (process.stdin.isTTY) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const defaultIo: CliIo = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+  readStdin: readProcessStdin
+};
+
+/**
+ * 명령 실행에 필요한 값
+ */
+interface CliContext {
+  args: CliArgs;
+  io: CliIo;
+  converters: LoadedConverters;
+  engineOptions: UrlTemplateEngineOptions;
+}
+
+/**
+ * stdin에서 한 값을 읽음 (끝의 줄바꿈 제거, 입력이 없으면 사용법 에러)
+ */
+const readRequiredStdin = async (io: CliIo, missingMessage: string): Promise<string> => {
+  const text = await io.readStdin();
+  const value = text?.replace(/\r?\n$/, '') ?? '';
+  if (!value) {
+    throw new CliUsageError(missingMessage);
+  }
+  return value;
+};
+
+/**
+ * 템플릿에 e 플래그(전역 암호화 그룹 포함)가 있는지
+ */
+const usesEncryption = (template: string, args: CliArgs): boolean => {
+  let found = false;
+  walkTemplate(parseTemplate(template, { decodePercent: args.decodePercent, plusAsSpace: args.plusAsSpace }), node => {
+    if ((node.kind === 'Placeholder' || node.kind === 'GlobalGroup') && node.flags.encrypted) found = true;
+  });
+  return found;
+};
+
+/**
+ * e 플래그를 처리할 함수가 매핑 모듈에 있는지 확인
+ *
+ * 왜 기본값을 쓰지 않는가:
+ * - 내장 encrypt/decrypt는 데모용 고정 키를 사용하므로, 조용히 대신 쓰면 실제 서버가 풀 수 없는 URL이 만들어짐
+ *
+ * @throws CliUsageError e 플래그가 있는데 필요한 함수가 없는 경우
+ */
+const requireCryptoFunctions = (args: CliArgs, converters: LoadedConverters, template: string) => {
+  const needed = args.command === 'decode' ? 'decryptor'
+    : args.command === 'render' || args.command === 'explain' ? 'encryptor'
+    : null;
+  if (!needed || converters[needed] || !usesEncryption(template, args)) return;
+
+  throw new CliUsageError(`템플릿에 e 플래그가 있습니다. ${needed}를 내보내는 JS 모듈을 -m으로 지정하세요`);
+};
+
+const formatFlags = (flags: ParameterFlags): string => {
+  const names = [
+    flags.encrypted ? 'encrypted' : null,
+    flags.required ? 'required' : null,
+    flags.literal ? 'literal' : null,
+    ...(flags.custom ?? [])
+  ].filter((name): name is string => !!name);
+  return names.length > 0 ? names.join(',') : '-';
+};
+
+/**
+ * 필수 값 누락/문법 오류를 stderr에 출력하고 종료 코드 반환 (그 외 에러는 다시 throw)
+ */
+const reportFailure = (error: unknown, io: CliIo): number => {
+  if (error instanceof RequiredValueMissingError) {
+    io.stderr(`필수 값 변환 실패 ${error.missing.length}건:`);
+    error.missing.forEach(item => {
+      const reason = item.failureReason ? ` - ${item.failureReason}` : '';
+      io.stderr(`  ${item.location}:${item.identifier} ${item.target} (${item.type})${reason}`);
+    });
+    return 1;
+  }
+  if (error instanceof TemplateSyntaxError) {
+    io.stderr(`템플릿 문법 오류 ${error.diagnostics.length}건:`);
+    error.diagnostics.forEach(item => {
+      io.stderr(`  ${item.range.start}-${item.range.end} ${item.code}: ${item.message}`);
+    });
+    return 1;
+  }
+  if (error instanceof InvalidHostnameError) {
+    io.stderr(error.message);
+    return 1;
+  }
+  throw error;
+};
+
+const runRender = async ({ io, engineOptions }: CliContext, template: string): Promise<number> => {
+  const engine = createUrlTemplateEngine(engineOptions);
+  try {
+    io.stdout(await engine.render(template));
+    return 0;
+  } catch (error) {
+    return reportFailure(error, io);
+  }
+};
+
+const printParseSummary = (result: ParseResult, io: CliIo) => {
+  io.stdout(`base: ${result.baseUrl || '(없음)'}`);
+  if (result.host) {
+    io.stdout(`host: ${result.host.hostname}${result.host.port ? `:${result.host.port}` : ''}`);
+  }
+  result.url.forEach((segment, index) => {
+    io.stdout(`segment-${index}: ${segment.originalValue} [type=${segment.type}, flags=${formatFlags(segment.flags)}, mode=${segment.processingMode}]`);
+  });
+  result.query.forEach(query => {
+    io.stdout(`query ${query.key}: ${query.value} [type=${query.type}, flags=${formatFlags(query.flags)}, mode=${query.processingMode}]`);
+  });
+  if (result.fragment) {
+    io.stdout(`fragment: ${result.fragment.raw}`);
+  }
+  result.diagnostics?.forEach(item => {
+    io.stdout(`${item.severity} ${item.range.start}-${item.range.end} ${item.code}: ${item.message}`);
+  });
+};
+
+const runParse = async ({ args, io, engineOptions }: CliContext, template: string): Promise<number> => {
+  // 문법 오류가 있어도 파싱 결과와 진단을 함께 출력
+  const result = createUrlTemplateEngine({ ...engineOptions, onSyntaxError: 'ignore' }).parse(template);
+  if (args.json) {
+    io.stdout(JSON.stringify(result, null, 2));
+  } else {
+    printParseSummary(result, io);
+  }
+  return result.diagnostics?.some(item => item.severity === 'error') ? 1 : 0;
+};
+
+/**
+ * --rule name=severity 목록을 LintConfig로 변환
+ */
+const parseLintRules = (rules: string[]): LintConfig => {
+  const ruleNames = Object.values(LintRuleName) as string[];
+  const severities: LintRuleSeverity[] = ['error', 'warning', 'off'];
+  const config: Required<LintConfig> = { rules: {} };
+
+  rules.forEach(rule => {
+    const [name, severity] = rule.split('=');
+    if (!ruleNames.includes(name)) {
+      throw new CliUsageError(`알 수 없는 lint 규칙입니다: ${name} (${ruleNames.join(', ')})`);
+    }
+    if (!severities.includes(severity as LintRuleSeverity)) {
+      throw new CliUsageError(`lint 규칙 심각도는 ${severities.join(', ')} 중 하나입니다: ${rule}`);
+    }
+    config.rules[name as LintRuleName] = severity as LintRuleSeverity;
+  });
+
+  return config;
+};
+
+/**
+ * lintTemplate 규칙과 같은 문제를 알리는 validateTemplate 진단 코드
+ * (lint 결과는 심각도를 바꿀 수 있고 수정 제안이 있으므로 lint 결과만 출력)
+ */
+const LINT_RULE_CODES: DiagnosticCode[] = [DiagnosticCode.DUPLICATE_FLAG, DiagnosticCode.UNKNOWN_TYPE];
+
+const runLint = async ({ args, io }: CliContext, template: string): Promise<number> => {
+  const config = parseLintRules(args.rules);
+  const diagnostics = validateTemplate(template).filter(item => !LINT_RULE_CODES.includes(item.code));
+  const messages = lintTemplate(template, config);
+  const hasError = [...diagnostics, ...messages].some(item => item.severity === 'error');
+
+  if (args.fix) {
+    io.stdout(applyLintFixes(template, messages));
+  } else if (args.json) {
+    io.stdout(JSON.stringify({ diagnostics, messages }, null, 2));
+  } else {
+    diagnostics.forEach(item => {
+      io.stdout(`${item.severity} ${item.range.start}-${item.range.end} ${item.code}: ${item.message}`);
+    });
+    messages.forEach(item => {
+      const fix = item.fix ? ` (수정: ${item.fix.description})` : '';
+      io.stdout(`${item.severity} ${item.range.start}-${item.range.end} ${item.rule}: ${item.message}${fix}`);
+    });
+  }
+
+  return hasError ? 1 : 0;
+};
+
+const runExplain = async ({ args, io, engineOptions }: CliContext, template: string): Promise<number> => {
+  const engine = createUrlTemplateEngine({ ...engineOptions, onRequiredMissing: 'invalidate' });
+  try {
+    const result = await engine.transform(template);
+    const url = result.missingRequired?.length
+      ? null
+      : await engine.encryptGlobalQueries(engine.reconstruct(result));
+
+    if (args.json) {
+      io.stdout(JSON.stringify({ url, traces: result.transformationTraces, missingRequired: result.missingRequired ?? [] }, null, 2));
+    } else {
+      io.stdout(explainRender(result, {
+        format: args.markdown ? 'markdown' : 'text',
+        locale: args.locale,
+        url: url ?? undefined
+      }));
+    }
+    return url === null ? 1 : 0;
+  } catch (error) {
+    return reportFailure(error, io);
+  }
+};
+
+const runDecode = async ({ args, io, converters }: CliContext, template: string, url: string): Promise<number> => {
+  const decoded = await decodeUrl(template, url, {
+    decryptor: converters.decryptor,
+    lossless: args.lossless,
+    decodePercent: args.decodePercent,
+    plusAsSpace: args.plusAsSpace,
+    extraQuery: args.strictQuery ? 'error' : 'ignore'
+  });
+
+  if (args.json) {
+    io.stdout(JSON.stringify(decoded, null, 2));
+  } else {
+    decoded.fields.forEach(field => {
+      const where = `${field.location}:${field.identifier}${field.part === 'key' ? ' (key)' : ''}`;
+      const error = field.error ? ` - ${field.error}` : '';
+      io.stdout(`${where} ${field.name} = ${field.value ?? '(없음)'} [${field.status}]${error}`);
+    });
+    decoded.mismatches.forEach(mismatch => {
+      io.stderr(`불일치 ${mismatch.code}: ${mismatch.message}`);
+    });
+  }
+
+  return decoded.matched && decoded.verified ? 0 : 1;
+};
+
+/**
+ * url-template CLI 실행 함수
+ *
+ * Next.js 데모 없이 쉘 스크립트/CI에서 템플릿을 렌더링하고 검사하기 위한 진입점
+ * - 변환 함수는 --mapping 파일/모듈에서 불러오며, e 플래그가 있으면 암호화/복호화 함수도 모듈에서 지정해야 함
+ *
+ * @param argv process.argv.slice(2)
+ * @param io 입출력 (기본값: process의 stdout/stderr/stdin)
+ * @returns 종료 코드 (0 성공, 1 실패, 2 잘못된 사용법)
+ */
+export const runCli = async (argv: string[], io: CliIo = defaultIo): Promise<number> => {
+  try {
+    const args = parseCliArgs(argv);
+    if (!args) {
+      io.stdout(USAGE);
+      return 0;
+    }
+
+    const converters = args.mapping ? await loadConverters(args.mapping) : {};
+    const engineOptions: UrlTemplateEngineOptions = {
+      typeConverter: converters.typeConverter,
+      encryptor: converters.encryptor,
+      filteringMode: args.strict ? FilteringMode.STRICT : FilteringMode.DEFAULT,
+      onSyntaxError: 'throw',
+      lossless: args.lossless,
+      decodePercent: args.decodePercent,
+      plusAsSpace: args.plusAsSpace
+    };
+    const context: CliContext = { args, io, converters, engineOptions };
+
+    // decode는 템플릿과 URL 중 인자로 주지 않은 하나만 stdin에서 읽을 수 있음
+    if (args.command === 'decode' && args.template === null && args.url === null) {
+      throw new CliUsageError('decode는 템플릿과 --url 중 하나 이상을 인자로 전달해야 합니다');
+    }
+    const template = args.template ?? await readRequiredStdin(io, '템플릿을 인자나 stdin으로 전달하세요');
+    requireCryptoFunctions(args, converters, template);
+
+    switch (args.command) {
+      case 'render':
+        return await runRender(context, template);
+      case 'parse':
+        return await runParse(context, template);
+      case 'lint':
+        return await runLint(context, template);
+      case 'explain':
+        return await runExplain(context, template);
+      case 'decode':
+        return await runDecode(context, template, args.url ?? await readRequiredStdin(io, 'URL을 --url이나 stdin으로 전달하세요'));
+    }
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr(`url-template: ${error.message}`);
+      io.stderr('도움말: url-template --help');
+      return 2;
+    }
+    io.stderr(`url-template: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+};
@@ -0,0 +1,12 @@
+/**
+ * url-template CLI 진입점 (실행 파일은 bin/url-template.mjs)
+ *
+ * @example
+ * npx url-template render 'https://api.com/users/{A_TYPE_1}' -m mapping.json
+ * echo '/users/v{A_TYPE_1}' | npx url-template lint
+ */
+import { runCli } from './runCli';
+
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -74,8 +74,12 @@ export const UrlParserDemo: React.FC = () => {
       const reconstructedUrl = getReconstructedUrl(filteringMode);
       
       if (reconstructedUrl.includes('[ENCRYPT:')) {
-        const encryptedUrl = await encryptGlobalQueries(reconstructedUrl);
-        setFinalUrl(encryptedUrl);
+        try {
+          setFinalUrl(await encryptGlobalQueries(reconstructedUrl));
+        } catch {
+          // 암호화되지 않은 쿼리스트링은 보여주지 않음
+          setFinalUrl('암호화 실패');
+        }
       } else {
         setFinalUrl(reconstructedUrl);
       }
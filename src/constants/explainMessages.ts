@@ -0,0 +1,255 @@
+import { ExplainLocale, ExplainStepKind } from '../types/explain.types';
+
+/** STRICT 모드에서 값이 제외/생략되는 이유 */
+export type StrictExclusionReason =
+  | 'key-placeholder'
+  | 'default-used'
+  | 'encrypted'
+  | 'conversion-failed'
+  | 'needs-conversion'
+  | 'inner-value'
+  | 'sibling'
+  | 'optional-group';
+
+/**
+ * explainRender 보고서 문구
+ *
+ * 값은 형식(text: "값", markdown: `값`)에 맞게 감싼 뒤 전달되므로 문구에서는 따옴표를 쓰지 않음
+ */
+export interface ExplainMessages {
+  title: string;
+  filteringMode: string;
+  renderedUrl: string;
+  valueCount: (count: number, staticCount: number) => string;
+  invalidResult: (count: number) => string;
+  noValues: string;
+  emptyValue: string;
+  steps: Record<ExplainStepKind, string>;
+
+  // 위치
+  hostLabel: (index: string) => string;
+  hostUserinfo: string;
+  hostPort: string;
+  pathSegment: (index: string) => string;
+  fragmentSegment: (index: string) => string;
+  queryValue: (key: string, inFragment: boolean) => string;
+  queryKey: (key: string, inFragment: boolean) => string;
+  globalGroup: (inFragment: boolean) => string;
+  globalValue: (key: string, inFragment: boolean) => string;
+  globalKey: (key: string, inFragment: boolean) => string;
+  inner: (target: string, parent: string) => string;
+
+  // 처리 방식
+  parameterMode: string;
+  substitutionMode: string;
+  innerValue: string;
+
+  // 플래그
+  noFlags: string;
+  flagNames: Record<'encrypted' | 'required' | 'literal', string>;
+
+  // 타입 조회
+  globalType: string;
+  literalType: string;
+  composedType: string;
+  unknownType: (target: string) => string;
+  declaredType: (type: string) => string;
+  detectedType: (target: string, type: string) => string;
+
+  // 변환
+  serialized: (value: string) => string;
+  noConversion: (value: string) => string;
+  converted: (from: string, to: string) => string;
+  defaultUsed: (reason: string, value: string) => string;
+  failed: (reason: string) => string;
+  noConverter: string;
+  valueNotFound: (type: string, target: string) => string;
+  flagTransformFailed: string;
+  failurePolicy: (policy: string) => string;
+  omittedValue: string;
+  emptiedValue: string;
+  optionalGroupOmitted: string;
+
+  // 암호화
+  encrypted: (from: string, to: string) => string;
+  globalEncryption: string;
+  notEncryptedAfterFailure: string;
+  encryptionFailed: (reason: string) => string;
+  noEncryptor: string;
+  encryptorFailed: string;
+
+  // STRICT / 필수 값
+  strictIncluded: string;
+  strictExcluded: (reason: string) => string;
+  strictWouldExclude: (reason: string) => string;
+  strictReasons: Record<StrictExclusionReason, string>;
+  requiredFailed: string;
+}
+
+const ko: ExplainMessages = {
+  title: '렌더링 설명',
+  filteringMode: '필터링 모드',
+  renderedUrl: '결과 URL',
+  valueCount: (count, staticCount) => staticCount > 0
+    ? `값 ${count}개 (고정 문자열 ${staticCount}개 생략)`
+    : `값 ${count}개`,
+  invalidResult: count => `필수 값 ${count}개를 변환하지 못해 결과가 무효입니다`,
+  noValues: '변환할 값이 없습니다',
+  emptyValue: '(빈 값)',
+  steps: {
+    mode: '처리 방식',
+    flags: '플래그',
+    type: '타입 조회',
+    conversion: '변환',
+    encryption: '암호화',
+    result: '최종 값',
+    strict: 'STRICT 모드',
+    required: '필수 값'
+  },
+
+  hostLabel: index => `호스트 라벨 ${index}`,
+  hostUserinfo: '호스트 userinfo',
+  hostPort: '호스트 포트',
+  pathSegment: index => `경로 세그먼트 ${index}`,
+  fragmentSegment: index => `fragment 경로 세그먼트 ${index}`,
+  queryValue: (key, inFragment) => `${inFragment ? 'fragment ' : ''}쿼리 ${key}의 값`,
+  queryKey: (key, inFragment) => `${inFragment ? 'fragment ' : ''}쿼리 key ${key}`,
+  globalGroup: inFragment => `${inFragment ? 'fragment ' : ''}전역 쿼리 그룹`,
+  globalValue: (key, inFragment) => `${inFragment ? 'fragment ' : ''}전역 쿼리 안 ${key}의 값`,
+  globalKey: (key, inFragment) => `${inFragment ? 'fragment ' : ''}전역 쿼리 안 key ${key}`,
+  inner: (target, parent) => `${parent} 안의 ${target}`,
+
+  parameterMode: '파라미터 모드 - 값 전체가 하나의 패턴이며, 변환에 실패하면 값이 제외됨',
+  substitutionMode: '치환 모드 - 패턴 바깥 문자열은 그대로 두고 안쪽 패턴만 바꾸며, 실패한 패턴은 빈 값이 됨',
+  innerValue: '바깥 값 안의 패턴 - 변환 결과가 바깥 값에 치환됨',
+
+  noFlags: '없음',
+  flagNames: { encrypted: '암호화', required: '필수', literal: '리터럴' },
+
+  globalType: '전역 쿼리 - 안쪽 쌍을 각각 변환한 뒤 하나의 쿼리스트링으로 직렬화',
+  literalType: '리터럴(v) - 타입 조회와 변환 없이 작성된 값 그대로 사용',
+  composedType: '안쪽 패턴을 각각 변환해 조합 (아래 항목 참고)',
+  unknownType: target => `${target}는 등록된 타입 목록에 없음`,
+  declaredType: type => `${type} 타입 (템플릿에 선언됨)`,
+  detectedType: (target, type) => `${target} → ${type} 타입 (값 이름으로 감지)`,
+
+  serialized: value => `직렬화 결과 ${value}`,
+  noConversion: value => `변환 없음 → ${value}`,
+  converted: (from, to) => `${from} → ${to}`,
+  defaultUsed: (reason, value) => `실패 (${reason}) → 기본값 ${value} 사용`,
+  failed: reason => `실패 - ${reason}`,
+  noConverter: 'TypeConverter 함수가 제공되지 않음',
+  valueNotFound: (type, target) => `${type} 타입에 ${target}에 대한 값이 없음`,
+  flagTransformFailed: '확장 플래그 변환에 실패함',
+  failurePolicy: policy => `실패 처리: ${policy}`,
+  omittedValue: '값이 결과에서 제외됨',
+  emptiedValue: '빈 값으로 치환됨',
+  optionalGroupOmitted: '선택 그룹 [ ... ] 안의 값이라 그룹만 생략됨',
+
+  encrypted: (from, to) => `${from} → ${to}`,
+  globalEncryption: '렌더링 마지막 단계(encryptGlobalQueries)에서 직렬화된 쿼리스트링 전체를 암호화 (encryptor가 없으면 [ENCRYPT:...]로 남음)',
+  notEncryptedAfterFailure: '변환에 실패해 암호화하지 않음',
+  encryptionFailed: reason => `암호화 실패 - ${reason}`,
+  noEncryptor: 'Encryptor 함수가 제공되지 않음',
+  encryptorFailed: 'Encryptor 함수가 값을 암호화하지 못함',
+
+  strictIncluded: '포함',
+  strictExcluded: reason => `제외 - ${reason}`,
+  strictWouldExclude: reason => `제외 대상 (DEFAULT 모드라 적용되지 않음) - ${reason}`,
+  strictReasons: {
+    'key-placeholder': 'key에 변환이 필요한 값이 있으면 쌍 전체가 제외됨',
+    'default-used': '변환에 실패해 기본값이 사용된 값은 제외됨 (strictDefaults: exclude)',
+    encrypted: '암호화된 값은 일반 문자열이 아니므로 제외됨',
+    'conversion-failed': '변환에 실패한 값이 있으면 제외됨',
+    'needs-conversion': '타입 변환이 필요한 값은 제외됨 (일반 문자열과 v{...} 리터럴만 허용)',
+    'inner-value': '안쪽에 변환이 필요한 값이 있어 제외됨',
+    sibling: '같은 쿼리의 다른 값 때문에 쌍 전체가 제외됨',
+    'optional-group': '선택 그룹 안의 변환이 필요한 값이라 그룹만 생략됨'
+  },
+  requiredFailed: '필수(r) 값을 변환하지 못해 결과 전체가 무효 (onRequiredMissing)'
+};
+
+const en: ExplainMessages = {
+  title: 'Render explanation',
+  filteringMode: 'Filtering mode',
+  renderedUrl: 'Rendered URL',
+  valueCount: (count, staticCount) => staticCount > 0
+    ? `${count} value(s) (${staticCount} static string(s) omitted)`
+    : `${count} value(s)`,
+  invalidResult: count => `${count} required value(s) could not be converted, so the result is invalid`,
+  noValues: 'No values to convert',
+  emptyValue: '(empty)',
+  steps: {
+    mode: 'Mode',
+    flags: 'Flags',
+    type: 'Type lookup',
+    conversion: 'Conversion',
+    encryption: 'Encryption',
+    result: 'Final value',
+    strict: 'STRICT mode',
+    required: 'Required'
+  },
+
+  hostLabel: index => `host label ${index}`,
+  hostUserinfo: 'host userinfo',
+  hostPort: 'host port',
+  pathSegment: index => `path segment ${index}`,
+  fragmentSegment: index => `fragment path segment ${index}`,
+  queryValue: (key, inFragment) => `value of ${inFragment ? 'fragment ' : ''}query ${key}`,
+  queryKey: (key, inFragment) => `${inFragment ? 'fragment ' : ''}query key ${key}`,
+  globalGroup: inFragment => `${inFragment ? 'fragment ' : ''}global query group`,
+  globalValue: (key, inFragment) => `value of ${key} in the ${inFragment ? 'fragment ' : ''}global query`,
+  globalKey: (key, inFragment) => `key ${key} in the ${inFragment ? 'fragment ' : ''}global query`,
+  inner: (target, parent) => `${target} inside the ${parent}`,
+
+  parameterMode: 'parameter mode - the whole value is one pattern; if conversion fails the value is dropped',
+  substitutionMode: 'substitution mode - text around the patterns is kept and only the patterns are replaced; failed patterns become empty',
+  innerValue: 'pattern inside an outer value - the result is substituted into the outer value',
+
+  noFlags: 'none',
+  flagNames: { encrypted: 'encrypted', required: 'required', literal: 'literal' },
+
+  globalType: 'global query - each inner pair is converted, then serialized into one query string',
+  literalType: 'literal (v) - used as written, without type lookup or conversion',
+  composedType: 'composed from inner patterns, each converted separately (see below)',
+  unknownType: target => `${target} is not in any registered type`,
+  declaredType: type => `type ${type} (declared in the template)`,
+  detectedType: (target, type) => `${target} → type ${type} (detected from the value name)`,
+
+  serialized: value => `serialized as ${value}`,
+  noConversion: value => `no conversion → ${value}`,
+  converted: (from, to) => `${from} → ${to}`,
+  defaultUsed: (reason, value) => `failed (${reason}) → default ${value} used`,
+  failed: reason => `failed - ${reason}`,
+  noConverter: 'no TypeConverter was provided',
+  valueNotFound: (type, target) => `type ${type} has no value for ${target}`,
+  flagTransformFailed: 'a custom flag transform failed',
+  failurePolicy: policy => `failure policy: ${policy}`,
+  omittedValue: 'the value is dropped from the result',
+  emptiedValue: 'replaced with an empty value',
+  optionalGroupOmitted: 'inside an optional group [ ... ], so only the group is omitted',
+
+  encrypted: (from, to) => `${from} → ${to}`,
+  globalEncryption: 'the serialized query string is encrypted as the last render step (encryptGlobalQueries); without an encryptor it stays as [ENCRYPT:...]',
+  notEncryptedAfterFailure: 'not encrypted because conversion failed',
+  encryptionFailed: reason => `encryption failed - ${reason}`,
+  noEncryptor: 'no Encryptor was provided',
+  encryptorFailed: 'the Encryptor could not encrypt the value',
+
+  strictIncluded: 'included',
+  strictExcluded: reason => `excluded - ${reason}`,
+  strictWouldExclude: reason => `would be excluded (not applied in DEFAULT mode) - ${reason}`,
+  strictReasons: {
+    'key-placeholder': 'a key that needs conversion drops the whole pair',
+    'default-used': 'values that fell back to a default are excluded (strictDefaults: exclude)',
+    encrypted: 'encrypted values are not plain strings',
+    'conversion-failed': 'values with a failed conversion are excluded',
+    'needs-conversion': 'values that need type conversion are excluded (only plain strings and v{...} literals are allowed)',
+    'inner-value': 'an inner value needs conversion',
+    sibling: 'another value in the same query drops the whole pair',
+    'optional-group': 'a value that needs conversion inside an optional group, so only the group is omitted'
+  },
+  requiredFailed: 'a required (r) value could not be converted, so the whole result is invalid (onRequiredMissing)'
+};
+
+export const EXPLAIN_MESSAGES: Record<ExplainLocale, ExplainMessages> = { ko, en };
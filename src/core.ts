@@ -0,0 +1,145 @@
+/**
+ * React 비의존 진입점
+ *
+ * 엔진, 파서, CLI가 쓰는 공개 API를 모두 내보냅니다. React Hook(useParseState)은
+ * 루트 진입점(index.ts)에서만 내보내므로 Node에서는 이 파일을 import하면 react가 필요 없습니다.
+ */
+export { createUrlTemplateEngine, collectStrictExclusions } from './services/templateEngine';
+export {
+  RequiredValueMissingError,
+  TemplateSyntaxError,
+  InvalidHostnameError,
+  MultiValueConversionError,
+  PlaceholderConversionError,
+  GlobalEncryptionError
+} from './errors/templateErrors';
+export { validateTemplate, getTemplateErrors } from './services/templateValidator';
+export { matchUrl } from './services/templateMatcher';
+export type { MatchUrlOptions } from './services/templateMatcher';
+export { decodeUrl } from './services/templateDecoder';
+export type { DecodeUrlOptions } from './services/templateDecoder';
+export { printTemplate } from './services/templatePrinter';
+export { lintTemplate, applyLintFixes, DEFAULT_LINT_SEVERITIES } from './services/templateLinter';
+export type { PrintTemplateOptions } from './services/templatePrinter';
+export { explainRender } from './services/templateExplainer';
+export type { ExplainRenderOptions, ExplainLocale, ExplainFormat } from './types/explain.types';
+export type {
+  UrlTemplateEngine,
+  UrlTemplateEngineOptions,
+  MultiValueFailurePolicy,
+  StrictDefaultPolicy
+} from './services/templateEngine';
+
+export type { 
+  ParseResult,
+  ParsedParameter,
+  ParsedSegment,
+  ParsedQuery,
+  ParsedQueryGroup,
+  ParsedQueryKey,
+  QueryArrayKey,
+  ParsedFragment,
+  ParsedHost,
+  TraceLocation,
+  FailurePolicy,
+  FailureCode,
+  ParameterType,
+  ParameterFlags,
+  MissingRequiredValue,
+  TypeConverter,
+  Encryptor,
+  Decryptor,
+  ATypeValue,
+  BTypeValue
+} from './types/parser.types';
+
+export { 
+  ATYPE_VALUES,
+  BTYPE_VALUES,
+  ParameterType as ParamType,
+  FilteringMode,
+  EncodingContext,
+  QueryArrayStyle
+} from './types/parser.types';
+
+export { 
+  parseUrlComponents,
+  detectParameterType,
+  parseFlags,
+  parseTypeAnnotation,
+  splitDefaultValue,
+  resolveFailurePolicy,
+  isQueryKeyExcluded,
+  parseNestedStructure,
+  splitHostComponents,
+  escapeTemplate,
+  unescapeTemplate
+} from './utils/parser.utils';
+
+export {
+  defaultTypeRegistry,
+  registerType
+} from './utils/typeRegistry';
+export type { TypeMatcher, TypeDefinition, TypeRegistry } from './utils/typeRegistry';
+
+export {
+  defaultFlagRegistry,
+  registerFlag
+} from './utils/flagRegistry';
+export type { FlagDefinition, FlagRegistry, FlagStage, FlagTransform } from './utils/flagRegistry';
+export { FLAG_PRESETS } from './utils/flagPresets';
+export { percentEncode, percentDecode, isEncodingSkipped } from './utils/percentEncoding';
+
+export {
+  parseTemplate,
+  walkTemplate,
+  parseValueParts,
+  extractValueWithBrackets,
+  splitOptionalGroups,
+  splitOptionalGroupParts
+} from './parsers/templateParser';
+export { substituteOptionalGroups } from './services/substitutionService';
+export type {
+  SourceSpan,
+  TemplateNode,
+  UrlNode,
+  HostNode,
+  HostComponent,
+  PathNode,
+  SegmentNode,
+  QueryNode,
+  GlobalGroupNode,
+  PairNode,
+  FragmentNode,
+  ValueNode,
+  TextNode,
+  PlaceholderNode,
+  TemplateParseOptions
+} from './types/ast.types';
+
+export { MatchMismatchCode, DecodedFieldStatus } from './types/match.types';
+export type {
+  MatchedValue,
+  UnresolvedPlaceholder,
+  UrlMismatch,
+  UrlMatchResult,
+  DecodedField,
+  DecodedUrl
+} from './types/match.types';
+
+export { LintRuleName } from './types/lint.types';
+export type { LintRuleSeverity, LintConfig, LintFix, LintMessage } from './types/lint.types';
+
+export { DiagnosticCode } from './types/diagnostic.types';
+export type { DiagnosticSeverity, TemplateDiagnostic } from './types/diagnostic.types';
+
+export { parseUrlSegments, toParsedSegments, toParsedSegment } from './parsers/urlParser';
+export { parseQueryString, toParsedQueries, groupArrayQueries } from './parsers/queryParser';
+export { parseFragment, toParsedFragment } from './parsers/fragmentParser';
+export { parseHost, toParsedHost, formatHost, validateHostname, validatePort } from './parsers/hostParser';
+
+export { 
+  transformParameter,
+  transformSegments,
+  transformQueries
+} from './services/transformService';
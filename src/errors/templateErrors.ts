@@ -0,0 +1,128 @@
+import { MissingRequiredValue, ParameterType } from '../types/parser.types';
+import { TemplateDiagnostic } from '../types/diagnostic.types';
+
+/**
+ * 필수(r 플래그) 값이 변환되지 못했을 때 발생하는 에러
+ *
+ * 왜 별도 에러 클래스인가:
+ * - 일반 값은 변환 실패시 제외/빈 값으로 처리되지만, 필수 값이 빠진 URL은 의미가 없음
+ * - 호출하는 쪽에서 instanceof로 구분하고 missing 목록으로 원인을 보여줄 수 있도록 함
+ */
+export class RequiredValueMissingError extends Error {
+  /** 변환에 실패한 모든 필수 값 (발견 순서대로) */
+  readonly missing: MissingRequiredValue[];
+
+  constructor(missing: MissingRequiredValue[]) {
+    const summary = missing
+      .map(item => `${item.location}:${item.identifier} (${item.target})`)
+      .join(', ');
+    super(`필수 값 변환 실패 ${missing.length}건: ${summary}`);
+    this.name = 'RequiredValueMissingError';
+    this.missing = missing;
+  }
+}
+
+/**
+ * 템플릿에 문법 오류(error 심각도 진단)가 있을 때 발생하는 에러
+ *
+ * 엔진의 onSyntaxError: 'throw' 옵션에서 사용:
+ * - 짝이 맞지 않는 중괄호 등을 그대로 두면 오류 없이 엉뚱한 URL이 만들어지므로
+ *   파싱 단계에서 중단하고 위치 정보와 함께 알려줌
+ */
+export class TemplateSyntaxError extends Error {
+  /** error 심각도 진단 목록 (위치 순) */
+  readonly diagnostics: TemplateDiagnostic[];
+
+  constructor(diagnostics: TemplateDiagnostic[]) {
+    const summary = diagnostics
+      .map(item => `${item.code}@${item.range.start}-${item.range.end}`)
+      .join(', ');
+    super(`템플릿 문법 오류 ${diagnostics.length}건: ${summary}`);
+    this.name = 'TemplateSyntaxError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * 플레이스홀더를 변환한 호스트명이 올바른 호스트명이 아닐 때 발생하는 에러
+ *
+ * 엔진의 onInvalidHost: 'throw' 옵션(기본값)에서 사용:
+ * - {A_TYPE_1}.api.com의 변환값이 비거나 허용되지 않는 문자를 포함하면
+ *   접속할 수 없는 URL이 만들어지므로 렌더링 전에 중단
+ */
+export class InvalidHostnameError extends Error {
+  /** 변환된 호스트명 */
+  readonly hostname: string;
+  /** 올바르지 않은 이유 */
+  readonly reason: string;
+
+  constructor(hostname: string, reason: string) {
+    super(`올바르지 않은 호스트명 "${hostname}": ${reason}`);
+    this.name = 'InvalidHostnameError';
+    this.hostname = hostname;
+    this.reason = reason;
+  }
+}
+
+/**
+ * 다중 값 쿼리 key의 값 일부가 변환되지 못했을 때 발생하는 에러
+ *
+ * 엔진의 onMultiValueFailure: 'throw' 옵션에서 사용:
+ * - tag={A_TYPE_1}&tag={A_TYPE_2} 중 하나만 빠진 목록은 서버에서 전체 목록으로 오해될 수 있으므로
+ *   일부만 보내는 대신 렌더링을 중단
+ */
+export class MultiValueConversionError extends Error {
+  /** 다중 값 key 이름 ([] / [n] 제외) */
+  readonly key: string;
+  /** 변환에 실패한 값들의 대상 (작성 순서) */
+  readonly failedTargets: string[];
+
+  constructor(key: string, failedTargets: string[]) {
+    super(`다중 값 쿼리 "${key}"의 값 ${failedTargets.length}건 변환 실패: ${failedTargets.join(', ')}`);
+    this.name = 'MultiValueConversionError';
+    this.key = key;
+    this.failedTargets = failedTargets;
+  }
+}
+
+/**
+ * 변환에 실패한 플레이스홀더에 throw 정책(onFailure)이 적용되었을 때 발생하는 에러
+ *
+ * 엔진 옵션, 타입 정의, 확장 플래그(t)의 onFailure: 'throw'에서 사용:
+ * - 필수 값(r 플래그)은 변환을 모두 마친 뒤 누락 목록을 모아서 알리지만,
+ *   이 정책은 실패한 값을 만난 즉시 렌더링을 중단
+ */
+export class PlaceholderConversionError extends Error {
+  /** 변환 대상이 된 원본 값 */
+  readonly target: string;
+  /** 감지(또는 선언)된 타입 */
+  readonly type: ParameterType;
+  /** 변환 실패 이유 */
+  readonly reason: string;
+
+  constructor(target: string, type: ParameterType, reason: string) {
+    super(`플레이스홀더 "${target}" (${type}) 변환 실패: ${reason}`);
+    this.name = 'PlaceholderConversionError';
+    this.target = target;
+    this.type = type;
+    this.reason = reason;
+  }
+}
+
+/**
+ * 전역 암호화 그룹(?e{...})의 쿼리스트링을 암호화하지 못했을 때 발생하는 에러
+ *
+ * 전역 그룹은 재구성을 마친 쿼리스트링 전체를 한 번에 암호화하므로 값마다 onFailure를 적용할 수 없음:
+ * - 암호화되지 않은 평문 쿼리스트링을 대신 내보내지 않도록 정책과 관계없이 렌더링을 중단
+ * - 메시지에는 암호화하려던 평문을 넣지 않음
+ */
+export class GlobalEncryptionError extends Error {
+  /** encryptor가 던진 원래 에러 */
+  readonly cause: unknown;
+
+  constructor(cause: unknown) {
+    super('전역 암호화 그룹 암호화 실패: 암호화되지 않은 쿼리스트링은 출력하지 않음');
+    this.name = 'GlobalEncryptionError';
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,47 @@
+import { ParsedFragment } from '../types/parser.types';
+import { FragmentNode, TemplateParseOptions } from '../types/ast.types';
+import { parseFragmentNode } from './templateParser';
+import { toParsedSegments } from './urlParser';
+import { toParsedQueries } from './queryParser';
+
+/**
+ * URL의 # 이후 fragment를 파싱하는 함수
+ * 
+ * fragment를 별도로 파싱해야 하는 이유:
+ * - 기존에는 # 이후가 마지막 쿼리 값이나 경로 세그먼트에 붙어버림
+ * - SPA 라우트(#/orders?id={A_TYPE_1})는 fragment 안에 다시 경로와 쿼리를 가짐
+ * 
+ * 지원하는 패턴:
+ * 1. 단순 앵커: #section-{A_TYPE_1} → 세그먼트 하나 (치환 모드)
+ * 2. SPA 라우트: #/orders/{B_TYPE_2}?id=e{A_TYPE_1} → 경로 세그먼트 + 쿼리
+ * 3. 전역 그룹: #/route?e{a={A_TYPE_1}} → 일반 쿼리와 같은 전역 처리
+ * 
+ * 세그먼트/쿼리 파싱 규칙은 경로, 쿼리와 완전히 동일함
+ * 
+ * @param fragment # 이후 문자열
+ * @param offset 원본 템플릿에서 fragment가 시작하는 위치 (span 계산용, 기본값 0)
+ * @param options 파싱 옵션 (경로/쿼리와 같은 퍼센트 디코딩, lossless 규칙)
+ * @returns 파싱된 fragment
+ */
+export const parseFragment = (
+  fragment: string,
+  offset: number = 0,
+  options: TemplateParseOptions = {}
+): ParsedFragment => {
+  return toParsedFragment(parseFragmentNode(fragment, offset, options), options);
+};
+
+/**
+ * Fragment 노드를 ParsedFragment로 변환하는 함수
+ * 
+ * @param node parseFragmentNode/parseTemplate 결과의 fragment 노드
+ * @param options lossless면 빈 세그먼트와 = 없는 key 보존
+ * @returns 파싱된 fragment (reconstructedPath는 변환 후 채워짐)
+ */
+export const toParsedFragment = (node: FragmentNode, options: TemplateParseOptions = {}): ParsedFragment => ({
+  raw: node.raw,
+  leadingSlash: node.path?.raw.startsWith('/') ?? false,
+  url: node.path ? toParsedSegments(node.path, options) : [],
+  query: node.query?.raw ? toParsedQueries(node.query, options) : [],
+  reconstructedPath: ''
+});
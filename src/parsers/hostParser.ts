@@ -0,0 +1,124 @@
+import { ParsedHost, ParsedSegment } from '../types/parser.types';
+import { HostComponent, HostNode } from '../types/ast.types';
+import { parseHostNode } from './templateParser';
+import { toParsedSegment } from './urlParser';
+
+/** 호스트명 전체 최대 길이 (RFC 1035) */
+const MAX_HOSTNAME_LENGTH = 253;
+/** 라벨 하나의 최대 길이 (RFC 1035) */
+const MAX_LABEL_LENGTH = 63;
+/** 라벨 허용 문자: 영숫자와 하이픈, 하이픈으로 시작/끝날 수 없음 (RFC 1123) */
+const LABEL_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/;
+/** 포트 최댓값 */
+const MAX_PORT = 65535;
+
+/**
+ * 호스트(authority) 문자열을 구성요소별로 파싱하는 함수
+ * 
+ * 지원하는 패턴:
+ * 1. 일반 호스트: api.example.com
+ * 2. userinfo + port: user:pass@api.example.com:8080
+ * 3. IPv6 리터럴: [::1]:3000 (대괄호 안의 :는 포트 구분자가 아님)
+ * 4. 플레이스홀더: {A_TYPE_1}:8080, admin@api.com:{B_TYPE_1}
+ * 5. 라벨 템플릿: {A_TYPE_1}.api.example.com, v{REGION}-svc.example.com
+ * 
+ * 분리 규칙은 splitHostComponents 참조
+ * hostname은 . 기준 라벨로 나뉘고, 각 라벨은 경로 세그먼트와 같은 PARAMETER/SUBSTITUTION 규칙을 따름
+ * userinfo와 port는 구성요소 전체를 세그먼트 하나처럼 같은 규칙으로 파싱
+ * 
+ * @param host 프로토콜 :// 이후 경로/쿼리 전까지의 문자열
+ * @param offset 원본 템플릿에서 호스트가 시작하는 위치 (기본값 0)
+ * @returns 파싱된 호스트
+ */
+export const parseHost = (host: string, offset: number = 0): ParsedHost => {
+  return toParsedHost(parseHostNode(host, offset));
+};
+
+/**
+ * Host 노드를 ParsedHost로 변환하는 함수
+ * 
+ * @param node parseHostNode/parseTemplate 결과의 host 노드
+ * @returns 파싱된 호스트
+ */
+export const toParsedHost = (node: HostNode): ParsedHost => ({
+  raw: node.raw,
+  userinfo: node.userinfo?.raw ?? null,
+  hostname: node.hostname.raw,
+  labels: node.labels.map(toParsedSegment),
+  port: node.port?.raw ?? null,
+  userinfoParameter: node.userinfo ? toParsedComponent(node.userinfo) : null,
+  portParameter: node.port ? toParsedComponent(node.port) : null,
+  isIPv6: node.hostname.raw.startsWith('[')
+});
+
+/**
+ * userinfo/port 구성요소를 세그먼트 하나로 보고 ParsedSegment로 변환하는 함수
+ */
+const toParsedComponent = (component: HostComponent): ParsedSegment =>
+  toParsedSegment({ kind: 'Segment', ...component });
+
+/**
+ * ParsedHost를 호스트 문자열(userinfo@hostname:port)로 조립하는 함수
+ * 
+ * 재구성시 baseUrl의 호스트 대신 사용하므로, 파싱 결과의 hostname/port를
+ * 바꾸면 렌더링된 URL에 그대로 반영됨
+ * 
+ * @param host 파싱된 호스트
+ * @returns 호스트 문자열
+ */
+export const formatHost = (host: ParsedHost): string => {
+  const userinfo = host.userinfo !== null ? `${host.userinfo}@` : '';
+  const port = host.port !== null ? `:${host.port}` : '';
+  return `${userinfo}${host.hostname}${port}`;
+};
+
+/**
+ * 변환된 호스트명이 올바른 호스트명인지 검사하는 함수
+ * 
+ * 검사가 필요한 이유:
+ * - {A_TYPE_1}.api.com의 변환값에 공백, _, / 등이 들어가거나 빈 값이 되면
+ *   오류 없이 접속 불가능한 URL이 만들어짐
+ * 
+ * 검사 규칙 (RFC 1035/1123):
+ * - 전체 253자 이하, 라벨 63자 이하
+ * - 라벨은 영숫자와 하이픈만, 하이픈으로 시작하거나 끝날 수 없음
+ * - 빈 라벨 불가 (끝의 . 하나는 FQDN 표기로 허용)
+ * - IPv6 리터럴([...])은 검사하지 않음
+ * 
+ * @param hostname 검사할 호스트명
+ * @returns 올바르지 않은 이유 (문제가 없으면 undefined)
+ */
+export const validateHostname = (hostname: string): string | undefined => {
+  if (hostname.startsWith('[')) return undefined;
+  if (!hostname) return '호스트명이 비어 있습니다';
+  if (hostname.length > MAX_HOSTNAME_LENGTH) {
+    return `호스트명이 ${MAX_HOSTNAME_LENGTH}자를 넘습니다 (${hostname.length}자)`;
+  }
+
+  const labels = hostname.endsWith('.') ? hostname.slice(0, -1).split('.') : hostname.split('.');
+  for (const label of labels) {
+    if (!label) return '빈 라벨이 있습니다';
+    if (label.length > MAX_LABEL_LENGTH) {
+      return `라벨 "${label}"이 ${MAX_LABEL_LENGTH}자를 넘습니다`;
+    }
+    if (!LABEL_PATTERN.test(label)) {
+      return `라벨 "${label}"에 허용되지 않는 문자가 있습니다 (영숫자와 하이픈만 가능, 하이픈으로 시작/끝 불가)`;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * 변환된 포트가 올바른 포트인지 검사하는 함수
+ *
+ * {B_TYPE_1} 같은 포트 플레이스홀더의 변환값이 숫자가 아니면 접속 불가능한 URL이 만들어지므로
+ * 호스트명과 같은 방식(invalidReason, onInvalidHost)으로 보고
+ *
+ * @param port 검사할 포트 (빈 값은 기본 포트로 허용)
+ * @returns 올바르지 않은 이유 (문제가 없으면 undefined)
+ */
+export const validatePort = (port: string): string | undefined => {
+  if (!/^\d*$/.test(port)) return `포트 "${port}"에 숫자가 아닌 문자가 있습니다`;
+  if (port && Number(port) > MAX_PORT) return `포트 ${port}가 ${MAX_PORT}를 넘습니다`;
+  return undefined;
+};
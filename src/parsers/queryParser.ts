@@ -1,62 +1,176 @@
-import { ParsedQuery, ParameterFlags, ProcessingMode, ParameterType } from '../types/parser.types';
+import {
+  ParsedQuery,
+  GlobalParsedQuery,
+  ParameterFlags,
+  ProcessingMode,
+  ParameterType,
+  QueryArrayKey,
+  QueryArrayStyle,
+  ParsedQueryGroup,
+  ParsedQueryKey
+} from '../types/parser.types';
+import { QueryNode, GlobalGroupNode, PairNode, TemplateParseOptions, ValueNode } from '../types/ast.types';
 import { 
-  extractValueWithBrackets, 
   determineParameterType, 
   getFinalValue,
-  parseNestedStructure,
-  detectProcessingMode
+  unescapeTemplate
 } from '../utils/parser.utils';
+import { parseQueryNode, detectProcessingMode, getValuePlaceholder } from './templateParser';
+
+/** tag[] / tag[0] 형태의 key */
+const ARRAY_KEY_PATTERN = /^(.+)\[(\d*)\]$/;
 
 /**
- * 쿼리스트링을 안전하게 분할하는 함수
- * 
- * 일반적인 split('&')의 문제점:
- * - "name={A_TYPE_1}&where=PROC=!@&r{NAME}" 같은 경우
- * - 중괄호 안의 &를 구분자로 잘못 인식할 수 있음
- * 
- * 해결 방법:
- * - 스택을 이용해 중괄호 깊이 추적
- * - 깊이가 0일 때만 &를 구분자로 인식
- * - 중괄호 안의 &는 무시
- * 
- * 예시:
- * 입력: "name={A&B}&value=test"
- * 일반 split: ["name={A", "B}", "value=test"] ❌
- * 스마트 split: ["name={A&B}", "value=test"] ✅
- * 
- * @param content 분할할 쿼리스트링 내용
- * @returns 안전하게 분할된 key=value 쌍들
+ * key를 다중 값 이름과 작성 형태로 나누는 함수 (tag[] → tag, BRACKETS)
  */
-const smartSplitQuery = (content: string): string[] => {
-  const pairs: string[] = [];
-  let current = '';
-  let depth = 0; // 중괄호 깊이 추적
-  
-  for (let i = 0; i < content.length; i++) {
-    const char = content[i];
-    
-    if (char === '{') {
-      depth++; // 중괄호 열림
-    } else if (char === '}') {
-      depth--; // 중괄호 닫힘
-    } else if (char === '&' && depth === 0) {
-      // 중괄호 바깥에서만 &를 구분자로 인식
-      if (current.trim()) {
-        pairs.push(current);
-      }
-      current = '';
-      continue; // &는 결과에 포함하지 않음
+export const parseArrayKey = (key: string): QueryArrayKey => {
+  const match = key.match(ARRAY_KEY_PATTERN);
+  if (!match) return { name: key, style: QueryArrayStyle.REPEAT };
+
+  return {
+    name: match[1],
+    style: match[2] === '' ? QueryArrayStyle.BRACKETS : QueryArrayStyle.INDEXED
+  };
+};
+
+/**
+ * 같은 목록의 쿼리들 중 다중 값 key에 arrayKey를 표시하는 함수
+ *
+ * 다중 값으로 보는 경우:
+ * - 같은 이름이 두 번 이상 나옴 (tag={A_TYPE_1}&tag={A_TYPE_2})
+ * - [] 또는 [n] 형태의 key (한 번만 나와도 배열 의도가 명확함)
+ *
+ * tag와 tag[]처럼 형태가 섞여 있어도 이름이 같으면 하나의 key로 묶임
+ * 플레이스홀더가 있는 key({A_TYPE_1}=..)는 변환 전에는 이름을 알 수 없으므로 묶지 않음
+ *
+ * @param queries 같은 쿼리스트링(또는 같은 전역 그룹)의 최상위 쿼리들
+ */
+const markArrayKeys = (queries: ParsedQuery[]) => {
+  const counts = new Map<string, number>();
+  // 값 없는 key(?debug)는 값 목록이 아니므로 제외
+  const valued = queries.filter(query => !query.valueless && !query.keyParameter);
+  valued.forEach(query => {
+    const { name } = parseArrayKey(query.key);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+
+  valued.forEach(query => {
+    const arrayKey = parseArrayKey(query.key);
+    if (arrayKey.style !== QueryArrayStyle.REPEAT || (counts.get(arrayKey.name) ?? 0) > 1) {
+      query.arrayKey = arrayKey;
     }
-    
-    current += char;
-  }
+  });
+};
+
+/**
+ * 쿼리 목록에서 다중 값 key들을 이름별로 묶는 함수
+ *
+ * 묶음 순서는 이름이 처음 나온 순서, 각 묶음의 값은 작성 순서
+ * (전역 쿼리의 내부 결과는 별도 목록이므로 innerResults로 따로 호출)
+ *
+ * @example
+ * groupArrayQueries(parseQueryString('tag={A_TYPE_1}&page=1&tag={A_TYPE_2}'))
+ * // [{ name: 'tag', style: 'repeat', items: [tag={A_TYPE_1}, tag={A_TYPE_2}] }]
+ *
+ * @param queries 파싱(또는 변환)된 쿼리 배열
+ * @returns 다중 값 쿼리 묶음 배열
+ */
+export const groupArrayQueries = (queries: ParsedQuery[]): ParsedQueryGroup[] => {
+  const groups = new Map<string, ParsedQueryGroup>();
+
+  queries.forEach(query => {
+    if (!query.arrayKey) return;
+
+    const { name, style } = query.arrayKey;
+    const group = groups.get(name);
+    if (group) {
+      group.items.push(query);
+    } else {
+      groups.set(name, { name, style, items: [query] });
+    }
+  });
+
+  return [...groups.values()];
+};
+
+/**
+ * = 없이 key만 작성된 쌍을 값 없는 쿼리로 만드는 함수 (lossless 모드)
+ *
+ * 변환 대상이 아닌 정적 key이므로 값 관련 필드는 빈 값, 재구성시 key만 출력
+ */
+const createValuelessQuery = (pair: PairNode): ParsedQuery => ({
+  key: unescapeTemplate(pair.key),
+  value: '',
+  originalValue: '',
+  flags: { encrypted: false, required: false, literal: false },
+  type: ParameterType.UNKNOWN,
+  extractedValue: null,
+  convertedValue: null,
+  encryptedValue: null,
+  finalValue: '',
+  processingMode: ProcessingMode.PARAMETER,
+  span: { start: pair.start, end: pair.end },
+  valueless: true,
+  ...(pair.encodedKey !== undefined ? { sourceKey: pair.encodedKey } : {})
+});
+
+/**
+ * 쿼리의 key 또는 value 하나를 처리 모드에 맞게 파싱하는 함수
+ *
+ * - 치환 모드: 플래그만 추출하고 타입은 정하지 않음 (변환시 안쪽 중괄호를 각각 처리)
+ * - 파라미터 모드: 값은 더 이상 치환되지 않으므로 이스케이프를 여기서 제거하고 타입 결정 (v{a\&b} → a&b)
+ *
+ * 전역 플래그가 있는 경우 개별 플래그만 사용 (전역은 나중에 적용)
+ * - encrypted, literal, 확장 플래그는 개별 플래그만 사용, required는 부모 OR 개별
+ *
+ * @param text 작성된 key 또는 value (이스케이프 포함)
+ * @param parts text를 파싱한 값 노드 (Pair 노드의 keyParts/valueParts)
+ * @param parentFlags 부모에서 전달받은 플래그
+ * @returns 변환 전 파라미터 정보 (key/span 등 쿼리 필드 제외)
+ */
+const parseQueryPart = (text: string, parts: ValueNode[], parentFlags: ParameterFlags): ParsedQueryKey => {
+  const processingMode = detectProcessingMode(parts);
+  // 값 전체를 감싼 [플래그]{내용} (치환 모드에서는 e{PROC=!@r{NAME}}처럼 안쪽을 치환한 뒤 플래그 적용)
+  const placeholder = getValuePlaceholder(parts);
   
-  // 마지막 부분 추가
-  if (current.trim()) {
-    pairs.push(current);
+  if (processingMode === ProcessingMode.SUBSTITUTION || !placeholder) {
+    // 치환 모드: 복잡한 문자열 처리 - 값 전체 플래그와 치환할 노드만 정리
+    const flags = placeholder ? placeholder.flags : { encrypted: false, required: false, literal: false };
+    return {
+      originalValue: text,
+      flags: { ...flags, required: parentFlags.required || flags.required },
+      type: ParameterType.UNKNOWN, // 치환 모드에서는 타입이 정해지지 않음
+      extractedValue: placeholder ? placeholder.content : text,
+      convertedValue: null,
+      encryptedValue: null,
+      finalValue: text, // 초기값, 나중에 substituteOptionalGroups로 처리
+      processingMode,
+      parts: placeholder ? placeholder.children : parts
+    };
   }
   
-  return pairs;
+  // 파라미터 모드
+  const { flags, declaredType, defaultValue } = placeholder;
+  const extractedValue = unescapeTemplate(placeholder.name);
+  const mergedFlags: ParameterFlags = {
+    ...flags,
+    required: parentFlags.required || flags.required
+  };
+  const type = determineParameterType(extractedValue || text, mergedFlags, declaredType);
+  
+  return {
+    originalValue: text,
+    flags: mergedFlags,
+    type,
+    declaredType,
+    defaultValue,
+    extractedValue,
+    convertedValue: null,
+    encryptedValue: null,
+    finalValue: getFinalValue(text, extractedValue, null, null, mergedFlags, type, ProcessingMode.PARAMETER),
+    processingMode,
+    parts: [placeholder]
+  };
 };
 
 /**
@@ -68,110 +182,101 @@ const smartSplitQuery = (content: string): string[] => {
  * 3. 파라미터 모드와 치환 모드 구분
  * 
  * 처리 과정:
- * 1. smartSplitQuery로 안전하게 key=value 분할
+ * 1. parseQueryNode가 중괄호 깊이를 고려해 나눈 Pair 노드들을 순회
  * 2. 각 쌍에 대해 processingMode 감지
- * 3. 모드에 따라 다른 파싱 로직 적용
+ * 3. 모드에 따라 다른 파싱 로직 적용 (parseQueryPart)
  * 4. 플래그 병합 (전역 + 개별)
+ * 5. key에 플레이스홀더가 있으면 key도 같은 방식으로 파싱하여 keyParameter에 저장
+ * 
+ * 최상위 쌍들 중 다중 값 key(tag=..&tag=.., tag[]=..)에는 arrayKey를 표시
+ * (e{a=1&b=2} 안의 내부 쌍은 별도 값이 아니므로 제외)
  * 
  * 플래그 병합 정책:
  * - encrypted: 개별 플래그만 사용 (전역은 나중에 적용)
  * - required: 전역 OR 개별
  * - literal: 개별 플래그만 사용
+ * - custom(확장 플래그): 개별 플래그만 사용
  * 
- * @param value 파싱할 쿼리 값
+ * @param pairs 파싱할 Pair 노드들
  * @param globalFlags 전역 플래그 (선택적)
+ * @param lossless = 없는 key를 값 없는 쿼리(valueless)로 보존할지
  * @returns 파싱된 쿼리 객체들의 배열
  */
 const parseQueryValue = (
-  value: string,
-  globalFlags: ParameterFlags = { encrypted: false, required: false, literal: false }
+  pairs: PairNode[],
+  globalFlags: ParameterFlags = { encrypted: false, required: false, literal: false },
+  lossless: boolean = false
 ): ParsedQuery[] => {
   const results: ParsedQuery[] = [];
+  const topLevelResults: ParsedQuery[] = [];
   
   /**
    * 재귀적으로 중첩된 구조를 파싱하는 내부 함수
    * 
    * 재귀가 필요한 이유:
    * - {name={A_TYPE_1}&where=r{B_TYPE_2}} 같은 중첩 구조
-   * - 안쪽 구조도 다시 key=value 형태로 파싱 필요
+   * - 안쪽 구조는 Pair 노드의 nested에 이미 key=value 형태로 파싱되어 있음
    * 
-   * @param content 파싱할 내용
+   * @param pairNodes 파싱할 Pair 노드들
    * @param parentFlags 부모에서 전달받은 플래그
    */
   const parseRecursive = (
-    content: string,
+    pairNodes: PairNode[],
     parentFlags: ParameterFlags = { encrypted: false, required: false, literal: false }
   ) => {
-    const pairs = smartSplitQuery(content);
-    
-    pairs.forEach(pair => {
-      const equalIndex = pair.indexOf('=');
-      if (equalIndex === -1) return;
+    pairNodes.forEach(pair => {
+      if (pair.value === null) {
+        // lossless 모드: = 없는 key도 값 없는 쿼리로 보존 (?debug&name=x의 debug)
+        if (lossless && pair.key && pairNodes === pairs) {
+          const valueless = createValuelessQuery(pair);
+          results.push(valueless);
+          topLevelResults.push(valueless);
+        }
+        return;
+      }
+      const resultIndex = results.length;
       
-      const key = pair.substring(0, equalIndex);
-      const val = pair.substring(equalIndex + 1);
+      const key = unescapeTemplate(pair.key); // 이스케이프된 키 (a\=b → a=b)
+      const val = pair.value;
+      const span = { start: pair.start, end: pair.end };
       if (!key) return;
       
-      const processingMode = detectProcessingMode(val || '');
+      // {A_TYPE_1}=value처럼 key에도 플레이스홀더가 있으면 값과 같은 규칙으로 변환
+      const keyParameter = pair.keyParts.some(part => part.kind === 'Placeholder')
+        ? parseQueryPart(pair.key, pair.keyParts, parentFlags)
+        : null;
       
-      if (processingMode === ProcessingMode.SUBSTITUTION) {
-        // 치환 모드: 복잡한 문자열 처리 - 플래그 추출
-        const { flags, extractedValue } = extractValueWithBrackets(val || '');
-        const mergedFlags: ParameterFlags = {
-          encrypted: flags.encrypted, // 개별 플래그만 사용
-          required: parentFlags.required || flags.required,
-          literal: flags.literal
-        };
-        
-        results.push({
-          key,
-          value: val || '',
-          originalValue: val || '',
-          flags: mergedFlags,
-          type: ParameterType.UNKNOWN, // 치환 모드에서는 타입이 정해지지 않음
-          extractedValue: extractedValue || val || '',
-          convertedValue: null,
-          encryptedValue: null,
-          finalValue: val || '', // 초기값, 나중에 processSubstitution으로 처리
-          processingMode: ProcessingMode.SUBSTITUTION
-        });
-      } else {
-        // 파라미터 모드: 기존 로직
-        const { flags, extractedValue } = extractValueWithBrackets(val || '');
-        
-        // 전역 플래그가 있는 경우 개별 플래그만 사용 (전역은 나중에 적용)
-        const mergedFlags: ParameterFlags = {
-          encrypted: flags.encrypted, // 개별 플래그만 사용
-          required: parentFlags.required || flags.required,
-          literal: flags.literal
-        };
-        
-        const type = determineParameterType(
-          extractedValue || val || '',
-          mergedFlags
-        );
-        
-        results.push({
-          key,
-          value: val || '',
-          originalValue: val || '',
-          flags: mergedFlags,
-          type,
-          extractedValue,
-          convertedValue: null,
-          encryptedValue: null,
-          finalValue: getFinalValue(val || '', extractedValue, null, null, mergedFlags, type, ProcessingMode.PARAMETER),
-          processingMode: ProcessingMode.PARAMETER
-        });
-        
-        if (extractedValue && extractedValue.includes('=') && !flags.literal) {
-          parseRecursive(extractedValue, mergedFlags);
-        }
+      // 디코딩 전 원본 표기 (정적 값만 원본 그대로 재구성, 플레이스홀더가 있으면 변환 결과 사용)
+      const source = {
+        ...(pair.encodedKey !== undefined && !keyParameter ? { sourceKey: pair.encodedKey } : {}),
+        ...(pair.encodedValue !== undefined && pair.valueParts.every(part => part.kind === 'Text')
+          ? { sourceValue: pair.encodedValue }
+          : {})
+      };
+      
+      const parsedValue = parseQueryPart(val, pair.valueParts, parentFlags);
+      results.push({
+        key,
+        value: val,
+        ...parsedValue,
+        span,
+        ...source,
+        ...(keyParameter ? { keyParameter } : {})
+      });
+      
+      // e{a=1&b=2}처럼 내부에 다시 key=value가 있는 경우 (파라미터 모드, 리터럴 제외)
+      if (parsedValue.processingMode === ProcessingMode.PARAMETER && pair.nested.length > 0) {
+        parseRecursive(pair.nested, parsedValue.flags);
+      }
+      
+      if (pairNodes === pairs) {
+        topLevelResults.push(results[resultIndex]);
       }
     });
   };
   
-  parseRecursive(value, globalFlags);
+  parseRecursive(pairs, globalFlags);
+  markArrayKeys(topLevelResults);
   return results;
 };
 
@@ -195,38 +300,59 @@ const parseQueryValue = (
  * → 3) 최종: 암호화된_문자열
  * 
  * @param query 쿼리스트링 (?를 제외한 부분)
+ * @param offset 원본 템플릿에서 쿼리스트링이 시작하는 위치 (span 계산용, 기본값 0)
+ * @param options 파싱 옵션 (decodePercent: name=%7BA_TYPE_1%7D 디코딩, plusAsSpace: a+b → a b,
+ *                lossless: ?debug 같은 = 없는 key 보존)
  * @returns 파싱된 쿼리 객체들의 배열
  */
-export const parseQueryString = (query: string): ParsedQuery[] => {
+export const parseQueryString = (
+  query: string,
+  offset: number = 0,
+  options: TemplateParseOptions = {}
+): ParsedQuery[] => {
   if (!query) return [];
   
-  // 1단계: 전역 플래그 확인
-  // parseNestedStructure가 ?er{...} 형태를 감지
-  const { globalFlags, content } = parseNestedStructure(query);
-  
-  // 2단계: 전역 플래그가 있는 경우 특별 처리
-  if (globalFlags.encrypted || globalFlags.required || globalFlags.literal) {
+  return toParsedQueries(parseQueryNode(query, offset, options), options);
+};
+
+/**
+ * Query/GlobalGroup 노드를 ParsedQuery 배열로 변환하는 함수
+ * 
+ * 1단계: parseQueryNode가 ?er{...} 형태를 GlobalGroup으로 감지
+ * 2단계: 전역 그룹이면 내부 쿼리들을 먼저 파싱하여 하나의 전역 쿼리 객체에 담음
+ * 3단계: 일반 쿼리면 개별 쿼리들로 처리
+ * 
+ * @param node parseQueryNode/parseTemplate 결과의 쿼리 노드
+ * @param options lossless면 = 없는 key도 valueless 쿼리로 보존
+ * @returns 파싱된 쿼리 객체들의 배열
+ */
+export const toParsedQueries = (
+  node: QueryNode | GlobalGroupNode,
+  options: TemplateParseOptions = {}
+): ParsedQuery[] => {
+  const lossless = !!options.lossless;
+  if (node.kind === 'GlobalGroup') {
     // 내부 쿼리들을 먼저 파싱
-    const innerResults = parseQueryValue(content, globalFlags);
+    const innerResults = parseQueryValue(node.pairs, node.flags, lossless);
     
     // 전역 쿼리 객체 생성 (특별한 구조)
     // 이 객체는 나중에 transformService에서 특별히 처리됨
     return [{
       key: '__GLOBAL__', // 특수 키로 전역 처리 표시
-      value: query,
-      originalValue: query,
-      flags: globalFlags,
+      value: node.raw,
+      originalValue: node.raw,
+      flags: node.flags,
       type: ParameterType.GLOBAL, // 전역 처리 표시용
-      extractedValue: content,
+      extractedValue: node.raw.slice(node.flagString.length + 1, -1), // 플래그와 바깥 중괄호를 제거한 내용
       convertedValue: null,
       encryptedValue: null,
-      finalValue: query,
+      finalValue: node.raw,
       processingMode: ProcessingMode.SUBSTITUTION,
-      innerResults: innerResults // 내부 파싱 결과 저장 (중요!)
-    } as ParsedQuery & { type: ParameterType.GLOBAL; innerResults: ParsedQuery[] }];
+      innerResults: innerResults, // 내부 파싱 결과 저장 (중요!)
+      span: { start: node.start, end: node.end }
+    } as GlobalParsedQuery];
   }
   
-  // 3단계: 일반 쿼리스트링 파싱
   // 전역 플래그가 없으면 개별 쿼리들로 처리
-  return parseQueryValue(query);
-};
\ No newline at end of file
+  return parseQueryValue(node.pairs, undefined, lossless);
+};
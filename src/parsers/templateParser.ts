@@ -0,0 +1,875 @@
+import {
+  UrlNode,
+  HostNode,
+  HostComponent,
+  PathNode,
+  SegmentNode,
+  QueryNode,
+  GlobalGroupNode,
+  FragmentNode,
+  PairNode,
+  ValueNode,
+  PlaceholderNode,
+  TextNode,
+  TemplateNode,
+  TemplateParseOptions
+} from '../types/ast.types';
+import {
+  parseFlags,
+  hasAnyFlag,
+  parsePlaceholderContent,
+  parseNestedStructure,
+  parseUrlComponents,
+  splitHostComponents,
+  maskEscapes
+} from '../utils/parser.utils';
+import { isFlagLetter } from '../utils/flagRegistry';
+import { decodeTemplateText, DecodedText } from '../utils/percentEncoding';
+import { ParameterFlags, ParameterType, ProcessingMode } from '../types/parser.types';
+
+/**
+ * 여는 중괄호에 짝이 맞는 닫는 중괄호 위치를 찾는 함수
+ *
+ * @param text 검사할 문자열 (maskEscapes로 이스케이프를 가린 사본)
+ * @param openIndex 여는 중괄호 위치
+ * @returns 닫는 중괄호 위치 (짝이 없으면 -1)
+ */
+const findMatchingBrace = (text: string, openIndex: number): number => {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '{') {
+      depth++;
+    } else if (text[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * 문자열을 Text/Placeholder 노드들로 분해하는 함수
+ *
+ * 로직 설명:
+ * - 최상위 { 를 만나면 짝이 맞는 } 까지를 하나의 Placeholder로 묶음
+ * - { 바로 앞의 플래그 문자들(e, r, v + 등록된 확장 플래그)은 역추적하여 Placeholder에 포함
+ *   (앞선 Placeholder 안으로는 넘어가지 않음)
+ * - Placeholder 내용은 다시 재귀적으로 분해하여 children에 저장
+ * - 짝이 없는 { 이후와 짝 없는 } 는 일반 문자열로 취급
+ * - \{ \} 처럼 이스케이프된 중괄호는 일반 문자열 (노드의 문자열은 이스케이프를 포함한 원본 그대로)
+ *
+ * 예시:
+ * "PROC=!@r{NAME}" → [Text "PROC=!@", Placeholder r{NAME}]
+ * "e{PROC=!@r{NAME}}" → [Placeholder e{...} → children [Text "PROC=!@", Placeholder r{NAME}]]
+ *
+ * @param text 분해할 문자열
+ * @param offset text가 원본 입력에서 시작하는 위치
+ * @returns 값 노드 배열
+ */
+export const parseValueParts = (text: string, offset: number = 0): ValueNode[] => {
+  const parts: ValueNode[] = [];
+  const masked = maskEscapes(text);
+  let textStart = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    if (masked[i] !== '{') {
+      i++;
+      continue;
+    }
+
+    const closeIndex = findMatchingBrace(masked, i);
+    if (closeIndex === -1) break;
+
+    let flagStart = i;
+    while (flagStart > textStart && isFlagLetter(masked[flagStart - 1])) {
+      flagStart--;
+    }
+
+    if (flagStart > textStart) {
+      parts.push({
+        kind: 'Text',
+        value: text.substring(textStart, flagStart),
+        start: offset + textStart,
+        end: offset + flagStart
+      });
+    }
+
+    const flagString = text.substring(flagStart, i);
+    const flags = parseFlags(flagString);
+    const content = text.substring(i + 1, closeIndex);
+    // 리터럴(v)은 타입 선언/기본값을 분리하지 않음
+    const { declaredType, name, defaultValue } = parsePlaceholderContent(content, flags);
+    // 기본값은 내용의 끝부분이므로 길이로 위치를 복원
+    const defaultStart = offset + closeIndex - (defaultValue?.length ?? 0);
+
+    parts.push({
+      kind: 'Placeholder',
+      flagString,
+      flags,
+      content,
+      contentSpan: { start: offset + i + 1, end: offset + closeIndex },
+      declaredType,
+      name,
+      defaultValue,
+      defaultParts: defaultValue === null ? null : parseValueParts(defaultValue, defaultStart),
+      children: parseValueParts(content, offset + i + 1),
+      start: offset + flagStart,
+      end: offset + closeIndex + 1
+    });
+
+    i = closeIndex + 1;
+    textStart = i;
+  }
+
+  if (textStart < text.length) {
+    parts.push({
+      kind: 'Text',
+      value: text.substring(textStart),
+      start: offset + textStart,
+      end: offset + text.length
+    });
+  }
+
+  return parts;
+};
+
+/**
+ * 값 전체가 [플래그]{내용} 하나로 이루어져 있으면 그 Placeholder를 반환하는 함수
+ *
+ * 예: 'e{A_TYPE_1}', 'e{PROC=!@r{NAME}}' → Placeholder / 'v{TEXT}.com', '{}', '{A}{B}' → null
+ *
+ * @param parts 값 노드 배열
+ * @returns 값 전체를 감싼 Placeholder (내용이 비어 있으면 null)
+ */
+export const getValuePlaceholder = (parts: ValueNode[]): PlaceholderNode | null => {
+  const [single] = parts;
+  return parts.length === 1 && single.kind === 'Placeholder' && single.content !== '' ? single : null;
+};
+
+/**
+ * 파라미터 모드 vs 치환 모드를 감지하는 핵심 함수
+ *
+ * 이 함수가 가장 중요한 이유:
+ * - 전체 파싱 로직의 분기점 역할
+ * - 잘못 판단하면 완전히 다른 결과가 나옴
+ *
+ * 파라미터 모드 (값 사용):
+ * - 형태: key=evr{VALUE} 또는 key={VALUE}
+ * - 특징: 값 전체가 Placeholder 하나이고, 안에 다른 Placeholder가 없음
+ * - 처리: 중괄호 안의 값을 추출해서 API 변환 후 사용
+ * - 예시: name={A_TYPE_1}, where=e{B_TYPE_2}
+ * - {NAME|v{OTHER}}처럼 기본값 안에만 Placeholder가 있어도 파라미터 모드
+ *   (기본값은 변환 실패시에만 쓰이는 대체 값이지 문자열 치환이 아니므로 값 하나로 취급)
+ *
+ * 치환 모드 (문자열 치환):
+ * - 형태: key=복잡한구조{VALUE}더복잡한구조
+ * - 특징: Text와 Placeholder가 섞여 있거나 Placeholder 안에 다시 Placeholder가 있음
+ * - 처리: 각 Placeholder를 개별 치환
+ * - 예시: where=PROC=!@r{NAME}, url=/v{TEXT}.com, where=e{PROC=!@r{NAME}}
+ *
+ * @param parts 값 노드 배열
+ * @returns ProcessingMode.PARAMETER 또는 ProcessingMode.SUBSTITUTION
+ */
+export const detectProcessingMode = (parts: ValueNode[]): ProcessingMode => {
+  const placeholder = getValuePlaceholder(parts);
+  if (!placeholder) return ProcessingMode.SUBSTITUTION;
+
+  if (!placeholder.children.some(child => child.kind === 'Placeholder')) {
+    return ProcessingMode.PARAMETER;
+  }
+  return !placeholder.flags.literal && placeholder.defaultValue !== null
+    ? ProcessingMode.PARAMETER
+    : ProcessingMode.SUBSTITUTION;
+};
+
+/**
+ * 괄호 패턴에서 플래그와 값을 추출하는 함수
+ *
+ * 값 전체가 [플래그]{내용} 하나일 때만 추출하고, 아니면 플래그 없는 일반 값으로 처리
+ * 리터럴은 내용을 그대로 사용해야 하므로 타입 선언/기본값을 분리하지 않음
+ *
+ * @param input 입력 문자열 (예: 'e{A_TYPE_1}', 'v{LITERAL}', 'e{B:ORDER_NO}')
+ * @returns 파싱된 결과 객체
+ */
+export const extractValueWithBrackets = (input: string): {
+  value: string;
+  flags: ParameterFlags;
+  extractedValue: string | null;
+  declaredType: ParameterType | null;
+  defaultValue: string | null;
+} => {
+  const placeholder = getValuePlaceholder(parseValueParts(input));
+
+  if (!placeholder) {
+    return {
+      value: input,
+      flags: { encrypted: false, required: false, literal: false },
+      extractedValue: null,
+      declaredType: null,
+      defaultValue: null
+    };
+  }
+
+  return {
+    value: input,
+    flags: placeholder.flags,
+    extractedValue: placeholder.name,
+    declaredType: placeholder.declaredType,
+    defaultValue: placeholder.defaultValue
+  };
+};
+
+/**
+ * Text 노드의 일부를 잘라낸 Text 노드
+ */
+const sliceTextNode = (node: TextNode, from: number, to: number): TextNode => ({
+  kind: 'Text',
+  value: node.value.substring(from, to),
+  start: node.start + from,
+  end: node.start + to
+});
+
+/**
+ * 값 노드들을 선택 그룹([ ... ])과 그 밖의 부분으로 나누는 함수
+ *
+ * 선택 그룹으로 인식하는 조건:
+ * - Placeholder 바깥(Text 노드)의 [ 와 그 뒤 처음 나오는 Placeholder 바깥의 ] (그룹 안의 그룹은 지원하지 않음)
+ * - 안에 Placeholder가 있어야 함 → a=[1,2]처럼 Placeholder가 없는 대괄호는 일반 문자
+ * - 이스케이프된 \[ \]는 일반 문자
+ *
+ * @param parts 세그먼트 또는 쿼리 값의 노드 배열
+ * @returns 작성 순서대로의 부분들 (그룹의 [ ]는 제외, 선택 그룹이 없으면 전체 하나)
+ */
+export const splitOptionalGroupParts = (parts: ValueNode[]): Array<{ parts: ValueNode[]; optional: boolean }> => {
+  const groups: Array<{ parts: ValueNode[]; optional: boolean }> = [];
+  let outside: ValueNode[] = [];
+  // 열린 그룹의 [ 노드와 내용 (닫히지 않거나 Placeholder가 없으면 일반 문자로 되돌림)
+  let open: { bracket: TextNode; parts: ValueNode[] } | null = null;
+
+  const push = (node: ValueNode) => {
+    if (node.kind === 'Text' && node.value === '') return;
+    (open ? open.parts : outside).push(node);
+  };
+
+  parts.forEach(node => {
+    if (node.kind === 'Placeholder') {
+      push(node);
+      return;
+    }
+
+    const masked = maskEscapes(node.value);
+    let last = 0;
+    for (let i = 0; i < masked.length; i++) {
+      if (masked[i] === '[' && !open) {
+        push(sliceTextNode(node, last, i));
+        open = { bracket: sliceTextNode(node, i, i + 1), parts: [] };
+        last = i + 1;
+      } else if (masked[i] === ']' && open) {
+        push(sliceTextNode(node, last, i));
+        const group: { bracket: TextNode; parts: ValueNode[] } = open;
+        open = null;
+        if (group.parts.some(part => part.kind === 'Placeholder')) {
+          if (outside.length > 0) groups.push({ parts: outside, optional: false });
+          groups.push({ parts: group.parts, optional: true });
+          outside = [];
+        } else {
+          outside.push(group.bracket, ...group.parts, sliceTextNode(node, i, i + 1));
+        }
+        last = i + 1;
+      }
+    }
+    push(sliceTextNode(node, last, node.value.length));
+  });
+
+  const unclosed = open as { bracket: TextNode; parts: ValueNode[] } | null;
+  if (unclosed) {
+    outside.push(unclosed.bracket, ...unclosed.parts);
+  }
+  if (outside.length > 0 || groups.length === 0) {
+    groups.push({ parts: outside, optional: false });
+  }
+  return groups;
+};
+
+/**
+ * 값을 선택 그룹([ ... ])과 그 밖의 부분으로 나누는 함수 (문자열 버전)
+ *
+ * @example
+ * splitOptionalGroups('ID=1[!@NAME={NAME}]')
+ * // [{ text: 'ID=1', optional: false }, { text: '!@NAME={NAME}', optional: true }]
+ *
+ * @param content 세그먼트 또는 쿼리 값 (이스케이프 포함)
+ * @returns 작성 순서대로의 부분들 (그룹의 [ ]는 제외, 선택 그룹이 없으면 전체 하나)
+ */
+export const splitOptionalGroups = (content: string): Array<{ text: string; optional: boolean }> => {
+  return splitOptionalGroupParts(parseValueParts(content)).map(({ parts, optional }) => ({
+    text: parts.length > 0 ? content.substring(parts[0].start, parts[parts.length - 1].end) : '',
+    optional
+  }));
+};
+
+/**
+ * 노드 트리의 모든 위치(start/end)를 원본 위치로 바꾸는 함수
+ *
+ * 디코딩된 문자열을 파싱하면 위치가 디코딩 결과 기준이 되므로,
+ * decodeTemplateText가 기록한 문자별 원본 위치로 되돌려 span이 항상 원본 입력을 가리키게 함
+ * (keySpan, contentSpan 등 중첩된 위치 객체도 함께 변환)
+ *
+ * @param value 변환할 노드 (또는 노드 배열)
+ * @param toSource 디코딩 기준 위치 → 원본 위치
+ */
+const remapSpans = <T>(value: T, toSource: (index: number) => number): T => {
+  if (Array.isArray(value)) {
+    return value.map(item => remapSpans(item, toSource)) as T;
+  }
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, child]) => {
+    result[key] = (key === 'start' || key === 'end') && typeof child === 'number'
+      ? toSource(child)
+      : remapSpans(child, toSource);
+  });
+  return result as T;
+};
+
+/**
+ * 구성요소(세그먼트, 쿼리 key/value) 하나를 디코딩하는 함수
+ *
+ * 로직 설명:
+ * - 플레이스홀더가 없으면 전체를 디코딩 (값으로 쓰이므로 name=a+b → a b)
+ * - 플레이스홀더가 있으면 중괄호 안 내용만 디코딩하고 바깥 문자열은 원본 표기 유지
+ *   (치환 모드의 바깥 문자열은 렌더링시 그대로 출력되므로 인코딩된 상태여야 URL이 깨지지 않음)
+ *
+ * @param text 구성요소 원본
+ * @param plusAsSpace +를 공백으로 디코딩할지 (쿼리만)
+ * @returns 디코딩된 템플릿과 문자별 원본 위치
+ */
+const decodeComponent = (text: string, plusAsSpace: boolean): DecodedText => {
+  const braces = decodeTemplateText(text, false, true);
+  const parts = parseValueParts(braces.text);
+  if (!parts.some(part => part.kind === 'Placeholder')) {
+    return decodeTemplateText(text, plusAsSpace);
+  }
+
+  let result = '';
+  const offsets: number[] = [];
+  // braces 기준 위치 base에서 시작하는 조각을 이어 붙임 (원본 위치는 braces.offsets로 환산)
+  const append = (piece: string, base: number, decoded?: DecodedText) => {
+    const { text: pieceText, offsets: pieceOffsets } = decoded ?? {
+      text: piece,
+      offsets: Array.from({ length: piece.length }, (_, index) => index)
+    };
+    result += pieceText;
+    for (let k = 0; k < pieceText.length; k++) {
+      offsets.push(braces.offsets[base + pieceOffsets[k]]);
+    }
+  };
+
+  parts.forEach(part => {
+    if (part.kind === 'Text') {
+      append(part.value, part.start);
+      return;
+    }
+    append(braces.text.substring(part.start, part.contentSpan.start), part.start);
+    append(part.content, part.contentSpan.start, decodeTemplateText(part.content, plusAsSpace));
+    append('}', part.contentSpan.end);
+  });
+
+  offsets.push(text.length);
+  return { text: result, offsets };
+};
+
+/**
+ * 디코딩으로 표기가 바뀐 세그먼트/쿼리 쌍에 원본 표기를 기록하는 함수
+ *
+ * @param node 위치가 원본 기준으로 변환된 노드
+ * @param source 원본 문자열
+ * @param offset source가 원본 입력에서 시작하는 위치
+ */
+const recordEncodedForms = (node: TemplateNode, source: string, offset: number) => {
+  const slice = (span: { start: number; end: number }) => source.substring(span.start - offset, span.end - offset);
+
+  walkTemplate(node, child => {
+    if (child.kind === 'Segment') {
+      delete child.encoded;
+      if (slice(child) !== child.raw) child.encoded = slice(child);
+    } else if (child.kind === 'Pair') {
+      delete child.encodedKey;
+      delete child.encodedValue;
+      if (slice(child.keySpan) !== child.key) child.encodedKey = slice(child.keySpan);
+      if (child.valueSpan && slice(child.valueSpan) !== child.value) child.encodedValue = slice(child.valueSpan);
+    }
+  });
+};
+
+const createHostComponent = (raw: string, offset: number): HostComponent => ({
+  raw,
+  parts: parseValueParts(raw, offset),
+  start: offset,
+  end: offset + raw.length
+});
+
+/**
+ * 호스트명을 중괄호 바깥의 . 기준으로 나눈 라벨 노드들
+ *
+ * 경로 세그먼트와 달리 단순 split을 쓰지 않는 이유:
+ * - v{api.v2}-svc처럼 중괄호 안의 .은 라벨 구분자가 아님
+ * - 빈 라벨(끝의 . 등)도 보존해야 join('.')으로 원본이 복원됨
+ *
+ * @param hostname 호스트명 (userinfo, port 제외)
+ * @param offset 원본 입력에서의 시작 위치
+ */
+const parseHostLabels = (hostname: string, offset: number): SegmentNode[] => {
+  const masked = maskEscapes(hostname);
+  const labels: SegmentNode[] = [];
+  let depth = 0;
+  let start = 0;
+
+  const pushLabel = (end: number) => {
+    const raw = hostname.substring(start, end);
+    labels.push({
+      kind: 'Segment',
+      raw,
+      parts: parseValueParts(raw, offset + start),
+      start: offset + start,
+      end: offset + end
+    });
+    start = end + 1; // 구분자 . 만큼 이동
+  };
+
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === '{') {
+      depth++;
+    } else if (masked[i] === '}') {
+      depth = Math.max(0, depth - 1);
+    } else if (masked[i] === '.' && depth === 0) {
+      pushLabel(i);
+    }
+  }
+  pushLabel(hostname.length);
+
+  return labels;
+};
+
+/**
+ * 호스트 문자열을 Host 노드로 파싱
+ *
+ * userinfo/hostname/port는 splitHostComponents 규칙으로 나누며,
+ * 원본 순서(userinfo@hostname:port)대로 잘라낸 것이라 길이로 위치를 복원
+ *
+ * @param host 호스트 부분 (예: 'user@api.example.com:8080')
+ * @param offset 원본 입력에서의 시작 위치
+ */
+export const parseHostNode = (host: string, offset: number = 0): HostNode => {
+  const { userinfo, hostname, port } = splitHostComponents(host);
+  const hostnameStart = userinfo === null ? offset : offset + userinfo.length + 1;
+  const portStart = hostnameStart + hostname.length + 1;
+
+  return {
+    kind: 'Host',
+    raw: host,
+    parts: parseValueParts(host, offset),
+    userinfo: userinfo === null ? null : createHostComponent(userinfo, offset),
+    hostname: createHostComponent(hostname, hostnameStart),
+    // IPv6 리터럴은 . 라벨 구조가 아니므로 통째로 하나의 라벨
+    labels: hostname.startsWith('[')
+      ? [{
+        kind: 'Segment',
+        raw: hostname,
+        parts: parseValueParts(hostname, hostnameStart),
+        start: hostnameStart,
+        end: hostnameStart + hostname.length
+      }]
+      : parseHostLabels(hostname, hostnameStart),
+    port: port === null ? null : createHostComponent(port, portStart),
+    start: offset,
+    end: offset + host.length
+  };
+};
+
+/**
+ * 세그먼트 하나를 Segment 노드로 파싱 (decodePercent면 디코딩 후 파싱하고 위치는 원본 기준으로 복원)
+ */
+const parseSegmentNode = (raw: string, start: number, options: TemplateParseOptions): SegmentNode => {
+  if (!options.decodePercent) {
+    return { kind: 'Segment', raw, parts: parseValueParts(raw, start), start, end: start + raw.length };
+  }
+
+  // 경로의 +는 공백이 아님 (form 인코딩은 쿼리에만 해당)
+  const decoded = decodeComponent(raw, false);
+  const node = remapSpans(parseSegmentNode(decoded.text, 0, {}), index => start + decoded.offsets[index]);
+  if (decoded.text !== raw) node.encoded = raw;
+  return node;
+};
+
+/**
+ * 경로 문자열을 Path 노드로 파싱
+ *
+ * 빈 세그먼트(//, 앞뒤 /)도 노드로 보존하여 원본 위치를 잃지 않음
+ * (ParsedSegment로 변환할 때 빈 세그먼트를 제외하는 것은 urlParser의 몫)
+ *
+ * decodePercent면 / 로 나눈 뒤 세그먼트마다 디코딩 (%2F는 구분자가 아닌 값)
+ *
+ * @param path 경로 부분 (/ 포함)
+ * @param offset 원본 입력에서의 시작 위치
+ * @param options 파싱 옵션 (퍼센트 디코딩)
+ */
+export const parsePathNode = (path: string, offset: number = 0, options: TemplateParseOptions = {}): PathNode => {
+  const segments: SegmentNode[] = [];
+  let start = 0;
+
+  path.split('/').forEach(raw => {
+    segments.push(parseSegmentNode(raw, offset + start, options));
+    start += raw.length + 1; // 구분자 / 만큼 이동
+  });
+
+  return {
+    kind: 'Path',
+    raw: path,
+    segments,
+    start: offset,
+    end: offset + path.length
+  };
+};
+
+/**
+ * 쿼리 내용을 중괄호 깊이를 고려하여 & 로 분할하고 각 조각의 위치를 함께 반환
+ *
+ * 일반적인 split('&')의 문제점:
+ * - "name={A_TYPE_1}&where=PROC=!@&r{NAME}" 같은 경우
+ * - 중괄호 안의 &를 구분자로 잘못 인식할 수 있음
+ *
+ * 해결 방법:
+ * - 중괄호 깊이를 추적하여 깊이가 0일 때만 &를 구분자로 인식
+ * - 이스케이프된 \& \{ \}는 구분자/중괄호로 보지 않음
+ * - 공백만 있는 조각은 제외
+ *
+ * 예시:
+ * 입력: "name={A&B}&value=test"
+ * 일반 split: ["name={A", "B}", "value=test"] ❌
+ * 스마트 split: ["name={A&B}", "value=test"] ✅
+ *
+ * @param content 분할할 쿼리 내용
+ * @param offset 원본 입력에서의 시작 위치
+ * @returns 분할된 조각과 위치
+ */
+export const smartSplitQuery = (
+  content: string,
+  offset: number = 0
+): Array<{ raw: string; start: number; end: number }> => {
+  const pieces: Array<{ raw: string; start: number; end: number }> = [];
+  const masked = maskEscapes(content);
+  let depth = 0;
+  let pieceStart = 0;
+
+  const pushPiece = (end: number) => {
+    const raw = content.substring(pieceStart, end);
+    if (raw.trim()) {
+      pieces.push({ raw, start: offset + pieceStart, end: offset + end });
+    }
+  };
+
+  for (let i = 0; i < masked.length; i++) {
+    const char = masked[i];
+
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+    } else if (char === '&' && depth === 0) {
+      pushPiece(i);
+      pieceStart = i + 1;
+    }
+  }
+
+  pushPiece(content.length);
+  return pieces;
+};
+
+/**
+ * key와 value를 나누는 = 의 위치를 찾는 함수
+ *
+ * key에도 플레이스홀더가 올 수 있으므로 ({A_TYPE_1|a=b}=x) 중괄호 바깥의 첫 번째 = 를 사용
+ * 중괄호 바깥에 = 가 없으면 기존처럼 첫 번째 = 를 사용 ({a=b} 같은 조각의 기존 결과 유지)
+ *
+ * @returns = 의 위치 (없으면 -1)
+ */
+const findKeyValueSeparator = (raw: string): number => {
+  const masked = maskEscapes(raw);
+  let depth = 0;
+
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === '{') {
+      depth++;
+    } else if (masked[i] === '}') {
+      depth = Math.max(0, depth - 1);
+    } else if (masked[i] === '=' && depth === 0) {
+      return i;
+    }
+  }
+
+  return masked.indexOf('=');
+};
+
+/**
+ * key=value 조각 하나를 Pair 노드로 파싱
+ *
+ * 값이 e{a=1&b=2}처럼 파라미터 모드이면서 내용에 = 가 있으면 (리터럴 제외)
+ * 내용을 다시 쿼리로 파싱하여 nested에 저장
+ * 이스케이프된 \= 는 key/value 구분자로 보지 않음
+ *
+ * decodePercent면 key와 value를 각각 디코딩하여 다시 이어 붙인 뒤 파싱
+ * (디코딩된 & = 는 이스케이프되므로 구분자 위치가 바뀌지 않음)
+ */
+const parsePairNode = (raw: string, start: number, options: TemplateParseOptions = {}): PairNode => {
+  const equalIndex = findKeyValueSeparator(raw);
+  const key = equalIndex === -1 ? raw : raw.substring(0, equalIndex);
+  const value = equalIndex === -1 ? null : raw.substring(equalIndex + 1);
+
+  if (options.decodePercent) {
+    const plusAsSpace = !!options.plusAsSpace;
+    const decodedKey = decodeComponent(key, plusAsSpace);
+    const decodedValue = value === null ? null : decodeComponent(value, plusAsSpace);
+    const decodedRaw = decodedValue === null ? decodedKey.text : `${decodedKey.text}=${decodedValue.text}`;
+    const offsets = decodedValue === null
+      ? decodedKey.offsets
+      : [
+        ...decodedKey.offsets.slice(0, -1),
+        equalIndex,
+        ...decodedValue.offsets.map(index => equalIndex + 1 + index)
+      ];
+
+    const node = remapSpans(parsePairNode(decodedRaw, 0), index => start + offsets[index]);
+    if (decodedKey.text !== key) node.encodedKey = key;
+    if (decodedValue && value !== null && decodedValue.text !== value) node.encodedValue = value;
+    return node;
+  }
+  const valueStart = start + equalIndex + 1;
+  const valueParts = value === null ? [] : parseValueParts(value, valueStart);
+
+  let nested: PairNode[] = [];
+  const [single] = valueParts;
+  if (
+    value &&
+    valueParts.length === 1 &&
+    single.kind === 'Placeholder' &&
+    !single.flags.literal &&
+    single.defaultValue === null &&
+    maskEscapes(single.content).includes('=') &&
+    detectProcessingMode(valueParts) === ProcessingMode.PARAMETER
+  ) {
+    nested = parsePairNodes(single.content, single.contentSpan.start);
+  }
+
+  return {
+    kind: 'Pair',
+    raw,
+    key,
+    keySpan: { start, end: start + key.length },
+    keyParts: parseValueParts(key, start),
+    value,
+    valueSpan: value === null ? null : { start: valueStart, end: valueStart + value.length },
+    valueParts,
+    nested,
+    start,
+    end: start + raw.length
+  };
+};
+
+/**
+ * 쿼리 내용을 Pair 노드 배열로 파싱
+ */
+const parsePairNodes = (content: string, offset: number, options: TemplateParseOptions = {}): PairNode[] => {
+  return smartSplitQuery(content, offset).map(piece => parsePairNode(piece.raw, piece.start, options));
+};
+
+/**
+ * 쿼리스트링(? 제외)을 Query 또는 GlobalGroup 노드로 파싱
+ *
+ * ?e{...}처럼 쿼리 전체가 플래그 그룹이면 GlobalGroup, 아니면 일반 Query
+ * (전역 그룹 판단은 parseNestedStructure와 같은 규칙)
+ *
+ * decodePercent면 %7B, %7D를 먼저 중괄호로 되돌린 뒤 분할하여
+ * ?e%7B...%7D 전역 그룹과 중괄호 안의 &도 인식하고, 쌍마다 나머지를 디코딩
+ *
+ * @param query 쿼리스트링 (? 제외)
+ * @param offset 원본 입력에서의 시작 위치
+ * @param options 파싱 옵션 (퍼센트 디코딩, +를 공백으로)
+ */
+export const parseQueryNode = (
+  query: string,
+  offset: number = 0,
+  options: TemplateParseOptions = {}
+): QueryNode | GlobalGroupNode => {
+  if (options.decodePercent) {
+    const braces = decodeTemplateText(query, false, true);
+    if (braces.text !== query) {
+      const node = remapSpans(parseQueryNode(braces.text, 0, options), index => offset + braces.offsets[index]);
+      recordEncodedForms(node, query, offset);
+      return node;
+    }
+  }
+
+  const { globalFlags, content } = parseNestedStructure(query);
+
+  if (hasAnyFlag(globalFlags)) {
+    const flagString = query.substring(0, query.indexOf('{'));
+    const contentStart = offset + flagString.length + 1;
+
+    return {
+      kind: 'GlobalGroup',
+      raw: query,
+      flagString,
+      flags: globalFlags,
+      contentSpan: { start: contentStart, end: contentStart + content.length },
+      pairs: parsePairNodes(content, contentStart, options),
+      start: offset,
+      end: offset + query.length
+    };
+  }
+
+  return {
+    kind: 'Query',
+    raw: query,
+    pairs: parsePairNodes(query, offset, options),
+    start: offset,
+    end: offset + query.length
+  };
+};
+
+/**
+ * # 이후 fragment를 Fragment 노드로 파싱
+ *
+ * 첫 번째 ? 를 기준으로 경로와 쿼리를 나눔 (#/orders?id={A_TYPE_1} 같은 SPA 라우트)
+ * ? 가 없으면 전체가 경로 (#section-{A_TYPE_1})
+ *
+ * @param fragment # 이후 문자열
+ * @param offset 원본 입력에서의 시작 위치
+ * @param options 파싱 옵션 (경로/쿼리와 같은 규칙으로 디코딩)
+ */
+export const parseFragmentNode = (
+  fragment: string,
+  offset: number = 0,
+  options: TemplateParseOptions = {}
+): FragmentNode => {
+  const queryIndex = fragment.indexOf('?');
+  const path = queryIndex === -1 ? fragment : fragment.substring(0, queryIndex);
+
+  return {
+    kind: 'Fragment',
+    raw: fragment,
+    path: path ? parsePathNode(path, offset, options) : null,
+    query: queryIndex === -1
+      ? null
+      : parseQueryNode(fragment.substring(queryIndex + 1), offset + queryIndex + 1, options),
+    start: offset,
+    end: offset + fragment.length
+  };
+};
+
+/**
+ * URL 템플릿 전체를 AST로 파싱하는 진입점 함수
+ *
+ * AST가 필요한 이유:
+ * - 기존 ParsedSegment/ParsedQuery는 평탄한 구조라 중첩 관계와 원본 위치를 알 수 없음
+ * - 검증/린트/출력 도구가 "입력의 어느 위치"인지 정확히 가리킬 수 있어야 함
+ * - urlParser/queryParser도 이 노드들을 기반으로 세그먼트와 쿼리를 만듦
+ *
+ * 구조:
+ * Url → Host / Path / Query | GlobalGroup / Fragment (→ Path / Query | GlobalGroup)
+ *     → Segment / Pair
+ *     → Text / Placeholder (children으로 중첩)
+ *
+ * 모든 노드는 원본 입력 기준 start(포함)/end(제외) 위치를 가짐
+ *
+ * 퍼센트 디코딩 (options.decodePercent):
+ * - %7B, %7D를 먼저 중괄호로 되돌려 구성요소를 나누고, 세그먼트/쿼리 쌍마다 나머지를 디코딩
+ * - 디코딩된 노드는 raw에 디코딩된 템플릿을, encoded/encodedKey/encodedValue에 원본 표기를 가짐
+ * - 위치는 디코딩 후에도 원본 입력 기준 (source는 원본 입력)
+ * - 호스트는 중괄호만 되돌리고 디코딩하지 않음
+ *
+ * @example
+ * parseTemplate('https://api.com/users/e{A_TYPE_1}?name={B_TYPE_2}')
+ * // path.segments[2].parts[0] → Placeholder { flagString: 'e', name: 'A_TYPE_1', start: 22, end: 33 }
+ *
+ * parseTemplate('https://api.com/users/%7BA_TYPE_1%7D?q=a+b', { decodePercent: true, plusAsSpace: true })
+ * // path.segments[2] → { raw: '{A_TYPE_1}', encoded: '%7BA_TYPE_1%7D', start: 22, end: 38 }
+ * // query.pairs[0] → { value: 'a b', encodedValue: 'a+b' }
+ *
+ * @param input URL 템플릿 문자열
+ * @param options 파싱 옵션 (퍼센트 디코딩)
+ * @returns Url 노드
+ */
+export const parseTemplate = (input: string, options: TemplateParseOptions = {}): UrlNode => {
+  if (options.decodePercent) {
+    const braces = decodeTemplateText(input, false, true);
+    if (braces.text !== input) {
+      const node = remapSpans(parseTemplate(braces.text, options), index => braces.offsets[index]);
+      recordEncodedForms(node, input, 0);
+      return { ...node, source: input };
+    }
+  }
+
+  const { protocol, host, path, query, fragment } = parseUrlComponents(input);
+
+  // parseUrlComponents는 원본 순서대로 잘라내므로 길이로 위치를 복원할 수 있음
+  const hostStart = protocol ? protocol.length + 3 : 0;
+  const pathStart = hostStart + host.length;
+  const queryMarker = pathStart + path.length;
+  const hasQuery = input[queryMarker] === '?';
+  const fragmentMarker = hasQuery ? queryMarker + 1 + query.length : queryMarker;
+  const hasFragment = input[fragmentMarker] === '#';
+
+  return {
+    kind: 'Url',
+    source: input,
+    protocol,
+    host: protocol ? parseHostNode(host, hostStart) : null,
+    path: path ? parsePathNode(path, pathStart, options) : null,
+    query: hasQuery ? parseQueryNode(query, queryMarker + 1, options) : null,
+    fragment: hasFragment ? parseFragmentNode(fragment, fragmentMarker + 1, options) : null,
+    start: 0,
+    end: input.length
+  };
+};
+
+/**
+ * AST를 깊이 우선으로 순회하는 함수
+ *
+ * @param node 시작 노드
+ * @param visit 각 노드마다 호출되는 콜백 (parent 포함)
+ */
+export const walkTemplate = (
+  node: TemplateNode,
+  visit: (node: TemplateNode, parent: TemplateNode | null) => void,
+  parent: TemplateNode | null = null
+): void => {
+  visit(node, parent);
+
+  const children: TemplateNode[] = (() => {
+    switch (node.kind) {
+      case 'Url':
+        return [node.host, node.path, node.query, node.fragment].filter((child): child is NonNullable<typeof child> => !!child);
+      case 'Fragment':
+        return [node.path, node.query].filter((child): child is NonNullable<typeof child> => !!child);
+      case 'Host':
+      case 'Segment':
+        return node.parts;
+      case 'Path':
+        return node.segments;
+      case 'Query':
+      case 'GlobalGroup':
+        return node.pairs;
+      case 'Pair':
+        return [...node.keyParts, ...node.valueParts, ...node.nested];
+      case 'Placeholder':
+        return node.children;
+      case 'Text':
+        return [];
+    }
+  })();
+
+  children.forEach(child => walkTemplate(child, visit, node));
+};
@@ -1,10 +1,11 @@
 import { ParsedSegment, ParameterType, ProcessingMode } from '../types/parser.types';
+import { PathNode, SegmentNode, TemplateParseOptions } from '../types/ast.types';
 import { 
-  extractValueWithBrackets, 
   determineParameterType, 
   getFinalValue,
-  detectProcessingMode
+  unescapeTemplate
 } from '../utils/parser.utils';
+import { parsePathNode, detectProcessingMode, getValuePlaceholder } from './templateParser';
 
 /**
  * URL 경로를 세그먼트별로 파싱하는 함수
@@ -15,7 +16,7 @@ import {
  * - 각 세그먼트는 독립적으로 파싱됨
  * 
  * 지원하는 패턴:
- * 1. 파라미터 모드: /e{A_TYPE_1}/v{LITERAL}
+ * 1. 파라미터 모드: /e{A_TYPE_1}/v{LITERAL}/{B:ORDER_NO}
  * 2. 치환 모드: /v{TEXT}.com, /prefix_r{NAME}_suffix
  * 
  * 파라미터 vs 치환 모드 구분:
@@ -27,56 +28,107 @@ import {
  * /v{TEXT}.com → 치환 모드 → TEXT.com
  * 
  * @param path URL 경로 부분 (/ 포함)
+ * @param offset 원본 템플릿에서 경로가 시작하는 위치 (span 계산용, 기본값 0)
+ * @param options 파싱 옵션 (decodePercent: /users/%7BA_TYPE_1%7D 같은 인코딩된 경로 디코딩,
+ *                lossless: 빈 세그먼트와 끝의 / 보존)
  * @returns 파싱된 세그먼트 객체들의 배열
  */
-export const parseUrlSegments = (path: string): ParsedSegment[] => {
+export const parseUrlSegments = (
+  path: string,
+  offset: number = 0,
+  options: TemplateParseOptions = {}
+): ParsedSegment[] => {
   if (!path) return [];
   
-  // /로 분할하여 빈 세그먼트 제거
-  const segments = path.split('/').filter(segment => segment !== '');
+  return toParsedSegments(parsePathNode(path, offset, options), options);
+};
+
+/**
+ * Path 노드를 ParsedSegment 배열로 변환하는 함수
+ * 
+ * AST에는 빈 세그먼트도 보존되어 있지만, 변환/재구성 대상에서는 제외
+ * 
+ * lossless 모드에서는 맨 앞 / 앞의 빈 조각만 제외하고 나머지 빈 세그먼트를 보존
+ * (/list/ → ['list', ''], //a → ['', 'a'] → 세그먼트를 / 로 이어 붙이면 원본 경로가 됨)
+ * 
+ * @param node parsePathNode/parseTemplate 결과의 경로 노드
+ * @param options lossless면 빈 세그먼트 보존
+ * @returns 파싱된 세그먼트 객체들의 배열
+ */
+export const toParsedSegments = (node: PathNode, options: TemplateParseOptions = {}): ParsedSegment[] => {
+  // 빈 세그먼트 제거 (lossless면 / 앞의 빈 조각만 제거)
+  const segments = options.lossless
+    ? node.segments.slice(node.raw.startsWith('/') ? 1 : 0)
+    : node.segments.filter(segmentNode => segmentNode.raw !== '');
   
-  return segments.map(segment => {
-    // 각 세그먼트의 처리 모드 감지 (핵심!)
-    const processingMode = detectProcessingMode(segment);
+  return segments.map(toParsedSegment);
+};
+
+/**
+ * Segment 노드 하나를 ParsedSegment로 변환하는 함수
+ * 
+ * 경로 세그먼트뿐 아니라 호스트 라벨(hostParser)도 같은 규칙으로 변환하기 위해 분리
+ * 
+ * @param segmentNode 세그먼트(또는 호스트 라벨) 노드
+ * @returns 파싱된 세그먼트 객체
+ */
+export const toParsedSegment = (segmentNode: SegmentNode): ParsedSegment => {
+  const segment = segmentNode.raw;
+  const span = { start: segmentNode.start, end: segmentNode.end };
+  // 디코딩된 정적 세그먼트는 원본 표기로 다시 출력 (a%20b → 값 'a b', 출력 a%20b)
+  const sourceValue = segmentNode.encoded !== undefined && segmentNode.parts.every(part => part.kind === 'Text')
+    ? { sourceValue: segmentNode.encoded }
+    : {};
+  // 각 세그먼트의 처리 모드 감지 (핵심!)
+  const processingMode = detectProcessingMode(segmentNode.parts);
+  // 세그먼트 전체를 감싼 [플래그]{내용} (치환 모드에서는 e{PROC=!@r{NAME}}처럼 안쪽을 치환한 뒤 플래그 적용)
+  const placeholder = getValuePlaceholder(segmentNode.parts);
+  
+  if (processingMode === ProcessingMode.SUBSTITUTION || !placeholder) {
+    // 치환 모드 처리: v{TEXT}.com → TEXT.com
+    // 실제 치환은 transformService에서 parts를 순서대로 처리
+    return {
+      segment,
+      originalValue: segment,
+      flags: placeholder ? placeholder.flags : { encrypted: false, required: false, literal: false },
+      type: ParameterType.UNKNOWN, // 치환 모드에서는 타입이 정해지지 않음
+      extractedValue: placeholder ? placeholder.content : segment, // 치환할 문자열 (값 전체 플래그 제외)
+      convertedValue: null, // 나중에 치환 결과로 설정
+      encryptedValue: null, // 나중에 암호화 처리
+      finalValue: segment, // 초기값, transformService에서 실제 치환 후 업데이트
+      processingMode: ProcessingMode.SUBSTITUTION,
+      span,
+      parts: placeholder ? placeholder.children : segmentNode.parts,
+      ...sourceValue
+    };
+  } else {
+    // 파라미터 모드 처리: e{A_TYPE_1} → A_TYPE_1_VALUE (암호화)
+    const { flags, declaredType, defaultValue } = placeholder;
+    // 파라미터 모드의 값은 더 이상 치환되지 않으므로 이스케이프를 여기서 제거 (v{a\}b} → a}b)
+    const extractedValue = unescapeTemplate(placeholder.name);
+    
+    // 추출된 값의 타입 결정 ({TYPE:NAME} 선언이 있으면 선언된 타입)
+    const type = determineParameterType(
+      extractedValue || segment,
+      flags,
+      declaredType
+    );
     
-    if (processingMode === ProcessingMode.SUBSTITUTION) {
-      // 치환 모드 처리: v{TEXT}.com → TEXT.com
-      // extractValueWithBrackets는 전체 패턴 분석을 위해 호출
-      // 하지만 실제 치환은 processSubstitution에서 수행
-      const { flags } = extractValueWithBrackets(segment);
-      
-      return {
-        segment,
-        originalValue: segment,
-        flags, // 전체 세그먼트에서 감지된 플래그 (보통 빈 값)
-        type: ParameterType.UNKNOWN, // 치환 모드에서는 타입이 정해지지 않음
-        extractedValue: segment, // 전체 문자열을 추출값으로 설정
-        convertedValue: null, // 나중에 processSubstitution에서 설정
-        encryptedValue: null, // 나중에 암호화 처리
-        finalValue: segment, // 초기값, transformService에서 실제 치환 후 업데이트
-        processingMode: ProcessingMode.SUBSTITUTION
-      };
-    } else {
-      // 파라미터 모드 처리: e{A_TYPE_1} → A_TYPE_1_VALUE (암호화)
-      const { flags, extractedValue } = extractValueWithBrackets(segment);
-      
-      // 추출된 값의 타입 결정
-      const type = determineParameterType(
-        extractedValue || segment,
-        flags
-      );
-      
-      return {
-        segment,
-        originalValue: segment,
-        flags,
-        type,
-        extractedValue, // 중괄호 안의 값
-        convertedValue: null, // 나중에 변환 API 호출 결과
-        encryptedValue: null, // 나중에 암호화 처리
-        finalValue: getFinalValue(segment, extractedValue, null, null, flags, type, ProcessingMode.PARAMETER),
-        processingMode: ProcessingMode.PARAMETER
-      };
-    }
-  });
+    return {
+      segment,
+      originalValue: segment,
+      flags,
+      type,
+      declaredType,
+      defaultValue,
+      extractedValue, // 중괄호 안의 값
+      convertedValue: null, // 나중에 변환 API 호출 결과
+      encryptedValue: null, // 나중에 암호화 처리
+      finalValue: getFinalValue(segment, extractedValue, null, null, flags, type, ProcessingMode.PARAMETER),
+      processingMode: ProcessingMode.PARAMETER,
+      span,
+      parts: [placeholder],
+      ...sourceValue
+    };
+  }
 };
\ No newline at end of file
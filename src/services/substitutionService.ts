@@ -0,0 +1,394 @@
+import {
+  ParameterType,
+  ProcessingMode,
+  TransformationTrace,
+  TypeConverter,
+  Encryptor,
+  FailurePolicy,
+  FailureCode
+} from '../types/parser.types';
+import { PlaceholderNode, ValueNode } from '../types/ast.types';
+import {
+  detectParameterType,
+  getFinalValue,
+  runValuePipeline,
+  isValidValue,
+  resolveFailurePolicy,
+  describeConversionFailure,
+  describeTransformFailure,
+  getConversionFailureCode,
+  getTransformFailureCode,
+  NO_ENCRYPTOR_REASON,
+  unescapeTemplate
+} from '../utils/parser.utils';
+import { isConvertibleType, resolveTypeConverter } from '../utils/typeRegistry';
+import { isEncodingSkipped } from '../utils/percentEncoding';
+import { PlaceholderConversionError } from '../errors/templateErrors';
+import { splitOptionalGroupParts } from '../parsers/templateParser';
+
+/** 안쪽 플레이스홀더 변환 추적 콜백 (위치와 identifier는 호출하는 쪽에서 지정) */
+type SubstitutionTraceCallback = (trace: Omit<TransformationTrace, 'location' | 'identifier'>) => void;
+
+/**
+ * 치환에 필요한 변환 함수와 옵션
+ */
+interface SubstitutionContext {
+  typeConverter?: TypeConverter;
+  encryptor?: Encryptor;
+  onInnerTrace?: SubstitutionTraceCallback;
+  /** 삽입하는 값의 퍼센트 인코딩 함수 (없으면 인코딩하지 않음) */
+  encode?: (value: string) => string;
+  /** 변환 실패시 처리 방법 (엔진 옵션, 플래그/타입 정의가 우선) */
+  onFailure?: FailurePolicy;
+}
+
+/**
+ * Placeholder의 작성된 원본 표기 (keep 정책에서 그대로 출력)
+ */
+const toPatternText = (node: PlaceholderNode): string => `${node.flagString}{${node.content}}`;
+
+/**
+ * 플레이스홀더 값에 확장 플래그 변환과 암호화를 적용하는 함수
+ * (encryptor의 예외는 runValuePipeline에서 값 전체의 실패(failed)로 처리됨)
+ */
+const runPlaceholderPipeline = (value: string | null, node: PlaceholderNode, encryptor?: Encryptor) => {
+  return runValuePipeline(value, node.flags, async (valueToEncrypt) =>
+    node.flags.encrypted && encryptor ? encryptor(valueToEncrypt) : null
+  );
+};
+
+/**
+ * 값 노드들을 순서대로 치환하는 함수
+ *
+ * - Text: 이스케이프만 제거 (\{ → {), 인코딩시 이스케이프로 넣은 문자는 값의 일부이므로 함께 인코딩 (\& → %26)
+ * - Placeholder: 변환/암호화한 값을 삽입, 인코딩은 값이 URL에 들어가는 이 시점에 적용
+ *   (p 같은 skipEncoding 플래그가 있으면 제외)
+ *
+ * @param parts 치환할 값 노드들
+ * @param context 변환 함수와 옵션
+ * @returns 치환 완료된 문자열
+ */
+const substituteParts = async (parts: ValueNode[], context: SubstitutionContext): Promise<string> => {
+  let result = '';
+
+  // 추적 정보가 작성 순서대로 기록되도록 하나씩 처리
+  for (const part of parts) {
+    if (part.kind === 'Text') {
+      result += unescapeTemplate(part.value, context.encode);
+      continue;
+    }
+
+    const value = await substitutePlaceholder(part, context);
+    result += context.encode && !isEncodingSkipped(part.flags) ? context.encode(value) : value;
+  }
+
+  return result;
+};
+
+/**
+ * {NAME|기본값}의 기본값을 실제 값으로 만드는 함수
+ *
+ * 기본값은 작은 템플릿으로 취급하여 치환 모드와 같은 규칙으로 처리:
+ * - 일반 문자열: 이스케이프만 제거 ({A_TYPE_1|guest} → guest, {A_TYPE_1|a\|b} → a|b)
+ * - 플레이스홀더: 변환/암호화 후 삽입 ({A_TYPE_1|v{OTHER}} → OTHER, {A_TYPE_1|{B_TYPE_1}} → B 변환값)
+ * - 기본값 안의 기본값도 같은 방식 ({A_TYPE_1|{B_TYPE_1|guest}})
+ *
+ * 원래 값의 변환이 실패했고 처리 방법이 default일 때만 호출되므로, 기본값 안의 변환/추적도 그때만 일어남
+ * 기본값 안의 플레이스홀더에는 엔진의 onFailure를 적용하지 않음 (플래그/타입 정의의 onFailure만 적용)
+ * → 기본값을 만들지 못하면 원래 값은 mode와 같이 처리되도록 ({A|{B}}에서 B도 실패하면 A 자리는 처리 모드별 기존 동작)
+ * 인코딩은 하지 않음 (기본값은 원래 값을 대신하는 값이므로 원래 값과 같은 위치에서 한 번에 인코딩)
+ *
+ * @param defaultParts Placeholder의 defaultParts
+ * @param typeConverter 타입 변환 함수 (선택적)
+ * @param encryptor 암호화 함수 (선택적)
+ * @param onInnerTrace 기본값 안의 플레이스홀더 변환 추적 콜백 (선택적)
+ * @returns 기본값 (안의 플레이스홀더가 모두 실패해 빈 값이 되면 null, 직접 작성한 빈 기본값 {A|}는 '')
+ */
+export const resolveDefaultParts = async (
+  defaultParts: ValueNode[],
+  typeConverter?: TypeConverter,
+  encryptor?: Encryptor,
+  onInnerTrace?: SubstitutionTraceCallback
+): Promise<string | null> => {
+  const resolved = await substituteParts(defaultParts, { typeConverter, encryptor, onInnerTrace });
+  return resolved || defaultParts.length === 0 ? resolved : null;
+};
+
+/**
+ * 안쪽에 플레이스홀더가 있는 플레이스홀더를 처리하는 함수 (a-e{PROC=!@r{NAME}}의 e{...})
+ *
+ * 값 전체를 감싼 경우(where=e{PROC=!@r{NAME}})와 같은 규칙:
+ * - 안쪽 노드를 먼저 치환 (인코딩하지 않음 - 바깥 값의 평문이므로)
+ * - 치환 결과에 바깥 플래그(확장 플래그, 암호화)만 적용하고 타입 변환은 하지 않음
+ * - 실패 처리는 안쪽 플레이스홀더마다 따로 결정됨
+ * - 바깥 플래그의 확장 플래그 변환이나 암호화에 실패하면 치환 결과(평문) 대신 이 플레이스홀더의 실패로 처리
+ */
+const substituteNestedPlaceholder = async (
+  node: PlaceholderNode,
+  context: SubstitutionContext
+): Promise<string> => {
+  const { flags } = node;
+  const content = await substituteParts(node.children, { ...context, encode: undefined });
+  const pipeline = await runPlaceholderPipeline(content || null, node, context.encryptor);
+  const convertedValue = flags.custom?.length || pipeline.failed ? pipeline.value : content;
+  const encryptionFailed = flags.encrypted && pipeline.encryptedValue === null;
+
+  const failurePolicy = pipeline.failed ? resolveFailurePolicy(flags, ParameterType.UNKNOWN, context.onFailure) : undefined;
+  if (failurePolicy === 'throw') {
+    throw new PlaceholderConversionError(node.content, ParameterType.UNKNOWN, describeTransformFailure(flags, node.content));
+  }
+  const finalValue = failurePolicy === 'keep'
+    ? unescapeTemplate(toPatternText(node))
+    : pipeline.encryptedValue ?? convertedValue ?? '';
+
+  // 실패 사유에는 암호화하려던 치환 결과 대신 작성된 내용만 기록
+  context.onInnerTrace?.({
+    type: ParameterType.UNKNOWN,
+    typeDeclared: false,
+    defaultUsed: false,
+    ...(pipeline.failed ? { transformFailed: true } : {}),
+    ...(failurePolicy ? { failurePolicy } : {}),
+    target: node.content,
+    convertedValue,
+    encryptedValue: pipeline.encryptedValue,
+    result: finalValue,
+    flags,
+    processingMode: ProcessingMode.SUBSTITUTION,
+    transformationSuccess: !encryptionFailed && !pipeline.failed,
+    ...(pipeline.failed
+      ? { failureReason: describeTransformFailure(flags, node.content), failureCode: getTransformFailureCode(flags) }
+      : encryptionFailed ? { failureReason: NO_ENCRYPTOR_REASON, failureCode: 'no-encryptor' as const } : {})
+  });
+
+  return finalValue;
+};
+
+/**
+ * 플레이스홀더 하나를 변환하는 함수
+ *
+ * 처리 순서:
+ * 1. 타입 변환 ({TYPE:NAME}이면 선언된 타입, 아니면 이름으로 감지)
+ * 2. 실패했고 처리 방법이 default면 기본값({NAME|기본값})으로 대체
+ * 3. 확장 플래그 + 암호화
+ * 4. 실패 처리 방법 결정 (keep은 작성된 패턴, drop은 이 자리를 비워 두고 값 전체 제외는 추적 정보를 받은 쪽에서 처리)
+ *
+ * @param node 변환할 Placeholder 노드
+ * @param context 변환 함수와 옵션
+ * @returns 삽입할 값 (인코딩 전)
+ */
+const substitutePlaceholder = async (node: PlaceholderNode, context: SubstitutionContext): Promise<string> => {
+  if (node.defaultValue === null && node.children.some(child => child.kind === 'Placeholder')) {
+    return substituteNestedPlaceholder(node, context);
+  }
+
+  const { flags, declaredType } = node;
+  const { typeConverter, encryptor, onInnerTrace, onFailure } = context;
+  const extractedValue = unescapeTemplate(node.name);
+  const type = declaredType ?? detectParameterType(extractedValue);
+
+  let convertedValue: string | null = null;
+  let defaultUsed = false;
+  const converter = resolveTypeConverter(type, typeConverter);
+
+  // 타입 변환 수행 (타입 전용 converter가 등록되어 있으면 우선 사용)
+  if (!flags.literal && isConvertibleType(type) && converter) {
+    try {
+      convertedValue = await converter(extractedValue, type);
+    } catch {
+      // 변환 실패는 아래에서 기본값/실패 정책으로 처리
+    }
+  }
+
+  // 변환에 실패했고 기본값이 있으며 처리 방법이 default면 기본값으로 대체 (기본값에도 플래그/암호화가 그대로 적용됨)
+  if (!flags.literal && !convertedValue && node.defaultParts && resolveFailurePolicy(flags, type, onFailure) === 'default') {
+    const resolvedDefault = await resolveDefaultParts(node.defaultParts, typeConverter, encryptor, onInnerTrace);
+    if (resolvedDefault !== null) {
+      convertedValue = resolvedDefault;
+      defaultUsed = true;
+    }
+  }
+
+  // 확장 플래그 변환 + 암호화 수행 (실패하면 변환값/리터럴 값/기본값이 있어도 변환 실패)
+  const valueToEncrypt = convertedValue || (flags.literal ? extractedValue : null);
+  const pipeline = await runPlaceholderPipeline(valueToEncrypt, node, encryptor);
+  const transformFailed = pipeline.failed;
+  if (flags.custom?.length || transformFailed) {
+    convertedValue = pipeline.value;
+  }
+  if (transformFailed) {
+    defaultUsed = false;
+  }
+  const { encryptedValue } = pipeline;
+
+  // 변환(기본값 포함)이나 확장 플래그/암호화에 실패했으면 처리 방법 결정
+  const failurePolicy = transformFailed || (!defaultUsed && !isValidValue(type, extractedValue, convertedValue, flags))
+    ? resolveFailurePolicy(flags, type, onFailure)
+    : undefined;
+  if (failurePolicy === 'throw') {
+    throw new PlaceholderConversionError(
+      extractedValue,
+      type,
+      transformFailed
+        ? describeTransformFailure(flags, extractedValue)
+        : describeConversionFailure(type, extractedValue, !!converter)
+    );
+  }
+
+  // 최종 값 결정 (keep은 작성된 패턴을 이스케이프를 제거해 그대로, 나머지 정책은 빈 값)
+  const finalValue = failurePolicy === 'keep' ? unescapeTemplate(toPatternText(node)) : transformFailed ? '' : getFinalValue(
+    toPatternText(node),
+    extractedValue,
+    convertedValue,
+    encryptedValue,
+    flags,
+    type,
+    ProcessingMode.SUBSTITUTION
+  );
+
+  if (onInnerTrace) {
+    const hasConversion = convertedValue !== null && convertedValue !== extractedValue;
+    const hasEncryption = encryptedValue !== null;
+
+    let failureReason: string | undefined;
+    let failureCode: FailureCode | undefined;
+    let transformationSuccess = false;
+    const setConversionFailure = () => {
+      failureReason = describeConversionFailure(type, extractedValue, !!converter);
+      failureCode = getConversionFailureCode(type, !!converter);
+    };
+
+    if (transformFailed) {
+      // 확장 플래그 변환이나 암호화에 실패하면 리터럴 값도 실패
+      failureReason = describeTransformFailure(flags, extractedValue);
+      failureCode = getTransformFailureCode(flags);
+    } else if (flags.literal) {
+      // 리터럴 플래그는 항상 성공
+      transformationSuccess = true;
+    } else if (defaultUsed) {
+      // 기본값으로 대체된 경우: 값은 만들어졌으므로 성공 (암호화 실패는 제외), 기본값이 필요했던 이유는 남김
+      setConversionFailure();
+      transformationSuccess = !flags.encrypted || hasEncryption;
+    } else if (type === ParameterType.UNKNOWN) {
+      // UNKNOWN 타입이면서 변환이 요구되는 경우는 실패
+      setConversionFailure();
+    } else if (!hasConversion && type !== ParameterType.LITERAL) {
+      // 타입 변환이 필요한데 변환이 안된 경우 실패
+      setConversionFailure();
+    } else if (flags.encrypted && !hasEncryption) {
+      // 암호화 플래그가 있는데 암호화가 안된 경우 실패 (Encryptor가 실패한 경우는 transformFailed)
+      failureReason = NO_ENCRYPTOR_REASON;
+      failureCode = 'no-encryptor';
+    } else {
+      // 성공 케이스: 변환 성공했거나, 암호화 성공했거나
+      transformationSuccess = true;
+    }
+
+    onInnerTrace({
+      type,
+      typeDeclared: declaredType !== null,
+      defaultUsed,
+      ...(transformFailed ? { transformFailed: true } : {}),
+      ...(failurePolicy ? { failurePolicy } : {}),
+      target: extractedValue,
+      convertedValue,
+      encryptedValue,
+      result: finalValue,
+      flags,
+      processingMode: ProcessingMode.SUBSTITUTION,
+      transformationSuccess,
+      failureReason,
+      ...(failureCode ? { failureCode } : {})
+    });
+  }
+
+  return finalValue;
+};
+
+/**
+ * 선택 그룹([ ... ])을 포함할 수 있는 치환 모드 값을 처리하는 함수
+ *
+ * 이 함수가 필요한 이유:
+ * - filter=PROC=!@{NAME}에서 NAME이 실패하면 PROC=!@만 남아 서버가 잘못된 조건으로 해석함
+ * - 기존에는 STRICT 모드에서만 결과의 @@@@, 끝의 @@ 같은 문자열 패턴으로 추측해서 제외했음
+ * - 작성자가 "안의 값이 모두 있을 때만 출력"할 부분을 직접 표시할 수 있도록 함
+ *
+ * 처리 방식:
+ * - 파서가 만든 값 노드(Text/Placeholder)를 작성 순서대로 치환 (안쪽 Placeholder는 children으로 처리)
+ * - 그룹마다 따로 치환하고, 안의 플레이스홀더가 모두 변환에 성공했을 때만 내용을 남김 ([ ]는 출력하지 않음)
+ * - STRICT 모드 값도 함께 만듦: 리터럴(v) 플레이스홀더만 있는 그룹만 남김
+ * - 그룹 안의 실패는 onFailure 정책 대신 그룹 생략으로 처리 (throw만 그대로 중단)
+ *   → 추적 정보에 optionalGroup: true로 표시하고 failurePolicy는 기록하지 않음
+ *
+ * @example
+ * // NAME 변환 실패시
+ * await substituteOptionalGroups(parseValueParts('ID=1[!@NAME={NAME}]')) // value: 'ID=1'
+ * await substituteOptionalGroups(parseValueParts('[PROC=!@{NAME}]'))       // value: '', omitted: true (값 전체 제외)
+ *
+ * @param parts 치환할 값 노드들
+ * @param typeConverter 타입 변환 함수 (선택적)
+ * @param encryptor 암호화 함수 (선택적)
+ * @param onInnerTrace 내부 변환 추적 콜백 (선택적)
+ * @param encode 삽입하는 값의 퍼센트 인코딩 함수 (선택적)
+ * @param onFailure 그룹 밖 플레이스홀더의 변환 실패시 처리 방법 (선택적)
+ * @param optionalGroups [ ... ]를 선택 그룹으로 처리할지 (기본값: true, 호스트는 [ ]가 IPv6 리터럴이므로 false)
+ * @returns value/strictValue: DEFAULT/STRICT 모드 값,
+ *          omitted/strictOmitted: 그룹 밖에 작성된 문자 없이 모든 그룹이 생략되어 값 전체를 제외해야 하는지
+ */
+export const substituteOptionalGroups = async (
+  parts: ValueNode[],
+  typeConverter?: TypeConverter,
+  encryptor?: Encryptor,
+  onInnerTrace?: SubstitutionTraceCallback,
+  encode?: (value: string) => string,
+  onFailure?: FailurePolicy,
+  optionalGroups: boolean = true
+): Promise<{ value: string; strictValue: string; omitted: boolean; strictOmitted: boolean }> => {
+  let value = '';
+  let strictValue = '';
+  let hasText = false;
+  let hasGroup = false;
+  let hasShownGroup = false;
+  let hasStrictGroup = false;
+
+  const groups = optionalGroups ? splitOptionalGroupParts(parts) : [{ parts, optional: false }];
+  for (const group of groups) {
+    if (!group.optional) {
+      const text = await substituteParts(group.parts, { typeConverter, encryptor, onInnerTrace, encode, onFailure });
+      value += text;
+      strictValue += text;
+      hasText = hasText || group.parts.length > 0;
+      continue;
+    }
+
+    hasGroup = true;
+    const groupTraces: Array<Omit<TransformationTrace, 'location' | 'identifier'>> = [];
+    const text = await substituteParts(group.parts, {
+      typeConverter,
+      encryptor,
+      onInnerTrace: (trace) => {
+        const groupTrace = { ...trace, optionalGroup: true };
+        delete groupTrace.failurePolicy;
+        groupTraces.push(groupTrace);
+        onInnerTrace?.(groupTrace);
+      },
+      encode,
+      onFailure
+    });
+
+    if (groupTraces.every(trace => trace.transformationSuccess)) {
+      value += text;
+      hasShownGroup = true;
+    }
+    if (groupTraces.every(trace => trace.transformationSuccess && trace.flags.literal)) {
+      strictValue += text;
+      hasStrictGroup = true;
+    }
+  }
+
+  return {
+    value,
+    strictValue,
+    omitted: hasGroup && !hasText && !hasShownGroup,
+    strictOmitted: hasGroup && !hasText && !hasStrictGroup
+  };
+};
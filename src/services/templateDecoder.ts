@@ -0,0 +1,175 @@
+import { UrlNode, PlaceholderNode, GlobalGroupNode } from '../types/ast.types';
+import { Decryptor } from '../types/parser.types';
+import {
+  DecodedField,
+  DecodedFieldStatus,
+  DecodedUrl,
+  MatchedValue,
+  UnresolvedPlaceholder,
+  UrlMismatch
+} from '../types/match.types';
+import { parseTemplate, walkTemplate } from '../parsers/templateParser';
+import { matchUrl, matchInnerContent, isMatchComplete, MatchUrlOptions } from './templateMatcher';
+
+/**
+ * decodeUrl 옵션 (매칭 옵션은 matchUrl과 같음)
+ */
+export interface DecodeUrlOptions extends MatchUrlOptions {
+  /** e 플래그 값과 전역 암호화 그룹(?e{...})을 복호화할 함수 (없으면 NO_DECRYPTOR) */
+  decryptor?: Decryptor;
+}
+
+interface DecodedPart {
+  fields: DecodedField[];
+  unresolved: UnresolvedPlaceholder[];
+  mismatches: UrlMismatch[];
+}
+
+/**
+ * matchUrl이 찾은 값에 해당하는 템플릿 노드를 위치로 찾는 함수
+ * (전역 그룹은 GlobalGroup 노드, 그 외에는 Placeholder 노드)
+ */
+const findValueNode = (ast: UrlNode, item: MatchedValue): PlaceholderNode | GlobalGroupNode | null => {
+  const found: Array<PlaceholderNode | GlobalGroupNode> = [];
+  walkTemplate(ast, node => {
+    if (
+      (node.kind === 'Placeholder' || node.kind === 'GlobalGroup') &&
+      node.start === item.range.start &&
+      node.end === item.range.end
+    ) {
+      found.push(node);
+    }
+  });
+  return found[0] ?? null;
+};
+
+/**
+ * 안쪽 내용을 다시 맞춰야 하는 노드인지
+ * (전역 그룹, e{PROC=!@r{NAME}}처럼 안에 플레이스홀더가 있는 플레이스홀더)
+ */
+const hasInnerContent = (node: PlaceholderNode | GlobalGroupNode): boolean => {
+  if (node.kind === 'GlobalGroup') return true;
+  return node.defaultValue === null && node.children.some(child => child.kind === 'Placeholder');
+};
+
+/**
+ * 값 하나를 복호화하고, 안쪽 내용이 있으면 다시 맞춰 안쪽 값까지 되돌리는 함수
+ *
+ * 안쪽 값도 e 플래그를 가질 수 있으므로(?e{name=e{A_TYPE_1}}) 같은 함수로 재귀 처리
+ *
+ * @param item matchUrl이 찾은 값
+ * @param ast 템플릿 AST
+ * @param options 디코딩 옵션
+ * @param insideDecrypted 복호화된 내용 안의 값인지 (암호화되지 않았어도 DECRYPTED로 표시)
+ */
+const decodeValue = async (
+  item: MatchedValue,
+  ast: UrlNode,
+  options: DecodeUrlOptions,
+  insideDecrypted: boolean = false
+): Promise<DecodedPart> => {
+  const { value: rawValue, ...info } = item;
+  let value: string | null = rawValue;
+  let status: DecodedFieldStatus = insideDecrypted ? DecodedFieldStatus.DECRYPTED : DecodedFieldStatus.PLAIN;
+  let error: string | undefined;
+
+  if (item.flags.encrypted) {
+    if (!options.decryptor) {
+      value = null;
+      status = DecodedFieldStatus.NO_DECRYPTOR;
+    } else {
+      try {
+        value = await options.decryptor(rawValue);
+        status = DecodedFieldStatus.DECRYPTED;
+      } catch (decryptError) {
+        value = null;
+        status = DecodedFieldStatus.DECRYPT_FAILED;
+        error = decryptError instanceof Error ? decryptError.message : String(decryptError);
+      }
+    }
+  }
+
+  // 복호화하지 못한 값의 안쪽은 알 수 없으므로 다시 맞추지 않음
+  const node = value === null ? null : findValueNode(ast, item);
+  if (value === null || !node || !hasInnerContent(node)) {
+    return {
+      fields: [{ ...info, value, rawValue, status, ...(error ? { error } : {}) }],
+      unresolved: [],
+      mismatches: []
+    };
+  }
+
+  const inner = matchInnerContent(node, value, item.location, item.identifier, options, item.part);
+  const innerParts = await Promise.all(
+    inner.values.map(innerItem => decodeValue(innerItem, ast, options, status === DecodedFieldStatus.DECRYPTED))
+  );
+
+  return {
+    fields: [
+      {
+        ...info,
+        value,
+        rawValue,
+        status: inner.mismatches.length > 0 ? DecodedFieldStatus.INNER_MISMATCH : status
+      },
+      ...innerParts.flatMap(part => part.fields)
+    ],
+    unresolved: [...inner.unresolved, ...innerParts.flatMap(part => part.unresolved)],
+    mismatches: [...inner.mismatches, ...innerParts.flatMap(part => part.mismatches)]
+  };
+};
+
+/**
+ * 렌더링된 URL을 템플릿으로 되돌려 암호화된 값까지 복호화하는 함수
+ *
+ * 이 함수가 필요한 이유:
+ * - 서버마다 e 플래그 값과 전역 암호화 쿼리를 찾아 복호화하고 다시 쿼리로 나누는 코드를 따로 작성하고 있음
+ * - 템플릿에 이미 어느 위치가 암호화되었는지, 복호화한 내용이 어떤 구조인지 적혀 있으므로 같은 템플릿으로 처리
+ *
+ * 로직 설명:
+ * 1. matchUrl로 URL 구조를 맞추고 플레이스홀더 값을 찾음 (암호화된 값은 암호문 그대로)
+ * 2. e 플래그 값을 decryptor로 복호화 (병렬 처리, 실패한 값은 예외 대신 필드 상태로 기록)
+ * 3. 전역 암호화 그룹과 중첩된 플레이스홀더는 복호화한 평문을 안쪽 템플릿과 다시 맞춰 안쪽 값을 찾음
+ *
+ * @example
+ * await decodeUrl('https://api.com/list?e{id={A_TYPE_1}&mode=v{full}}', 'https://api.com/list?bXlj...', { decryptor: decrypt })
+ * // fields: [{ name: '__GLOBAL__', value: 'id=A_VALUE&mode=full', status: 'DECRYPTED' },
+ * //          { name: 'A_TYPE_1', value: 'A_VALUE', identifier: '__GLOBAL__.id', status: 'DECRYPTED' }]
+ * // values: { __GLOBAL__: 'id=A_VALUE&mode=full', A_TYPE_1: 'A_VALUE' }
+ *
+ * @param template 템플릿 문자열 또는 parseTemplate 결과
+ * @param url 렌더링된 URL
+ * @param options 디코딩 옵션 (decryptor 포함)
+ * @returns 필드별 값과 검증 상태
+ */
+export const decodeUrl = async (
+  template: string | UrlNode,
+  url: string,
+  options: DecodeUrlOptions = {}
+): Promise<DecodedUrl> => {
+  const ast = typeof template === 'string' ? parseTemplate(template, options) : template;
+  const match = matchUrl(ast, url, options);
+  const parts = await Promise.all(match.values.map(item => decodeValue(item, ast, options)));
+
+  const fields = parts.flatMap(part => part.fields);
+  const mismatches = [...match.mismatches, ...parts.flatMap(part => part.mismatches)]
+    .sort((a, b) => a.range.start - b.range.start || a.range.end - b.range.end);
+  const values: Record<string, string> = {};
+  fields.forEach(field => {
+    if (field.value !== null && !(field.name in values)) values[field.name] = field.value;
+  });
+
+  const unresolved = [...match.unresolved, ...parts.flatMap(part => part.unresolved)]
+    .sort((a, b) => a.range.start - b.range.start);
+
+  return {
+    matched: isMatchComplete(mismatches, unresolved),
+    verified: fields.every(field =>
+      field.status === DecodedFieldStatus.PLAIN || field.status === DecodedFieldStatus.DECRYPTED
+    ),
+    fields,
+    values,
+    unresolved,
+    mismatches
+  };
+};
@@ -0,0 +1,1232 @@
+import {
+  ParseResult,
+  TypeConverter,
+  Encryptor,
+  ProcessingMode,
+  TransformationTrace,
+  ParameterType,
+  ParsedQuery,
+  ParsedSegment,
+  FilteringMode,
+  ParameterFlags,
+  MissingRequiredValue,
+  ParsedFragment,
+  ParsedHost,
+  TraceLocation,
+  EncodingContext,
+  QueryArrayStyle,
+  FailurePolicy,
+  FailureCode,
+  ParsedQueryKey
+} from '../types/parser.types';
+import { HostComponent } from '../types/ast.types';
+import {
+  isValidValue,
+  describeConversionFailure,
+  describeTransformFailure,
+  getConversionFailureCode,
+  getTransformFailureCode,
+  NO_ENCRYPTOR_REASON,
+  isQueryKeyExcluded
+} from '../utils/parser.utils';
+import { resolveTypeConverter } from '../utils/typeRegistry';
+import { parseTemplate } from '../parsers/templateParser';
+import { toParsedSegments } from '../parsers/urlParser';
+import { toParsedQueries, groupArrayQueries } from '../parsers/queryParser';
+import { toParsedFragment } from '../parsers/fragmentParser';
+import { toParsedHost, formatHost, validateHostname, validatePort } from '../parsers/hostParser';
+import { percentEncode } from '../utils/percentEncoding';
+import { transformSegments, transformQueries } from './transformService';
+import { validateTemplate, getTemplateErrors } from './templateValidator';
+import {
+  RequiredValueMissingError,
+  TemplateSyntaxError,
+  InvalidHostnameError,
+  MultiValueConversionError,
+  GlobalEncryptionError
+} from '../errors/templateErrors';
+
+/**
+ * 템플릿 엔진 생성 옵션
+ */
+export interface UrlTemplateEngineOptions {
+  /** 등록된 타입(A/B 등)을 실제 값으로 변환하는 함수 (선택적) */
+  typeConverter?: TypeConverter;
+  /**
+   * 값을 암호화하는 함수 (선택적)
+   * 예외를 던지면 암호화 실패: e 플래그 값은 변환 실패와 같이 처리(onFailure, r 플래그)하고
+   * 전역 암호화 그룹은 render/encryptGlobalQueries에서 GlobalEncryptionError 발생
+   */
+  encryptor?: Encryptor;
+  /** 재구성시 기본으로 사용할 필터링 모드 (기본값: DEFAULT) */
+  filteringMode?: FilteringMode;
+  /**
+   * 필수(r 플래그) 값 변환 실패시 처리 방법 (기본값: throw)
+   * - throw: transform/render에서 RequiredValueMissingError 발생
+   * - invalidate: 결과의 missingRequired에 기록만 하고 계속 진행
+   */
+  onRequiredMissing?: 'throw' | 'invalidate';
+  /**
+   * 템플릿 문법 오류(error 심각도 진단) 처리 방법 (기본값: ignore)
+   * - ignore: 기존처럼 그대로 파싱하고 결과의 diagnostics에만 기록
+   * - throw: parse/transform/render에서 TemplateSyntaxError 발생
+   */
+  onSyntaxError?: 'ignore' | 'throw';
+  /**
+   * 플레이스홀더를 변환한 호스트명이나 포트가 올바르지 않을 때 처리 방법 (기본값: throw)
+   * - throw: transform/render에서 InvalidHostnameError 발생 (접속할 수 없거나 다른 호스트로 가는 URL을 만들지 않음)
+   * - ignore: 그대로 렌더링하고 결과의 host.invalidReason에만 기록
+   */
+  onInvalidHost?: 'ignore' | 'throw';
+  /**
+   * 렌더링된 값을 들어가는 위치(경로, 쿼리 키/값, fragment, 전역 페이로드)에 맞게 퍼센트 인코딩할지 (기본값: true)
+   * 값 하나만 제외하려면 FLAG_PRESETS.preEncoded(p 플래그)를 등록해서 사용
+   */
+  percentEncoding?: boolean;
+  /**
+   * 템플릿의 %XX를 디코딩한 뒤 플레이스홀더를 찾을지 (기본값: false)
+   * 브라우저 주소창/로그에서 복사한 %7BA_TYPE_1%7D 형태 템플릿용, 정적 값은 원본 표기 그대로 재구성
+   */
+  decodePercent?: boolean;
+  /** decodePercent 사용시 쿼리의 +를 공백으로 디코딩할지 (기본값: false) */
+  plusAsSpace?: boolean;
+  /**
+   * 다중 값 쿼리 key(tag=..&tag=.., tag[]=..)의 재구성 형태 (기본값: 템플릿에 작성된 형태)
+   * - REPEAT: tag=a&tag=b / BRACKETS: tag[]=a&tag[]=b / COMMA: tag=a,b / INDEXED: tag[0]=a&tag[1]=b
+   */
+  queryArrayStyle?: QueryArrayStyle;
+  /**
+   * 다중 값 쿼리의 값 일부가 변환에 실패했을 때 처리 방법 (기본값: omit-value)
+   * - omit-value: 실패한 값만 제외 (일반 쿼리와 같은 규칙)
+   * - omit-key: 해당 key의 값 전체를 제외
+   * - throw: transform/render에서 MultiValueConversionError 발생
+   */
+  onMultiValueFailure?: MultiValueFailurePolicy;
+  /**
+   * 빈 세그먼트(//, 끝의 /), = 없는 쿼리 key(?debug), 빈 값(a=)을 그대로 보존할지 (기본값: false)
+   * /list/와 /list를 구분하는 서버용
+   */
+  lossless?: boolean;
+  /**
+   * STRICT 모드에서 변환에 실패해 기본값({A_TYPE_1|guest})이 사용된 값의 처리 방법 (기본값: exclude)
+   * - exclude: 다른 변환 대상 값과 같이 제외
+   * - include: 기본값이 리터럴(일반 문자열, v{...})이면 템플릿에 작성된 값이므로 포함
+   */
+  strictDefaults?: StrictDefaultPolicy;
+  /**
+   * 플레이스홀더 변환 실패시 처리 방법 (기본값: default)
+   * - default: {NAME|기본값}의 기본값 사용, 기본값이 없거나 기본값도 실패하면 mode와 같음
+   * - mode: 처리 모드별 기존 동작 (파라미터 모드 쿼리는 제외, 치환 위치는 빈 값, 경로 세그먼트는 빈 세그먼트)
+   * - keep: 작성된 플레이스홀더를 값으로 남김 / empty: 빈 값 / drop: key=value 쌍이나 세그먼트 전체 제외
+   * - throw: transform/render에서 PlaceholderConversionError 발생
+   * 타입별로는 TypeDefinition.onFailure, 값 하나는 FLAG_PRESETS.dropOnFailure(d) 같은 확장 플래그로 지정
+   * (우선순위: 플래그 > 타입 > 이 옵션)
+   */
+  onFailure?: FailurePolicy;
+}
+
+/** 다중 값 쿼리의 값 일부가 변환에 실패했을 때 처리 방법 */
+export type MultiValueFailurePolicy = 'omit-value' | 'omit-key' | 'throw';
+
+/** STRICT 모드에서 기본값이 사용된 값의 처리 방법 */
+export type StrictDefaultPolicy = 'exclude' | 'include';
+
+/**
+ * React에 의존하지 않는 URL 템플릿 엔진
+ */
+export interface UrlTemplateEngine {
+  /** 변환 없이 구조만 파싱 (문법 오류시 정책에 따라 TemplateSyntaxError) */
+  parse: (urlString: string) => ParseResult;
+  /** 파싱 + 타입 변환/암호화 + 추적 정보 수집 (필수 값 실패시 정책에 따라 RequiredValueMissingError) */
+  transform: (urlString: string) => Promise<ParseResult>;
+  /** 파싱부터 전역 암호화까지 수행하여 최종 URL 문자열 반환 */
+  render: (urlString: string, overrideFilteringMode?: FilteringMode) => Promise<string>;
+  /** 변환된 결과를 필터링 모드에 따라 URL로 재구성 (전역 암호화는 [ENCRYPT:길이:내용]으로 표시) */
+  reconstruct: (parseResult: ParseResult, overrideFilteringMode?: FilteringMode) => string;
+  /** 재구성된 URL의 [ENCRYPT:길이:내용] 표시를 실제 암호화 값으로 치환 (암호화에 실패하면 GlobalEncryptionError) */
+  encryptGlobalQueries: (url: string) => Promise<string>;
+}
+
+/**
+ * 변환 추적 정보를 생성하는 헬퍼 함수
+ *
+ * @param item 추적할 파싱된 아이템
+ * @param location 위치 ('url', 'query', 'fragment')
+ * @param identifier 식별자
+ * @param typeConverter 엔진에 전달된 타입 변환 함수 (실패 사유 판단용)
+ * @returns 변환 추적 정보
+ */
+const createTransformationTrace = (
+  item: {
+    extractedValue: string | null;
+    convertedValue: string | null;
+    encryptedValue: string | null;
+    finalValue: string;
+    type: ParameterType;
+    declaredType?: ParameterType | null;
+    defaultUsed?: boolean;
+    transformFailed?: boolean;
+    failurePolicy?: FailurePolicy;
+    flags: ParameterFlags;
+    processingMode?: ProcessingMode;
+  },
+  location: 'url' | 'query',
+  identifier: string,
+  typeConverter?: TypeConverter
+): TransformationTrace => {
+  const hasConversion = item.convertedValue !== null && item.convertedValue !== item.extractedValue;
+  const hasEncryption = item.encryptedValue !== null;
+  const isChanged = item.extractedValue !== item.finalValue;
+
+  // 기본값이 사용된 경우 convertedValue는 기본값이므로 원래 값의 실패 이유를 따로 남김
+  let failureReason: string | undefined;
+  let failureCode: FailureCode | undefined;
+  if (item.transformFailed) {
+    failureReason = describeTransformFailure(item.flags, item.extractedValue || '');
+    failureCode = getTransformFailureCode(item.flags);
+  } else if ((item.defaultUsed || !hasConversion) && item.type !== ParameterType.LITERAL && !item.flags.literal) {
+    const hasConverter = !!resolveTypeConverter(item.type, typeConverter);
+    failureReason = describeConversionFailure(item.type, item.extractedValue, hasConverter);
+    failureCode = getConversionFailureCode(item.type, hasConverter);
+  } else if (item.flags.encrypted && !hasEncryption) {
+    failureReason = NO_ENCRYPTOR_REASON;
+    failureCode = 'no-encryptor';
+  }
+
+  return {
+    type: item.type,
+    typeDeclared: !!item.declaredType,
+    defaultUsed: !!item.defaultUsed,
+    ...(item.transformFailed ? { transformFailed: true } : {}),
+    ...(item.failurePolicy ? { failurePolicy: item.failurePolicy } : {}),
+    target: item.extractedValue || '',
+    convertedValue: item.convertedValue,
+    encryptedValue: item.encryptedValue,
+    result: item.finalValue,
+    location,
+    identifier,
+    flags: item.flags,
+    processingMode: item.processingMode || ProcessingMode.PARAMETER,
+    transformationSuccess: !item.transformFailed && (isChanged || hasConversion || hasEncryption || item.flags.literal),
+    failureReason,
+    ...(failureCode ? { failureCode } : {})
+  };
+};
+
+/**
+ * 변환 추적 정보를 수집하는 함수
+ *
+ * @param parsedSegments 파싱된 URL 세그먼트 배열
+ * @param parsedQueries 파싱된 쿼리 배열
+ * @param existingTraces 기존 추적 정보 배열
+ * @param typeConverter 엔진에 전달된 타입 변환 함수
+ * @returns 완성된 추적 정보 배열
+ */
+const collectTransformationTraces = (
+  parsedSegments: ParsedSegment[],
+  parsedQueries: ParsedQuery[],
+  existingTraces: TransformationTrace[],
+  typeConverter?: TypeConverter
+): TransformationTrace[] => {
+  const traces = [...existingTraces];
+
+  // URL 세그먼트 추적 수집
+  parsedSegments.forEach((segment, index) => {
+    if (segment.extractedValue) {
+      traces.push(createTransformationTrace(segment, 'url', `segment-${index}`, typeConverter));
+    }
+  });
+
+  // 쿼리 변환 추적 수집 (key의 플레이스홀더는 `키.key` identifier, part로 key/value 구분)
+  const pushQueryTraces = (query: ParsedQuery, identifier: string) => {
+    if (query.keyParameter?.extractedValue) {
+      traces.push({
+        ...createTransformationTrace(query.keyParameter, 'query', `${identifier}.key`, typeConverter),
+        part: 'key'
+      });
+    }
+    if (query.extractedValue) {
+      traces.push({ ...createTransformationTrace(query, 'query', identifier, typeConverter), part: 'value' });
+    }
+  };
+
+  parsedQueries.forEach((queryParam) => {
+    // 일반 쿼리 파라미터 추적
+    if (!('type' in queryParam && (queryParam as { type: string }).type === 'GLOBAL')) {
+      pushQueryTraces(queryParam, queryParam.key);
+    }
+
+    // 전역 쿼리의 내부 결과들 추적
+    if ('innerResults' in queryParam && Array.isArray((queryParam as { innerResults: ParsedQuery[] }).innerResults)) {
+      (queryParam as { innerResults: ParsedQuery[] }).innerResults.forEach((inner: ParsedQuery) => {
+        pushQueryTraces(inner, `${queryParam.key}.${inner.key}`);
+      });
+
+      // 전역 쿼리 자체도 추적
+      if (queryParam.key === '__GLOBAL__' && queryParam.convertedValue) {
+        traces.push({
+          type: 'GLOBAL' as ParameterType,
+          target: queryParam.convertedValue,
+          convertedValue: queryParam.convertedValue,
+          encryptedValue: queryParam.encryptedValue,
+          result: queryParam.finalValue,
+          location: 'query',
+          identifier: '__GLOBAL__',
+          flags: queryParam.flags,
+          processingMode: ProcessingMode.SUBSTITUTION,
+          transformationSuccess: queryParam.encryptedValue !== null,
+          ...(queryParam.encryptedValue === null && queryParam.flags.encrypted
+            ? { failureReason: NO_ENCRYPTOR_REASON, failureCode: 'no-encryptor' as const }
+            : {})
+        });
+      }
+    }
+  });
+
+  return traces;
+};
+
+/**
+ * 변환에 실패한 필수 값들을 추적 정보에서 수집하는 함수
+ *
+ * 실패 판단 기준:
+ * - transformationSuccess는 값이 바뀌기만 해도(빈 값 포함) true가 되므로 사용하지 않음
+ * - 리터럴이 아닌데 변환값이 없거나 빈 값이면 실패 (getFinalValue/isValidValue와 같은 기준)
+ * - 확장 플래그 변환이나 암호화에 실패한 값(transformFailed)은 리터럴이라도 실패
+ * - 기본값이 사용된 값은 convertedValue가 기본값이므로, 비어 있지 않은 기본값이면 누락이 아님
+ *
+ * 전역 쿼리 자체의 추적 정보는 제외:
+ * - 전역 암호화는 reconstruct 이후에 수행되므로 이 시점에는 항상 미완료 상태
+ * - 전역 r 플래그는 내부 쿼리들에 이미 병합되어 있어 내부 추적으로 판단 가능
+ *
+ * @param transformationTraces 수집된 전체 추적 정보
+ * @returns 변환에 실패한 필수 값 목록
+ */
+const collectMissingRequiredValues = (
+  transformationTraces: TransformationTrace[]
+): MissingRequiredValue[] => {
+  return transformationTraces
+    .filter(trace =>
+      trace.flags.required &&
+      (!trace.flags.literal || trace.transformFailed) &&
+      !trace.convertedValue &&
+      trace.type !== ParameterType.GLOBAL
+    )
+    .map(trace => ({
+      target: trace.target,
+      type: trace.type,
+      location: trace.location,
+      identifier: trace.identifier,
+      failureReason: trace.failureReason,
+      ...(trace.failureCode ? { failureCode: trace.failureCode } : {})
+    }));
+};
+
+/**
+ * fragment 안의 항목 추적 정보 identifier 접두사
+ * (경로/쿼리와 같은 키를 써도 STRICT 판단시 추적 정보가 섞이지 않도록 구분)
+ */
+const FRAGMENT_IDENTIFIER_PREFIX = 'fragment.';
+
+/**
+ * 호스트 추적 정보 identifier 접두사 (라벨은 host.segment-0, userinfo/port는 host.userinfo, host.port 형태)
+ */
+const HOST_IDENTIFIER_PREFIX = 'host.';
+
+/** 쿼리 키를 재구성 결과에 넣을 형태로 바꾸는 함수 (인코딩 사용시 QUERY_KEY 인코딩) */
+type QueryKeyFormatter = (key: string) => string;
+
+/**
+ * 쿼리스트링 재구성 형식 (엔진 옵션에서 만들어짐)
+ */
+interface QueryFormat {
+  formatKey: QueryKeyFormatter;
+  /** 다중 값 key 직렬화 형태 (없으면 템플릿에 작성된 형태) */
+  arrayStyle?: QueryArrayStyle;
+  onMultiValueFailure: MultiValueFailurePolicy;
+  /** 전역 쿼리 안의 빈 값(a=)도 보존할지 */
+  lossless: boolean;
+  /** STRICT 모드에서 기본값이 사용된 값의 처리 방법 */
+  strictDefaults: StrictDefaultPolicy;
+}
+
+const DEFAULT_QUERY_FORMAT: QueryFormat = {
+  formatKey: key => key,
+  onMultiValueFailure: 'omit-value',
+  lossless: false,
+  strictDefaults: 'exclude'
+};
+
+/**
+ * 재구성 결과에 넣을 값 (퍼센트 디코딩된 정적 값은 원본 표기, 나머지는 변환 결과)
+ */
+const toOutputValue = (item: { finalValue: string; sourceValue?: string }): string => {
+  return item.sourceValue ?? item.finalValue;
+};
+
+/**
+ * 쿼리 하나를 key=value 문자열로 만드는 함수 (디코딩된 key는 원본 표기 그대로, 값 없는 key는 key만)
+ * 플레이스홀더가 있는 key는 변환 단계에서 인코딩까지 마친 값을 그대로 사용
+ */
+const formatQueryPair = (q: ParsedQuery, formatKey: QueryKeyFormatter): string => {
+  const key = q.keyParameter ? q.keyParameter.finalValue : q.sourceKey ?? formatKey(q.key);
+  return q.valueless ? key : `${key}=${toOutputValue(q)}`;
+};
+
+/**
+ * 변환에 실패한 쿼리인지 (DEFAULT 모드에서 제외되는 기준과 같음)
+ * 기본값이 사용된 쿼리는 작성자가 지정한 값이 있으므로 빈 기본값({A_TYPE_1|})이라도 실패가 아님
+ * 실패 처리 방법(onFailure)이 keep/empty면 값을 남기기로 했으므로 실패가 아니고, drop이면 항상 실패
+ * 선택 그룹만으로 이루어진 값에서 모든 그룹이 생략되었으면(omitted) 항상 실패
+ * 플레이스홀더가 있는 key를 변환하지 못해 빈 key가 되었으면 값과 관계없이 실패
+ * 확장 플래그 변환이나 암호화에 실패했으면 리터럴 값, 기본값, 치환 모드 값도 실패
+ */
+const isConversionFailed = (q: ParsedQuery): boolean => {
+  if (q.failurePolicy === 'drop' || q.omitted || isQueryKeyExcluded(q)) return true;
+  if (q.failurePolicy === 'keep' || q.failurePolicy === 'empty') return false;
+  if (q.transformFailed) return true;
+  return !q.defaultUsed && !isValidValue(q.type, q.extractedValue, q.convertedValue, q.flags, q.processingMode);
+};
+
+/**
+ * drop 정책이나 선택 그룹 생략으로 제외되지 않은 세그먼트/호스트 라벨인지
+ */
+const isSegmentKept = (segment: ParsedSegment): boolean => segment.failurePolicy !== 'drop' && !segment.omitted;
+
+/**
+ * STRICT 모드에서 사용할 쿼리 값으로 바꾸는 함수
+ *
+ * 선택 그룹 [ ... ]은 STRICT 모드에서 리터럴이 아닌 값이 있으면 생략되므로 DEFAULT 모드 값과 다를 수 있음
+ * (다를 때만 strictValue가 있음, null은 STRICT 모드에서 제외되는 값으로 필터링 단계에서 처리)
+ */
+const toStrictQuery = (q: ParsedQuery): ParsedQuery => {
+  const keyParameter = q.keyParameter && typeof q.keyParameter.strictValue === 'string'
+    ? { ...q.keyParameter, finalValue: q.keyParameter.strictValue }
+    : q.keyParameter;
+  const strictQuery = keyParameter === q.keyParameter ? q : { ...q, keyParameter };
+  if (typeof q.strictValue !== 'string') return strictQuery;
+  return { ...strictQuery, finalValue: q.strictValue, sourceValue: undefined };
+};
+
+/**
+ * 다중 값 key의 값들을 형태에 맞게 key=value 문자열들로 만드는 함수
+ *
+ * - INDEXED는 제외된 값을 건너뛰고 0부터 다시 번호를 매김
+ * - COMMA는 값 안의 ,를 %2C로 바꿔 구분자와 섞이지 않게 함
+ */
+const serializeArrayValues = (
+  name: string,
+  values: string[],
+  style: QueryArrayStyle,
+  formatKey: QueryKeyFormatter
+): string[] => {
+  switch (style) {
+    case QueryArrayStyle.BRACKETS:
+      return values.map(value => `${formatKey(`${name}[]`)}=${value}`);
+    case QueryArrayStyle.INDEXED:
+      return values.map((value, index) => `${formatKey(`${name}[${index}]`)}=${value}`);
+    case QueryArrayStyle.COMMA:
+      return [`${formatKey(name)}=${values.map(value => value.replace(/,/g, '%2C')).join(',')}`];
+    case QueryArrayStyle.REPEAT:
+    default:
+      return values.map(value => `${formatKey(name)}=${value}`);
+  }
+};
+
+/**
+ * 포함 여부가 정해진 쿼리들을 key=value 문자열 목록으로 만드는 함수
+ *
+ * 다중 값 key는 처음 나온 위치에 한 번에 묶어서 출력:
+ * - 값마다 포함 여부(필터링 모드 기준)를 따로 판단한 뒤
+ * - onMultiValueFailure가 omit-key면 하나라도 변환에 실패한 key는 통째로 제외
+ * - 남은 값이 없으면 key도 출력하지 않음
+ *
+ * @param entries 작성 순서대로의 쿼리와 포함 여부
+ * @param format 재구성 형식
+ * @returns key=value 문자열 목록 (& 로 이어 붙이면 쿼리스트링)
+ */
+const serializeQueries = (
+  entries: Array<{ query: ParsedQuery; included: boolean }>,
+  format: QueryFormat
+): string[] => {
+  const parts: string[] = [];
+  const emittedArrays = new Set<string>();
+
+  entries.forEach(({ query, included }) => {
+    const { arrayKey } = query;
+    if (!arrayKey) {
+      if (included) parts.push(formatQueryPair(query, format.formatKey));
+      return;
+    }
+    if (emittedArrays.has(arrayKey.name)) return;
+    emittedArrays.add(arrayKey.name);
+
+    const members = entries.filter(entry => entry.query.arrayKey?.name === arrayKey.name);
+    if (format.onMultiValueFailure === 'omit-key' && members.some(entry => isConversionFailed(entry.query))) {
+      return;
+    }
+
+    const values = members.filter(entry => entry.included).map(entry => toOutputValue(entry.query));
+    if (values.length > 0) {
+      parts.push(...serializeArrayValues(arrayKey.name, values, format.arrayStyle ?? arrayKey.style, format.formatKey));
+    }
+  });
+
+  return parts;
+};
+
+/**
+ * 다중 값 key 중 변환에 실패한 값이 있으면 MultiValueConversionError를 던짐 (onMultiValueFailure: 'throw')
+ *
+ * @param queries 변환된 쿼리 배열 (전역 쿼리의 내부 결과도 검사)
+ */
+const assertArrayConversions = (queries: ParsedQuery[]) => {
+  groupArrayQueries(queries).forEach(group => {
+    const failed = group.items.filter(isConversionFailed);
+    if (failed.length > 0) {
+      throw new MultiValueConversionError(group.name, failed.map(item => item.extractedValue || item.value));
+    }
+  });
+
+  queries.forEach(q => {
+    if (q.type === ParameterType.GLOBAL && 'innerResults' in q) {
+      assertArrayConversions((q as { innerResults: ParsedQuery[] }).innerResults);
+    }
+  });
+};
+
+/**
+ * STRICT 모드에서 추적 정보가 변환이 필요한(리터럴이 아닌) 값인지 판단하는 함수
+ *
+ * 기본값이 사용된 값은 정책에 따라 판단:
+ * - exclude: 원래 값이 변환 대상이었으므로 변환이 필요한 값으로 취급
+ * - include: 암호화되지 않았으면 리터럴로 취급 (기본값 안의 플레이스홀더는 각자의 추적 정보로 판단)
+ */
+const isNonLiteralTransformation = (
+  trace: TransformationTrace,
+  strictDefaults: StrictDefaultPolicy
+): boolean => {
+  if (trace.defaultUsed) {
+    return strictDefaults === 'exclude' || trace.encryptedValue !== null;
+  }
+  return !trace.flags.literal && trace.type !== ParameterType.UNKNOWN;
+};
+
+/**
+ * STRICT 모드에서 기본값이 사용된 파라미터 모드 값을 포함할지 결정하는 함수
+ *
+ * include 정책에서만 포함하며, 기본값 자체가 리터럴이어야 함:
+ * - {A_TYPE_1|guest}, {A_TYPE_1|v{OTHER}} → 포함
+ * - {A_TYPE_1|{B_TYPE_1}} → 기본값 안에 변환 대상이 있으므로 제외
+ * - e{A_TYPE_1|guest} → 암호화된 값이므로 제외
+ *
+ * @param item 기본값이 사용된 쿼리
+ * @param relatedTraces 기본값 안의 플레이스홀더 추적 정보
+ * @param strictDefaults 기본값 처리 정책
+ */
+const isDefaultedValueStrictValid = (
+  item: { encryptedValue: string | null },
+  relatedTraces: TransformationTrace[],
+  strictDefaults: StrictDefaultPolicy
+): boolean => {
+  return strictDefaults === 'include' &&
+    item.encryptedValue === null &&
+    !relatedTraces.some(trace => isNonLiteralTransformation(trace, strictDefaults) || !trace.transformationSuccess);
+};
+
+/**
+ * STRICT 모드에서 플레이스홀더가 있는 key를 허용할지 판단하는 함수
+ *
+ * 값과 같은 규칙: 리터럴(v{...}) key와 리터럴만 치환된 key(filter_v{X})만 허용
+ *
+ * @param key 변환된 key 정보
+ * @param transformationTraces 전체 추적 정보
+ * @param keyIdentifier key 추적 정보의 identifier (접두사 포함, 예: fragment.{A_TYPE_1}.key)
+ * @param strictDefaults 기본값이 사용된 key의 처리 방법
+ */
+const isStrictKeyValid = (
+  key: ParsedQueryKey,
+  transformationTraces: TransformationTrace[],
+  keyIdentifier: string,
+  strictDefaults: StrictDefaultPolicy
+): boolean => {
+  if (key.flags.literal) return true;
+  if (key.omitted || key.strictValue === null) return false;
+
+  const relatedTraces = transformationTraces.filter(trace =>
+    trace.identifier.startsWith(`${keyIdentifier}.inner.`) && !trace.optionalGroup
+  );
+
+  if (key.defaultUsed) {
+    return isDefaultedValueStrictValid(key, relatedTraces, strictDefaults);
+  }
+  if (key.processingMode === ProcessingMode.SUBSTITUTION) {
+    return !relatedTraces.some(trace =>
+      isNonLiteralTransformation(trace, strictDefaults) || !trace.transformationSuccess
+    );
+  }
+  return false;
+};
+
+/**
+ * STRICT 모드에서 전역 쿼리의 내부 결과를 필터링하는 함수
+ */
+const filterGlobalQueryForStrict = (
+  globalQuery: { innerResults: ParsedQuery[]; flags: ParameterFlags },
+  transformationTraces: TransformationTrace[],
+  identifierPrefix: string = '',
+  strictDefaults: StrictDefaultPolicy = 'exclude'
+) => {
+  return globalQuery.innerResults.filter(inner => {
+    // 변환이 필요한 key가 있으면 값과 관계없이 제외
+    if (inner.keyParameter && !isStrictKeyValid(
+      inner.keyParameter, transformationTraces, `${identifierPrefix}__GLOBAL__.${inner.key}.key`, strictDefaults
+    )) {
+      return false;
+    }
+
+    // 확장 플래그 변환이나 암호화에 실패한 값은 리터럴이라도 DEFAULT 모드와 같은 기준으로 제외
+    if (inner.transformFailed && isConversionFailed(inner)) return false;
+
+    // 리터럴 플래그가 있으면 허용
+    if (inner.flags.literal) return true;
+
+    // 일반 문자열(중괄호 없음) 허용
+    if (!inner.originalValue.includes('{') || !inner.originalValue.includes('}')) return true;
+
+    // 선택 그룹이 모두 생략된 값은 제외
+    if (inner.omitted || inner.strictValue === null) return false;
+
+    // 이 쿼리와 관련된 내부 변환 추적 정보 (치환 모드의 내부 값, 기본값 안의 값)
+    // 선택 그룹 안의 값은 그룹 단위로 이미 판단했으므로 제외
+    const relatedTraces = transformationTraces.filter(trace =>
+      trace.identifier.startsWith(`${identifierPrefix}__GLOBAL__.${inner.key}.inner.`) &&
+      !trace.optionalGroup && trace.part !== 'key'
+    );
+
+    // 기본값이 사용된 값은 정책에 따라 판단
+    if (inner.defaultUsed) {
+      return isDefaultedValueStrictValid(inner, relatedTraces, strictDefaults);
+    }
+
+    // SUBSTITUTION 모드인 경우 transformationTraces를 확인
+    if (inner.processingMode === ProcessingMode.SUBSTITUTION) {
+      // 내부 변환 중 하나라도 변환이 필요한(리터럴이 아닌) 값이 있으면 제외
+      const hasNonLiteralTransformation = relatedTraces.some(trace =>
+        isNonLiteralTransformation(trace, strictDefaults)
+      );
+
+      // 변환 실패가 있으면 제외
+      const hasFailedTransformation = relatedTraces.some(trace =>
+        !trace.transformationSuccess
+      );
+
+      // 모든 조건을 통과한 경우만 포함
+      return !hasNonLiteralTransformation && !hasFailedTransformation;
+    }
+
+    // 나머지는 제외 (변환 필요한 값들)
+    return false;
+  });
+};
+
+/**
+ * STRICT 모드에서 일반 쿼리 필터링 여부를 결정하는 함수
+ */
+const shouldIncludeQueryInStrict = (
+  q: ParsedQuery,
+  transformationTraces: TransformationTrace[],
+  identifierPrefix: string = '',
+  strictDefaults: StrictDefaultPolicy = 'exclude'
+) => {
+  // 변환이 필요한 key가 있으면 값과 관계없이 제외
+  if (q.keyParameter && !isStrictKeyValid(
+    q.keyParameter, transformationTraces, `${identifierPrefix}${q.key}.key`, strictDefaults
+  )) {
+    return false;
+  }
+
+  // 확장 플래그 변환이나 암호화에 실패한 값은 리터럴이라도 DEFAULT 모드와 같은 기준으로 제외
+  if (q.transformFailed && isConversionFailed(q)) return false;
+
+  // 리터럴과 일반 문자열만 허용
+  if (q.flags.literal || (!q.originalValue.includes('{') || !q.originalValue.includes('}'))) {
+    return true;
+  }
+
+  // 선택 그룹이 모두 생략된 값은 제외
+  if (q.omitted || q.strictValue === null) return false;
+
+  // transformationTraces에서 이 쿼리와 관련된 내부 변환 찾기 (치환 모드의 내부 값, 기본값 안의 값)
+  // 선택 그룹 안의 값은 그룹 단위로 이미 판단했으므로 제외
+  const relatedTraces = transformationTraces.filter(trace =>
+    trace.identifier.startsWith(`${identifierPrefix}${q.key}.inner.`) &&
+    !trace.optionalGroup && trace.part !== 'key'
+  );
+
+  // 기본값이 사용된 값은 정책에 따라 판단
+  if (q.defaultUsed) {
+    return isDefaultedValueStrictValid(q, relatedTraces, strictDefaults);
+  }
+
+  // SUBSTITUTION 모드인 경우 STRICT 모드 검증
+  if (q.processingMode === ProcessingMode.SUBSTITUTION) {
+    // 내부 변환 중 하나라도 변환이 필요한(리터럴이 아닌) 값이 있으면 제외
+    const hasNonLiteralTransformation = relatedTraces.some(trace =>
+      isNonLiteralTransformation(trace, strictDefaults)
+    );
+
+    // 또는 변환 실패가 있으면 제외
+    const hasFailedTransformation = relatedTraces.some(trace =>
+      !trace.transformationSuccess
+    );
+
+    // 결과에 변환되지 않은 중괄호가 남아있거나 빈 결과면 제외
+    // (변환 여부에 따라 생략할 부분은 선택 그룹 [ ... ]으로 작성)
+    const hasUnprocessedBrackets = q.finalValue.includes('{') && q.finalValue.includes('}');
+    const isEmpty = q.finalValue.trim() === '';
+
+    // 모든 조건을 통과한 경우만 포함
+    return !hasNonLiteralTransformation && !hasFailedTransformation &&
+           !hasUnprocessedBrackets && !isEmpty;
+  }
+
+  return false;
+};
+
+/**
+ * 전역 쿼리를 재구성하는 함수
+ */
+const reconstructGlobalQuery = (
+  q: ParsedQuery,
+  activeFilteringMode: FilteringMode,
+  transformationTraces: TransformationTrace[],
+  identifierPrefix: string = '',
+  format: QueryFormat = DEFAULT_QUERY_FORMAT
+) => {
+  if (!('innerResults' in q) || !Array.isArray((q as { innerResults: ParsedQuery[] }).innerResults)) {
+    return null;
+  }
+
+  const { innerResults: transformedInnerResults, flags } = q as { innerResults: ParsedQuery[]; flags: ParameterFlags };
+  // STRICT 모드는 선택 그룹을 STRICT 기준으로 처리한 값 사용
+  const globalQuery = {
+    flags,
+    innerResults: activeFilteringMode === FilteringMode.STRICT
+      ? transformedInnerResults.map(toStrictQuery)
+      : transformedInnerResults
+  };
+
+  // STRICT 모드: 내부 쿼리들을 필터링하여 재구성
+  // DEFAULT 모드: 모든 내부 쿼리 포함 (빈 값, drop 정책 값, 모두 생략된 선택 그룹만 제외, 빈 기본값과 empty 정책,
+  // lossless면 원래 비어 있던 a=와 값 없는 key는 유지)
+  const validInnerResults = activeFilteringMode === FilteringMode.STRICT
+    ? filterGlobalQueryForStrict(globalQuery, transformationTraces, identifierPrefix, format.strictDefaults)
+    : globalQuery.innerResults.filter(inner => inner.failurePolicy !== 'drop' && !inner.omitted && !isQueryKeyExcluded(inner) && (
+      inner.finalValue ||
+      inner.defaultUsed ||
+      inner.failurePolicy === 'empty' ||
+      (format.lossless && inner.originalValue === '')
+    ));
+
+  const reconstructedContent = serializeQueries(
+    globalQuery.innerResults.map(inner => ({ query: inner, included: validInnerResults.includes(inner) })),
+    format
+  ).join('&');
+
+  if (!reconstructedContent) return null;
+
+  // 전역 암호화는 별도 함수에서 처리하도록 표시
+  return globalQuery.flags.encrypted
+    ? toEncryptMarker(reconstructedContent)
+    : reconstructedContent;
+};
+
+/** 전역 암호화 표시 시작 문자열 */
+const ENCRYPT_MARKER_PREFIX = '[ENCRYPT:';
+
+/**
+ * 전역 암호화 대상을 [ENCRYPT:길이:내용] 형태로 표시하는 함수
+ *
+ * 길이를 앞에 붙이는 이유:
+ * - 내용에 ]가 들어갈 수 있음 (tag[]=1 같은 배열 key, percentEncoding: false의 값)
+ * - ]까지를 내용으로 보면 나머지가 암호화되지 않고 평문으로 URL에 남음
+ */
+const toEncryptMarker = (content: string): string =>
+  `${ENCRYPT_MARKER_PREFIX}${content.length}:${content}]`;
+
+/**
+ * URL에서 전역 암호화 표시를 찾는 함수 (toEncryptMarker의 반대)
+ *
+ * @returns 표시 전체의 위치(start~end)와 암호화할 내용, 길이가 맞지 않는 표시는 제외
+ */
+const findEncryptMarkers = (url: string): Array<{ start: number; end: number; content: string }> => {
+  const markers: Array<{ start: number; end: number; content: string }> = [];
+  let start = url.indexOf(ENCRYPT_MARKER_PREFIX);
+
+  while (start !== -1) {
+    const lengthStart = start + ENCRYPT_MARKER_PREFIX.length;
+    const lengthMatch = /^(\d+):/.exec(url.slice(lengthStart));
+    const contentStart = lengthStart + (lengthMatch?.[0].length ?? 0);
+    const contentEnd = contentStart + Number(lengthMatch?.[1] ?? 0);
+
+    if (lengthMatch && url[contentEnd] === ']') {
+      markers.push({ start, end: contentEnd + 1, content: url.slice(contentStart, contentEnd) });
+      start = url.indexOf(ENCRYPT_MARKER_PREFIX, contentEnd + 1);
+    } else {
+      start = url.indexOf(ENCRYPT_MARKER_PREFIX, start + 1);
+    }
+  }
+
+  return markers;
+};
+
+/**
+ * 일반 쿼리를 재구성 결과에 포함할지 결정하는 함수
+ */
+const isRegularQueryIncluded = (
+  q: ParsedQuery,
+  activeFilteringMode: FilteringMode,
+  transformationTraces: TransformationTrace[],
+  identifierPrefix: string = '',
+  format: QueryFormat = DEFAULT_QUERY_FORMAT
+): boolean => {
+  // 값 없는 key(lossless 모드의 ?debug)는 변환 대상이 없는 정적 문자열
+  if (q.valueless) return true;
+
+  if (activeFilteringMode === FilteringMode.STRICT) {
+    return shouldIncludeQueryInStrict(q, transformationTraces, identifierPrefix, format.strictDefaults);
+  } else {
+    // DEFAULT 모드: 모든 유효한 쿼리 포함 (기본값이 사용된 쿼리 포함)
+    return !isConversionFailed(q);
+  }
+};
+
+/**
+ * 쿼리 배열을 필터링 모드에 따라 쿼리스트링(? 제외)으로 재구성하는 함수
+ *
+ * 전역 쿼리(?e{...})는 쿼리스트링 전체를 차지하므로 일반 쿼리와 섞이지 않음
+ *
+ * @param queries 변환된 쿼리 배열
+ * @param activeFilteringMode 적용할 필터링 모드
+ * @param transformationTraces 전체 추적 정보 (STRICT 판단용)
+ * @param identifierPrefix 추적 정보 identifier 접두사 (fragment 쿼리 구분용)
+ * @param format 재구성 형식 (쿼리 키 인코딩, 다중 값 형태와 실패 정책)
+ * @returns 재구성된 쿼리스트링 (포함할 쿼리가 없으면 빈 문자열)
+ */
+const reconstructQueryString = (
+  queries: ParsedQuery[],
+  activeFilteringMode: FilteringMode,
+  transformationTraces: TransformationTrace[],
+  identifierPrefix: string = '',
+  format: QueryFormat = DEFAULT_QUERY_FORMAT
+): string => {
+  const globalParts = queries
+    .filter(q => q.type === ParameterType.GLOBAL)
+    .map(q => reconstructGlobalQuery(q, activeFilteringMode, transformationTraces, identifierPrefix, format))
+    .filter((part): part is string => !!part);
+
+  const regularParts = serializeQueries(
+    queries
+      .filter(q => q.type !== ParameterType.GLOBAL)
+      .map(q => activeFilteringMode === FilteringMode.STRICT ? toStrictQuery(q) : q)
+      .map(q => ({
+        query: q,
+        included: isRegularQueryIncluded(q, activeFilteringMode, transformationTraces, identifierPrefix, format)
+      })),
+    format
+  );
+
+  return [...globalParts, ...regularParts].join('&');
+};
+
+/**
+ * fragment를 재구성하는 함수 (# 제외)
+ *
+ * 경로는 변환 단계에서 만든 reconstructedPath를 사용하고,
+ * 쿼리는 일반 쿼리와 같은 필터링 규칙을 적용
+ */
+const reconstructFragment = (
+  fragment: ParsedFragment,
+  activeFilteringMode: FilteringMode,
+  transformationTraces: TransformationTrace[],
+  format: QueryFormat = DEFAULT_QUERY_FORMAT
+): string => {
+  const queryString = reconstructQueryString(
+    fragment.query,
+    activeFilteringMode,
+    transformationTraces,
+    FRAGMENT_IDENTIFIER_PREFIX,
+    format
+  );
+
+  return queryString ? `${fragment.reconstructedPath}?${queryString}` : fragment.reconstructedPath;
+};
+
+/**
+ * STRICT 모드로 재구성할 때 제외되는 쿼리의 추적 정보 identifier 목록을 구하는 함수
+ *
+ * 왜 reconstruct와 같은 판단 함수를 쓰는가:
+ * - 설명 보고서(explainRender)가 STRICT 규칙을 따로 구현하면 엔진과 어긋날 수 있음
+ * - 쿼리 단위로 판단하므로 key/value와 안쪽 값의 추적 정보는 `${identifier}.`로 시작함
+ *
+ * @param parseResult transform 결과
+ * @param strictDefaults 기본값이 사용된 값의 처리 방법 (엔진 옵션과 같은 값)
+ * @returns 제외되는 쿼리의 identifier (fragment 쿼리는 fragment., 전역 쿼리 안의 쌍은 __GLOBAL__. 접두사)
+ */
+export const collectStrictExclusions = (
+  parseResult: ParseResult,
+  strictDefaults: StrictDefaultPolicy = 'exclude'
+): string[] => {
+  const { transformationTraces } = parseResult;
+  const format: QueryFormat = { ...DEFAULT_QUERY_FORMAT, strictDefaults };
+
+  const collect = (queries: ParsedQuery[], identifierPrefix: string): string[] => queries.flatMap(q => {
+    if (q.type !== ParameterType.GLOBAL) {
+      const included = isRegularQueryIncluded(
+        toStrictQuery(q), FilteringMode.STRICT, transformationTraces, identifierPrefix, format
+      );
+      return included ? [] : [`${identifierPrefix}${q.key}`];
+    }
+    if (!('innerResults' in q) || !Array.isArray((q as { innerResults: ParsedQuery[] }).innerResults)) {
+      return [];
+    }
+
+    const { innerResults, flags } = q as { innerResults: ParsedQuery[]; flags: ParameterFlags };
+    const globalQuery = { flags, innerResults: innerResults.map(toStrictQuery) };
+    const kept = filterGlobalQueryForStrict(globalQuery, transformationTraces, identifierPrefix, strictDefaults);
+    return globalQuery.innerResults
+      .filter(inner => !kept.includes(inner))
+      .map(inner => `${identifierPrefix}__GLOBAL__.${inner.key}`);
+  });
+
+  return [
+    ...collect(parseResult.query, ''),
+    ...collect(parseResult.fragment?.query ?? [], FRAGMENT_IDENTIFIER_PREFIX)
+  ];
+};
+
+/**
+ * React 없이 사용할 수 있는 URL 템플릿 엔진을 생성하는 팩토리 함수
+ *
+ * 이 엔진이 필요한 이유:
+ * - 파싱/변환/필터링/재구성 로직이 React Hook 안에만 있으면 Node 배치나 API 라우트에서 사용할 수 없음
+ * - useParseState는 이 엔진을 감싸서 React 상태와 연결만 담당
+ *
+ * 처리 단계:
+ * 1. parse: URL 분해 + 세그먼트/쿼리 파싱 (변환 없음)
+ * 2. transform: parse + 타입 변환/암호화 + 추적 수집
+ * 3. reconstruct: 필터링 모드에 따라 URL 재구성 (전역 암호화는 [ENCRYPT:...]로 표시)
+ * 4. render: transform → reconstruct → encryptGlobalQueries 전체 과정
+ *
+ * 필수 값(r 플래그) 처리:
+ * - 변환에 실패한 필수 값은 위치와 함께 missingRequired에 기록
+ * - onRequiredMissing이 throw(기본값)면 RequiredValueMissingError로 렌더링 중단
+ * - 필수가 아닌 값은 onFailure 정책에 따라 처리 (기본값 default: 기존처럼 제외/빈 값)
+ *
+ * 사용 예시:
+ * ```typescript
+ * const engine = createUrlTemplateEngine({ typeConverter, encryptor, filteringMode: FilteringMode.STRICT });
+ * const url = await engine.render('http://host/{A_TYPE_1}?name=e{B_TYPE_2}');
+ * ```
+ *
+ * @param options 타입 변환 함수, 암호화 함수, 기본 필터링 모드, 필수 값 실패 정책
+ * @returns 템플릿 엔진 객체
+ */
+export const createUrlTemplateEngine = (
+  options: UrlTemplateEngineOptions = {}
+): UrlTemplateEngine => {
+  const {
+    typeConverter,
+    encryptor,
+    filteringMode = FilteringMode.DEFAULT,
+    onRequiredMissing = 'throw',
+    onSyntaxError = 'ignore',
+    onInvalidHost = 'throw',
+    percentEncoding = true,
+    decodePercent = false,
+    plusAsSpace = false,
+    queryArrayStyle,
+    onMultiValueFailure = 'omit-value',
+    lossless = false,
+    strictDefaults = 'exclude',
+    onFailure = 'default'
+  } = options;
+
+  // 값이 들어갈 위치별 인코딩 컨텍스트 (인코딩을 끄면 undefined → 변환 서비스가 인코딩하지 않음)
+  const pathContext = percentEncoding ? EncodingContext.PATH_SEGMENT : undefined;
+  const queryContext = percentEncoding ? EncodingContext.QUERY_VALUE : undefined;
+  const userinfoContext = percentEncoding ? EncodingContext.USERINFO : undefined;
+  const queryFormat: QueryFormat = {
+    formatKey: percentEncoding
+      ? key => percentEncode(key, EncodingContext.QUERY_KEY)
+      : DEFAULT_QUERY_FORMAT.formatKey,
+    arrayStyle: queryArrayStyle,
+    onMultiValueFailure,
+    lossless,
+    strictDefaults
+  };
+
+  const parse = (urlString: string): ParseResult => {
+    // 템플릿 전체를 한 번만 AST로 파싱하고, 세그먼트/쿼리는 AST 노드에서 만듦
+    // (각 항목의 span이 원본 템플릿 기준 위치가 됨)
+    const ast = parseTemplate(urlString, { decodePercent, plusAsSpace });
+    const diagnostics = validateTemplate(ast);
+    const syntaxErrors = getTemplateErrors(diagnostics);
+    if (syntaxErrors.length > 0 && onSyntaxError === 'throw') {
+      throw new TemplateSyntaxError(syntaxErrors);
+    }
+
+    const baseUrl = ast.protocol && ast.host?.raw ? `${ast.protocol}://${ast.host.raw}` : '';
+
+    return {
+      baseUrl,
+      reconstructedPath: '',
+      url: ast.path ? toParsedSegments(ast.path, { lossless }) : [],
+      query: ast.query?.raw ? toParsedQueries(ast.query, { lossless }) : [],
+      host: ast.protocol && ast.host ? toParsedHost(ast.host) : undefined,
+      fragment: ast.fragment ? toParsedFragment(ast.fragment, { lossless }) : undefined,
+      transformationTraces: [],
+      ast,
+      diagnostics
+    };
+  };
+
+  const transform = async (urlString: string): Promise<ParseResult> => {
+    const { baseUrl, url, query, host, fragment, ast, diagnostics } = parse(urlString);
+    const transformationTraces: TransformationTrace[] = [];
+
+    // 내부 추적 콜백 정의
+    const onInnerTrace = (
+      trace: Omit<TransformationTrace, 'location' | 'identifier'>,
+      location: TraceLocation,
+      identifier: string
+    ) => {
+      transformationTraces.push({
+        ...trace,
+        location,
+        identifier: `${identifier}.inner.${trace.target}`,
+        processingMode: ProcessingMode.SUBSTITUTION
+      });
+    };
+
+    // 호스트 변환 (라벨은 경로 세그먼트와 같은 규칙, userinfo/port는 구성요소 전체를 세그먼트 하나로, 추적 정보는 host 위치)
+    // 플레이스홀더가 없는 구성요소는 원본 그대로 두어 기존 결과와 동일하게 유지
+    let parsedHost: ParsedHost | undefined = host;
+    const hostTraces: TransformationTrace[] = [];
+    if (host && ast?.host) {
+      const hasPlaceholder = (component: HostComponent | null) =>
+        !!component?.parts.some(part => part.kind === 'Placeholder');
+      const toHostInnerTrace = (componentIdentifier?: string) => (
+        trace: Omit<TransformationTrace, 'location' | 'identifier'>,
+        _location: TraceLocation,
+        identifier: string
+      ) => onInnerTrace(trace, 'host', `${HOST_IDENTIFIER_PREFIX}${componentIdentifier ?? identifier}`);
+
+      // userinfo/port 변환 (drop 정책으로 제외되거나 빈 값이 되면 구성요소 자체를 생략, @ 나 : 만 남지 않도록)
+      const transformComponent = async (
+        parameter: ParsedSegment | null,
+        component: HostComponent | null,
+        name: 'userinfo' | 'port'
+      ): Promise<{ parameter: ParsedSegment | null; value: string | null }> => {
+        if (!parameter || !hasPlaceholder(component)) {
+          return { parameter, value: component?.raw ?? null };
+        }
+        const [transformed] = await transformSegments(
+          [parameter], typeConverter, encryptor, toHostInnerTrace(name), userinfoContext, onFailure, false
+        );
+        if (transformed.extractedValue) {
+          hostTraces.push({
+            ...createTransformationTrace(transformed, 'url', `${HOST_IDENTIFIER_PREFIX}${name}`, typeConverter),
+            location: 'host'
+          });
+        }
+        const value = isSegmentKept(transformed) ? toOutputValue(transformed) : '';
+        return { parameter: transformed, value: value || null };
+      };
+
+      const userinfo = await transformComponent(host.userinfoParameter, ast.host.userinfo, 'userinfo');
+
+      let { hostname, labels } = host;
+      let invalidReason: string | undefined;
+      if (hasPlaceholder(ast.host.hostname)) {
+        // 호스트는 선택 그룹을 쓰지 않음 ([ ]는 IPv6 리터럴의 대괄호)
+        labels = await transformSegments(
+          host.labels, typeConverter, encryptor, toHostInnerTrace(), undefined, onFailure, false
+        );
+        hostname = labels.filter(isSegmentKept).map(label => label.finalValue).join('.');
+        invalidReason = validateHostname(hostname);
+        hostTraces.push(...collectTransformationTraces(labels, [], [], typeConverter)
+          .map(trace => ({
+            ...trace,
+            location: 'host' as const,
+            identifier: `${HOST_IDENTIFIER_PREFIX}${trace.identifier}`
+          })));
+      }
+      if (invalidReason && onInvalidHost === 'throw') {
+        throw new InvalidHostnameError(hostname, invalidReason);
+      }
+
+      const port = await transformComponent(host.portParameter, ast.host.port, 'port');
+      const portReason = hasPlaceholder(ast.host.port) && port.value !== null ? validatePort(port.value) : undefined;
+      if (portReason && onInvalidHost === 'throw') {
+        throw new InvalidHostnameError(`${hostname}:${port.value}`, portReason);
+      }
+
+      parsedHost = {
+        ...host,
+        userinfo: userinfo.value,
+        userinfoParameter: userinfo.parameter,
+        labels,
+        hostname,
+        port: port.value,
+        portParameter: port.parameter,
+        invalidReason: invalidReason ?? portReason
+      };
+    }
+
+    // 병렬 변환 실행 (항상 DEFAULT 모드로 처리, 필터링은 reconstruct에서)
+    const parsedSegments = await transformSegments(url, typeConverter, encryptor, onInnerTrace, pathContext, onFailure);
+    const parsedQueries = await transformQueries(query, typeConverter, encryptor, onInnerTrace, queryContext, onFailure);
+
+    // 파싱 단계에서는 필터링하지 않고 모든 결과 저장 (drop 정책이 적용된 세그먼트만 경로에서 제외)
+    const keptSegments = parsedSegments.filter(isSegmentKept);
+    const reconstructedPath = keptSegments
+      .map(toOutputValue)
+      .join('/');
+
+    // fragment도 경로/쿼리와 같은 방식으로 변환 (추적 정보는 fragment 위치, identifier 접두사로 구분)
+    let parsedFragment: ParsedFragment | undefined;
+    let fragmentTraces: TransformationTrace[] = [];
+    if (fragment) {
+      const onFragmentInnerTrace = (
+        trace: Omit<TransformationTrace, 'location' | 'identifier'>,
+        _location: TraceLocation,
+        identifier: string
+      ) => onInnerTrace(trace, 'fragment', `${FRAGMENT_IDENTIFIER_PREFIX}${identifier}`);
+
+      // #/route 형태는 경로처럼 / 를 인코딩, #anchor 형태는 fragment 규칙 (/ ? 허용)
+      const fragmentContext = !percentEncoding
+        ? undefined
+        : fragment.leadingSlash ? EncodingContext.PATH_SEGMENT : EncodingContext.FRAGMENT;
+      const fragmentSegments = await transformSegments(
+        fragment.url, typeConverter, encryptor, onFragmentInnerTrace, fragmentContext, onFailure
+      );
+      const fragmentQueries = await transformQueries(
+        fragment.query, typeConverter, encryptor, onFragmentInnerTrace, queryContext, onFailure
+      );
+      const fragmentPath = fragmentSegments.filter(isSegmentKept).map(toOutputValue).join('/');
+
+      parsedFragment = {
+        ...fragment,
+        url: fragmentSegments,
+        query: fragmentQueries,
+        reconstructedPath: fragment.leadingSlash ? `/${fragmentPath}` : fragmentPath
+      };
+      fragmentTraces = collectTransformationTraces(fragmentSegments, fragmentQueries, [], typeConverter)
+        .map(trace => ({
+          ...trace,
+          location: 'fragment' as const,
+          identifier: `${FRAGMENT_IDENTIFIER_PREFIX}${trace.identifier}`
+        }));
+    }
+
+    const allTraces = [
+      ...hostTraces,
+      ...collectTransformationTraces(parsedSegments, parsedQueries, transformationTraces, typeConverter),
+      ...fragmentTraces
+    ];
+
+    // 필수 값 검증: 변환에 실패한 r 플래그 값이 있으면 정책에 따라 중단하거나 무효 표시
+    const missingRequired = collectMissingRequiredValues(allTraces);
+    if (missingRequired.length > 0 && onRequiredMissing === 'throw') {
+      throw new RequiredValueMissingError(missingRequired);
+    }
+
+    // 다중 값 쿼리 검증: 값 일부만 변환된 key가 있으면 정책에 따라 중단
+    if (onMultiValueFailure === 'throw') {
+      assertArrayConversions(parsedQueries);
+      assertArrayConversions(parsedFragment?.query ?? []);
+    }
+
+    return {
+      baseUrl,
+      // lossless면 세그먼트가 빈 값 하나뿐인 / 경로도 유지
+      reconstructedPath: reconstructedPath || (lossless && keptSegments.length > 0) ? `/${reconstructedPath}` : '',
+      url: parsedSegments,
+      query: parsedQueries,
+      host: parsedHost,
+      fragment: parsedFragment,
+      transformationTraces: allTraces,
+      filteringMode,
+      strictDefaults,
+      missingRequired,
+      ast,
+      diagnostics
+    };
+  };
+
+  const reconstruct = (parseResult: ParseResult, overrideFilteringMode?: FilteringMode): string => {
+    const { baseUrl, reconstructedPath, query, host, fragment, transformationTraces } = parseResult;
+    const activeFilteringMode = overrideFilteringMode ?? filteringMode;
+
+    // 각 쿼리 파라미터를 필터링 모드에 따라 처리
+    const queryString = reconstructQueryString(query, activeFilteringMode, transformationTraces, '', queryFormat);
+    const fragmentString = fragment
+      ? reconstructFragment(fragment, activeFilteringMode, transformationTraces, queryFormat)
+      : '';
+
+    // URL 재구성: 베이스 + 경로 + 쿼리 + fragment
+    // 호스트 구성요소가 있으면 baseUrl의 호스트 부분(프로토콜:// 이후)을 구성요소로 다시 조립
+    let fullUrl = host && baseUrl.endsWith(host.raw)
+      ? `${baseUrl.slice(0, baseUrl.length - host.raw.length)}${formatHost(host)}`
+      : baseUrl || '';
+    if (reconstructedPath) {
+      fullUrl += reconstructedPath;
+    }
+    if (queryString) {
+      fullUrl += `?${queryString}`;
+    }
+    if (fragmentString) {
+      fullUrl += `#${fragmentString}`;
+    }
+
+    return fullUrl;
+  };
+
+  const encryptGlobalQueries = async (url: string): Promise<string> => {
+    if (!encryptor) return url;
+
+    // 표시를 앞에서부터 암호문으로 바꿔 이어 붙임 (String.replace는 암호문의 $& 같은 패턴을 해석하므로 사용하지 않음)
+    let result = '';
+    let cursor = 0;
+    for (const { start, end, content } of findEncryptMarkers(url)) {
+      let encrypted: string;
+      try {
+        encrypted = await encryptor(content);
+      } catch (error) {
+        // 평문 쿼리스트링으로 대신하지 않고 중단
+        throw new GlobalEncryptionError(error);
+      }
+      // 암호문(base64의 + / = 등)이 쿼리 구조나 서버 디코딩에 영향을 주지 않도록 인코딩
+      const replacement = percentEncoding ? percentEncode(encrypted, EncodingContext.GLOBAL_PAYLOAD) : encrypted;
+      result += url.slice(cursor, start) + replacement;
+      cursor = end;
+    }
+
+    return result + url.slice(cursor);
+  };
+
+  const render = async (urlString: string, overrideFilteringMode?: FilteringMode): Promise<string> => {
+    const parseResult = await transform(urlString);
+    return encryptGlobalQueries(reconstruct(parseResult, overrideFilteringMode));
+  };
+
+  return {
+    parse,
+    transform,
+    render,
+    reconstruct,
+    encryptGlobalQueries
+  };
+};
@@ -0,0 +1,443 @@
+import {
+  FilteringMode,
+  ParameterType,
+  ParseResult,
+  ProcessingMode,
+  TransformationTrace
+} from '../types/parser.types';
+import { ExplainRenderOptions, ExplainStepKind } from '../types/explain.types';
+import { EXPLAIN_MESSAGES, ExplainMessages, StrictExclusionReason } from '../constants/explainMessages';
+import { defaultFlagRegistry } from '../utils/flagRegistry';
+import { collectStrictExclusions } from './templateEngine';
+
+const INNER_SEPARATOR = '.inner.';
+const GLOBAL_IDENTIFIER = '__GLOBAL__';
+
+interface ExplainStep {
+  kind: ExplainStepKind;
+  text: string;
+}
+
+/**
+ * 보고서의 값 하나 (안쪽 값은 바깥 값 뒤에 depth를 늘려 이어짐)
+ */
+interface ExplainEntry {
+  /** 1, 1.1, 1.2 형태의 번호 */
+  number: string;
+  depth: number;
+  title: string;
+  /** 원본 추적 정보 위치 (location:identifier) */
+  reference: string;
+  steps: ExplainStep[];
+}
+
+interface ExplainContext {
+  messages: ExplainMessages;
+  /** 형식에 맞게 값을 감쌈 (text: "값", markdown: `값`, 빈 값은 emptyValue 문구) */
+  code: (value: string) => string;
+  filteringMode: FilteringMode;
+  strictDefaults: 'exclude' | 'include';
+  /** STRICT 모드에서 제외되는 쿼리의 identifier */
+  strictExclusions: string[];
+  missingRequired: ParseResult['missingRequired'];
+}
+
+const traceKey = (trace: TransformationTrace) => `${trace.location}:${trace.identifier}`;
+
+/**
+ * 템플릿에 작성된 고정 문자열의 추적 정보인지 (/users, api 라벨, a=1의 1)
+ * 패턴이 아니라서 항상 "등록되지 않은 타입"으로 기록되므로 보고서에서 생략
+ */
+const isStaticTrace = (trace: TransformationTrace): boolean => {
+  return !trace.identifier.includes(INNER_SEPARATOR) &&
+    trace.processingMode === ProcessingMode.SUBSTITUTION &&
+    trace.type === ParameterType.UNKNOWN &&
+    !trace.flags.encrypted && !trace.flags.required && !trace.flags.literal && !trace.flags.custom?.length &&
+    !trace.target.includes('{');
+};
+
+/**
+ * 바깥 값의 identifier (없으면 null)
+ * - where.inner.NAME → where
+ * - __GLOBAL__.where → __GLOBAL__ (전역 쿼리 안의 쌍은 전역 그룹 아래에 표시)
+ */
+const getParentIdentifier = (identifier: string): string | null => {
+  const innerIndex = identifier.lastIndexOf(INNER_SEPARATOR);
+  if (innerIndex >= 0) {
+    return identifier.slice(0, innerIndex);
+  }
+  const globalMatch = identifier.match(/^((?:fragment\.)?__GLOBAL__)\./);
+  return globalMatch ? globalMatch[1] : null;
+};
+
+/**
+ * 위치 접두사를 뗀 identifier를 읽을 수 있는 위치 설명으로 바꿈
+ *
+ * @param identifier 접두사(host., fragment.)를 뗀 identifier
+ * @param isSegment 경로 세그먼트/호스트 라벨인지 (쿼리가 아닌 추적 정보)
+ */
+const describeIdentifier = (
+  identifier: string,
+  trace: TransformationTrace,
+  isSegment: boolean,
+  context: ExplainContext
+): string => {
+  const { messages, code } = context;
+  const inFragment = trace.location === 'fragment';
+
+  const innerIndex = identifier.lastIndexOf(INNER_SEPARATOR);
+  if (innerIndex >= 0) {
+    const name = identifier.slice(innerIndex + INNER_SEPARATOR.length);
+    return messages.inner(code(name), describeIdentifier(identifier.slice(0, innerIndex), trace, isSegment, context));
+  }
+
+  if (trace.location === 'host' && identifier === 'userinfo') return messages.hostUserinfo;
+  if (trace.location === 'host' && identifier === 'port') return messages.hostPort;
+
+  const segmentMatch = identifier.match(/^segment-(\d+)$/);
+  if (isSegment && segmentMatch) {
+    if (trace.location === 'host') return messages.hostLabel(segmentMatch[1]);
+    return inFragment ? messages.fragmentSegment(segmentMatch[1]) : messages.pathSegment(segmentMatch[1]);
+  }
+
+  if (identifier === GLOBAL_IDENTIFIER) {
+    return messages.globalGroup(inFragment);
+  }
+  const isGlobal = identifier.startsWith(`${GLOBAL_IDENTIFIER}.`);
+  const key = isGlobal ? identifier.slice(GLOBAL_IDENTIFIER.length + 1) : identifier;
+  if (key.endsWith('.key')) {
+    const keyName = code(key.slice(0, -'.key'.length));
+    return isGlobal ? messages.globalKey(keyName, inFragment) : messages.queryKey(keyName, inFragment);
+  }
+  return isGlobal ? messages.globalValue(code(key), inFragment) : messages.queryValue(code(key), inFragment);
+};
+
+const describeLocation = (trace: TransformationTrace, context: ExplainContext): string => {
+  const prefix = trace.location === 'host' ? 'host.' : trace.location === 'fragment' ? 'fragment.' : '';
+  const identifier = prefix && trace.identifier.startsWith(prefix)
+    ? trace.identifier.slice(prefix.length)
+    : trace.identifier;
+  // 쿼리 추적 정보에는 part가 있고, 경로 세그먼트/호스트 라벨에는 없음
+  const isSegment = trace.location === 'host' || trace.location === 'url' || trace.part === undefined;
+  return describeIdentifier(identifier, trace, isSegment, context);
+};
+
+const describeFlags = (trace: TransformationTrace, context: ExplainContext): string => {
+  const { messages, code } = context;
+  const builtIn = [
+    trace.flags.encrypted ? `${code('e')} (${messages.flagNames.encrypted})` : null,
+    trace.flags.required ? `${code('r')} (${messages.flagNames.required})` : null,
+    trace.flags.literal ? `${code('v')} (${messages.flagNames.literal})` : null
+  ];
+  const custom = (trace.flags.custom ?? []).map(name => {
+    const definition = defaultFlagRegistry.list().find(item => item.name === name);
+    return definition ? `${code(definition.letter)} (${name})` : code(name);
+  });
+  const flags = [...builtIn, ...custom].filter((flag): flag is string => !!flag);
+  return flags.length > 0 ? flags.join(', ') : messages.noFlags;
+};
+
+const isLiteralTrace = (trace: TransformationTrace) => trace.flags.literal || trace.type === ParameterType.LITERAL;
+
+/** 타입 변환이 필요한 단일 값인지 (STRICT 모드 판단 기준) */
+const needsConversion = (trace: TransformationTrace): boolean => {
+  return !isLiteralTrace(trace) &&
+    trace.type !== ParameterType.UNKNOWN &&
+    trace.type !== ParameterType.GLOBAL;
+};
+
+const describeType = (trace: TransformationTrace, context: ExplainContext): string => {
+  const { messages, code } = context;
+  if (trace.type === ParameterType.GLOBAL) return messages.globalType;
+  if (isLiteralTrace(trace)) return messages.literalType;
+  if (trace.type === ParameterType.UNKNOWN) {
+    return trace.target.includes('{') ? messages.composedType : messages.unknownType(code(trace.target));
+  }
+  return trace.typeDeclared
+    ? messages.declaredType(code(trace.type))
+    : messages.detectedType(code(trace.target), code(trace.type));
+};
+
+/**
+ * 변환에 실패한 값인지
+ * 파라미터 모드 값은 실패해도 transformationSuccess가 true일 수 있으므로 변환값과 실패 이유도 확인
+ */
+const isFailedTrace = (trace: TransformationTrace): boolean => {
+  if (trace.defaultUsed || isLiteralTrace(trace) || trace.type === ParameterType.GLOBAL) return false;
+  return !trace.transformationSuccess || (trace.convertedValue === null && trace.failureReason !== undefined);
+};
+
+/**
+ * 암호화만 실패한 값인지 (변환은 되었지만 encryptor가 없거나 실패)
+ * 리터럴 값과 기본값이 사용된 값은 변환 없이 암호화 대상이 됨
+ */
+const isEncryptionFailure = (trace: TransformationTrace): boolean => {
+  if (!trace.flags.encrypted || trace.type === ParameterType.GLOBAL || trace.encryptedValue !== null) return false;
+  return !!trace.transformFailed || isLiteralTrace(trace) || !!trace.defaultUsed || trace.convertedValue !== null;
+};
+
+/**
+ * 변환 실패 이유를 보고서 언어로 만듦
+ * (엔진이 기록한 failureReason은 한국어 문구라 쓰지 않고, 함께 기록된 failureCode로 만듦)
+ */
+const describeFailureReason = (trace: TransformationTrace, context: ExplainContext): string => {
+  const { messages, code } = context;
+  switch (trace.failureCode) {
+    case 'unknown-type':
+      return messages.unknownType(code(trace.target));
+    case 'no-converter':
+      return messages.noConverter;
+    case 'encryption-failed':
+      return messages.encryptionFailed(messages.encryptorFailed);
+    case 'flag-transform-failed':
+      return messages.flagTransformFailed;
+    case 'no-encryptor':
+      return messages.encryptionFailed(messages.noEncryptor);
+    default:
+      return messages.valueNotFound(code(trace.type), code(trace.target));
+  }
+};
+
+const describeConversion = (trace: TransformationTrace, context: ExplainContext): string => {
+  const { messages, code } = context;
+  const reason = describeFailureReason(trace, context);
+
+  if (trace.type === ParameterType.GLOBAL) {
+    return messages.serialized(code(trace.convertedValue ?? trace.target));
+  }
+  if (isLiteralTrace(trace)) {
+    return messages.noConversion(code(trace.result));
+  }
+  if (trace.defaultUsed) {
+    return messages.defaultUsed(reason, code(trace.convertedValue ?? ''));
+  }
+  if (!isFailedTrace(trace) || isEncryptionFailure(trace)) {
+    return messages.converted(code(trace.target), code(trace.convertedValue ?? trace.result));
+  }
+
+  // 실패한 값이 어떻게 처리되었는지: 정책(onFailure) > 선택 그룹 > 모드별 기본 처리
+  const isInner = trace.identifier.includes(INNER_SEPARATOR);
+  const outcome = trace.failurePolicy && trace.failurePolicy !== 'default' && trace.failurePolicy !== 'mode'
+    ? messages.failurePolicy(trace.failurePolicy)
+    : trace.optionalGroup
+      ? messages.optionalGroupOmitted
+      : !isInner && trace.processingMode === ProcessingMode.PARAMETER
+        ? messages.omittedValue
+        : messages.emptiedValue;
+  return `${messages.failed(reason)}; ${outcome}`;
+};
+
+const describeEncryption = (trace: TransformationTrace, context: ExplainContext): string | null => {
+  const { messages, code } = context;
+  if (!trace.flags.encrypted) return null;
+
+  if (trace.type === ParameterType.GLOBAL) return messages.globalEncryption;
+  if (trace.encryptedValue !== null) {
+    return messages.encrypted(code(trace.convertedValue ?? ''), code(trace.encryptedValue));
+  }
+  return isEncryptionFailure(trace)
+    ? messages.encryptionFailed(trace.failureCode === 'encryption-failed' ? messages.encryptorFailed : messages.noEncryptor)
+    : messages.notEncryptedAfterFailure;
+};
+
+/**
+ * STRICT 모드에서 제외/생략되는 이유 (영향이 없으면 null)
+ *
+ * 제외 여부는 엔진의 판단(collectStrictExclusions)을 쓰고, 여기서는 그 이유만 추적 정보로 설명
+ */
+const getStrictReason = (trace: TransformationTrace, context: ExplainContext): StrictExclusionReason | null => {
+  const identifier = trace.identifier;
+  const isExcluded = context.strictExclusions.some(excluded =>
+    identifier === excluded || identifier.startsWith(`${excluded}.`)
+  );
+
+  if (!isExcluded) {
+    return trace.optionalGroup && (needsConversion(trace) || isFailedTrace(trace)) ? 'optional-group' : null;
+  }
+  if (trace.optionalGroup) return 'sibling';
+  if (trace.part === 'key' && !isLiteralTrace(trace)) return 'key-placeholder';
+  if (trace.defaultUsed && context.strictDefaults === 'exclude') return 'default-used';
+  if (trace.flags.encrypted) return 'encrypted';
+  if (isFailedTrace(trace)) return 'conversion-failed';
+  if (needsConversion(trace)) return 'needs-conversion';
+  if (trace.type === ParameterType.UNKNOWN && trace.target.includes('{')) return 'inner-value';
+  return 'sibling';
+};
+
+const describeStrict = (trace: TransformationTrace, context: ExplainContext): string | null => {
+  const { messages } = context;
+  // STRICT 모드는 쿼리(전역 쿼리 안의 쌍 포함)에만 적용되고, 전역 그룹 자체는 안쪽 쌍 단위로 판단
+  if (trace.part === undefined || trace.type === ParameterType.GLOBAL) return null;
+
+  const reason = getStrictReason(trace, context);
+  if (context.filteringMode === FilteringMode.STRICT) {
+    return reason ? messages.strictExcluded(messages.strictReasons[reason]) : messages.strictIncluded;
+  }
+  return reason ? messages.strictWouldExclude(messages.strictReasons[reason]) : null;
+};
+
+const explainTrace = (trace: TransformationTrace, context: ExplainContext): ExplainStep[] => {
+  const { messages, code } = context;
+  const isInner = trace.identifier.includes(INNER_SEPARATOR);
+  const mode = trace.type === ParameterType.GLOBAL
+    ? null
+    : isInner
+      ? messages.innerValue
+      : trace.processingMode === ProcessingMode.PARAMETER ? messages.parameterMode : messages.substitutionMode;
+  const isMissingRequired = !!context.missingRequired?.some(item =>
+    item.location === trace.location && item.identifier === trace.identifier
+  );
+
+  const steps: Array<[ExplainStepKind, string | null]> = [
+    [ExplainStepKind.MODE, mode],
+    [ExplainStepKind.FLAGS, describeFlags(trace, context)],
+    [ExplainStepKind.TYPE, describeType(trace, context)],
+    [ExplainStepKind.CONVERSION, describeConversion(trace, context)],
+    [ExplainStepKind.ENCRYPTION, describeEncryption(trace, context)],
+    // 전역 그룹은 재구성(필터링)과 암호화가 렌더링 단계에서 이루어지므로 직렬화 결과까지만 설명
+    [ExplainStepKind.RESULT, trace.type === ParameterType.GLOBAL ? null : code(trace.result)],
+    [ExplainStepKind.STRICT, describeStrict(trace, context)],
+    [ExplainStepKind.REQUIRED, isMissingRequired ? messages.requiredFailed : null]
+  ];
+  return steps
+    .filter((step): step is [ExplainStepKind, string] => step[1] !== null)
+    .map(([kind, text]) => ({ kind, text }));
+};
+
+/**
+ * 추적 정보를 바깥 값 → 안쪽 값 순서의 트리로 정렬해 보고서 항목으로 만듦
+ *
+ * 추적 정보는 안쪽 값이 먼저 기록되므로(변환 중 콜백) 그대로 나열하면 읽기 어려움:
+ * 가장 바깥 값만 기록된 순서(호스트 → 경로 → 쿼리 → fragment)로 나열하고 그 아래에 안쪽 값을 이어 붙임
+ */
+const buildEntries = (traces: TransformationTrace[], context: ExplainContext): ExplainEntry[] => {
+  const byKey = new Map<string, TransformationTrace>();
+  traces.forEach(trace => {
+    if (!byKey.has(traceKey(trace))) byKey.set(traceKey(trace), trace);
+  });
+
+  const getParent = (trace: TransformationTrace): TransformationTrace | null => {
+    const parentIdentifier = getParentIdentifier(trace.identifier);
+    return parentIdentifier ? byKey.get(`${trace.location}:${parentIdentifier}`) ?? null : null;
+  };
+  const getRoot = (trace: TransformationTrace): TransformationTrace => {
+    const parent = getParent(trace);
+    return parent && parent !== trace ? getRoot(parent) : trace;
+  };
+
+  const entries: ExplainEntry[] = [];
+  const visited = new Set<TransformationTrace>();
+  const visit = (trace: TransformationTrace, number: string, depth: number) => {
+    visited.add(trace);
+    entries.push({
+      number,
+      depth,
+      title: describeLocation(trace, context),
+      reference: traceKey(trace),
+      steps: explainTrace(trace, context)
+    });
+    traces
+      .filter(child => !visited.has(child) && getParent(child) === trace)
+      .forEach((child, index) => visit(child, `${number}.${index + 1}`, depth + 1));
+  };
+
+  traces
+    .filter(trace => getRoot(trace) === trace)
+    .forEach((root, index) => visit(root, String(index + 1), 0));
+  return entries;
+};
+
+const formatText = (header: Array<[string | null, string]>, entries: ExplainEntry[], context: ExplainContext): string => {
+  const lines = [context.messages.title];
+  header.forEach(([label, text]) => lines.push(label ? `${label}: ${text}` : text));
+
+  entries.forEach(entry => {
+    const indent = '   '.repeat(entry.depth);
+    lines.push('', `${indent}${entry.number}. ${entry.title} [${entry.reference}]`);
+    entry.steps.forEach(step => {
+      lines.push(`${indent}   ${context.messages.steps[step.kind]}: ${step.text}`);
+    });
+  });
+  return lines.join('\n');
+};
+
+const formatMarkdown = (header: Array<[string | null, string]>, entries: ExplainEntry[], context: ExplainContext): string => {
+  const lines = [`## ${context.messages.title}`, ''];
+  header.forEach(([label, text]) => lines.push(label ? `- **${label}**: ${text}` : `- ${text}`));
+
+  entries.forEach(entry => {
+    const heading = '#'.repeat(Math.min(3 + entry.depth, 6));
+    lines.push('', `${heading} ${entry.number}. ${entry.title}`, '', context.code(entry.reference), '');
+    entry.steps.forEach(step => {
+      lines.push(`- **${context.messages.steps[step.kind]}**: ${step.text}`);
+    });
+  });
+  return lines.join('\n');
+};
+
+const quoteText = (value: string) => `"${value}"`;
+
+const quoteMarkdown = (value: string) => value.includes('`') ? `\`\` ${value} \`\`` : `\`${value}\``;
+
+/**
+ * 변환 결과(transform)를 값마다 단계별로 설명하는 보고서를 만드는 함수
+ *
+ * 이 함수가 필요한 이유:
+ * - transformationTraces는 __GLOBAL__.where.inner.NAME 같은 identifier를 가진 평면 목록이라
+ *   어떤 값이 왜 그렇게 렌더링되었는지 한눈에 알기 어려움
+ * - 값마다 처리 방식 → 플래그 → 타입 조회 → 변환 → 암호화 → 최종 값 → STRICT 포함 여부 순서로 풀어서 설명
+ *
+ * 보고서 구성:
+ * - 안쪽 값(.inner.)은 바깥 값 아래에, 전역 쿼리 안의 쌍은 전역 그룹 아래에 번호(1.1)를 붙여 표시
+ * - 템플릿에 작성된 고정 문자열(/users, a=1의 1)은 생략하고 개수만 표시
+ * - STRICT 모드 제외 여부는 엔진 재구성과 같은 판단(collectStrictExclusions)을 사용
+ *   (DEFAULT 모드면 STRICT 모드였다면 제외되었을 값만 표시)
+ * - 필터링 모드와 strictDefaults는 transform 결과에 기록된 엔진 옵션을 사용
+ * - 변환 실패 이유는 추적 정보의 실패 사유 코드(failureCode)로 보고서 언어에 맞게 만듦
+ *
+ * @example
+ * const engine = createUrlTemplateEngine({ typeConverter, encryptor, filteringMode: FilteringMode.STRICT });
+ * const result = await engine.transform('https://api.com/users/{A_TYPE_1}?where=e{PROC=!@r{NAME}}');
+ * explainRender(result, { format: 'markdown', locale: 'en' });
+ *
+ * @param result 엔진 transform 결과
+ * @param options 형식, 언어, 렌더링된 URL
+ * @returns 보고서 문자열
+ */
+export const explainRender = (result: ParseResult, options: ExplainRenderOptions = {}): string => {
+  const {
+    format = 'text',
+    locale = 'ko',
+    filteringMode = result.filteringMode ?? FilteringMode.DEFAULT,
+    strictDefaults = result.strictDefaults ?? 'exclude'
+  } = options;
+  const messages = EXPLAIN_MESSAGES[locale];
+  const quote = format === 'markdown' ? quoteMarkdown : quoteText;
+  const context: ExplainContext = {
+    messages,
+    code: value => value === '' ? messages.emptyValue : quote(value),
+    filteringMode,
+    strictDefaults,
+    strictExclusions: collectStrictExclusions(result, strictDefaults),
+    missingRequired: result.missingRequired
+  };
+  const { code } = context;
+
+  const traces = result.transformationTraces.filter(trace => !isStaticTrace(trace));
+  const entries = buildEntries(traces, context);
+
+  const header: Array<[string | null, string]> = [[messages.filteringMode, code(filteringMode)]];
+  if (options.url !== undefined) {
+    header.push([messages.renderedUrl, code(options.url)]);
+  }
+  if (result.missingRequired?.length) {
+    header.push([null, messages.invalidResult(result.missingRequired.length)]);
+  }
+  header.push([null, traces.length > 0
+    ? messages.valueCount(traces.length, result.transformationTraces.length - traces.length)
+    : messages.noValues]);
+
+  return format === 'markdown'
+    ? formatMarkdown(header, entries, context)
+    : formatText(header, entries, context);
+};
@@ -0,0 +1,288 @@
+import {
+  UrlNode,
+  ValueNode,
+  PlaceholderNode,
+  PairNode,
+  PathNode,
+  QueryNode,
+  GlobalGroupNode,
+  SourceSpan
+} from '../types/ast.types';
+import { ParameterType } from '../types/parser.types';
+import {
+  LintConfig,
+  LintFix,
+  LintMessage,
+  LintRuleName,
+  LintRuleSeverity
+} from '../types/lint.types';
+import { parseTemplate, parseValueParts, splitOptionalGroups } from '../parsers/templateParser';
+import {
+  detectParameterType,
+  maskEscapes,
+  parseFlags,
+  unescapeTemplate
+} from '../utils/parser.utils';
+
+/**
+ * 규칙별 기본 심각도
+ * strict-incompatible은 STRICT 모드로 렌더링하는 템플릿에서만 의미가 있으므로 기본적으로 꺼둠
+ */
+export const DEFAULT_LINT_SEVERITIES: Record<LintRuleName, LintRuleSeverity> = {
+  [LintRuleName.LITERAL_TYPE_NAME]: 'warning',
+  [LintRuleName.DUPLICATE_FLAG]: 'warning',
+  [LintRuleName.NESTED_ENCRYPTION]: 'warning',
+  [LintRuleName.UNKNOWN_TYPE]: 'warning',
+  [LintRuleName.STRICT_INCOMPATIBLE]: 'off'
+};
+
+interface LintContext {
+  severities: Record<LintRuleName, LintRuleSeverity>;
+  messages: LintMessage[];
+}
+
+const report = (
+  context: LintContext,
+  rule: LintRuleName,
+  message: string,
+  range: SourceSpan,
+  fix?: LintFix
+) => {
+  const severity = context.severities[rule];
+  if (severity === 'off') return;
+  context.messages.push({ rule, severity, message, range, ...(fix ? { fix } : {}) });
+};
+
+/**
+ * 플래그 문자열에서 중복을 제거하고 지정한 문자를 뺀 결과 (작성 순서 유지)
+ */
+const cleanFlags = (flagString: string, remove: string = ''): string => {
+  return [...new Set(flagString)].filter(letter => !remove.includes(letter)).join('');
+};
+
+/**
+ * 중괄호 패턴 하나를 검사하고 자식 패턴으로 내려가는 함수
+ *
+ * @param node 중괄호 패턴
+ * @param insideEncrypted 이미 암호화되는 전역 그룹/플레이스홀더 안인지
+ * @param context 설정과 결과
+ */
+const lintPlaceholder = (node: PlaceholderNode, insideEncrypted: boolean, context: LintContext) => {
+  const range = { start: node.start, end: node.end };
+  const flagRange = { start: node.start, end: node.start + node.flagString.length };
+  const uniqueFlags = cleanFlags(node.flagString);
+
+  if (uniqueFlags !== node.flagString) {
+    report(context, LintRuleName.DUPLICATE_FLAG, `플래그 "${node.flagString}"에 중복된 문자가 있어 두 번째부터 무시됩니다`, flagRange, {
+      range: flagRange,
+      text: uniqueFlags,
+      description: `중복 제거 (${uniqueFlags})`
+    });
+  }
+
+  // v{A_TYPE_1}: 리터럴이라 타입 변환 없이 A_TYPE_1이 그대로 출력됨
+  const literalText = unescapeTemplate(node.content);
+  const literalType = node.flags.literal && node.children.every(child => child.kind === 'Text')
+    ? detectParameterType(literalText)
+    : ParameterType.UNKNOWN;
+  if (literalType !== ParameterType.UNKNOWN) {
+    const fixedFlags = cleanFlags(node.flagString, 'v');
+    report(
+      context,
+      LintRuleName.LITERAL_TYPE_NAME,
+      `"${literalText}"는 ${literalType} 타입 값이지만 v 플래그 때문에 변환되지 않고 그대로 출력됩니다`,
+      range,
+      { range: flagRange, text: fixedFlags, description: `v 플래그 제거 (${fixedFlags}{${node.content}})` }
+    );
+  }
+
+  if (insideEncrypted && node.flags.encrypted) {
+    const fixedFlags = cleanFlags(node.flagString, 'e');
+    report(
+      context,
+      LintRuleName.NESTED_ENCRYPTION,
+      '이미 암호화되는 값 안의 e 플래그라 이중으로 암호화됩니다',
+      flagRange,
+      { range: flagRange, text: fixedFlags, description: 'e 플래그 제거' }
+    );
+  }
+
+  // 타입 변환 대상인 단일 값만 검사 (중첩 패턴, key=value를 담은 중괄호 제외)
+  const isLeaf = node.children.every(child => child.kind === 'Text') && !maskEscapes(node.content).includes('=');
+  if (
+    isLeaf &&
+    !node.flags.literal &&
+    !node.declaredType &&
+    detectParameterType(node.name) === ParameterType.UNKNOWN
+  ) {
+    if (node.defaultValue !== null) {
+      report(
+        context,
+        LintRuleName.UNKNOWN_TYPE,
+        `"${node.name}"는 등록된 타입 목록에 없어 항상 기본값 "${node.defaultValue}"가 사용됩니다`,
+        range
+      );
+    } else {
+      // v를 붙이면 실패 처리(빈 값, 쿼리 제외) 대신 이름이 그대로 출력되어 결과가 바뀌므로 수정 제안 없음
+      report(
+        context,
+        LintRuleName.UNKNOWN_TYPE,
+        `"${node.name}"는 등록된 타입 목록에 없어 항상 변환에 실패합니다`,
+        range
+      );
+    }
+  }
+
+  lintValueParts(node.children, insideEncrypted || node.flags.encrypted, context);
+};
+
+const lintValueParts = (parts: ValueNode[], insideEncrypted: boolean, context: LintContext) => {
+  parts.forEach(part => {
+    if (part.kind === 'Placeholder') {
+      lintPlaceholder(part, insideEncrypted, context);
+    }
+  });
+};
+
+/**
+ * STRICT 모드에서 그대로 남는 플레이스홀더인지
+ * - v 플래그 값 (ev{X}처럼 암호화해도 템플릿에 작성된 값)
+ * - {@@v{L}}, e{v{X}}처럼 안쪽 패턴이 모두 남는 값을 감싼 패턴
+ * - 기본값이 있는 패턴은 기본값이 쓰여도 제외됨 (strictDefaults 기본값: exclude)
+ */
+const isStrictSafePlaceholder = (node: PlaceholderNode): boolean => {
+  if (parseFlags(node.flagString).literal) return true;
+  if (node.defaultValue !== null) return false;
+
+  const inner = node.children.filter((child): child is PlaceholderNode => child.kind === 'Placeholder');
+  return inner.length > 0 && inner.every(isStrictSafePlaceholder);
+};
+
+const isStrictSafeText = (text: string): boolean => {
+  return parseValueParts(text).every(part => part.kind !== 'Placeholder' || isStrictSafePlaceholder(part));
+};
+
+/**
+ * STRICT 모드에서 항상 제외되는 쿼리 값인지
+ *
+ * 엔진의 쿼리 STRICT 판단(shouldIncludeQueryInStrict)을 템플릿만으로 따라감:
+ * - 선택 그룹 바깥에 남지 않는 플레이스홀더가 하나라도 있으면 쌍 전체가 제외됨
+ * - 선택 그룹은 그룹만 생략되지만, 값 전체가 생략되는 선택 그룹뿐이면 제외됨 (?k=[{NAME}])
+ * (isStrictModeValid는 경로 세그먼트 기준이라 {A_TYPE_1}을 허용하고 e{v{X}}는 제외하므로 쓰지 않음)
+ */
+const isStrictIncompatible = (pair: PairNode): boolean => {
+  if (pair.value === null) return false;
+
+  const groups = splitOptionalGroups(pair.value);
+  if (groups.every(group => group.optional && !isStrictSafeText(group.text))) return true;
+  return groups.some(group => !group.optional && !isStrictSafeText(group.text));
+};
+
+const lintPairs = (pairs: PairNode[], insideEncrypted: boolean, context: LintContext) => {
+  pairs.forEach(pair => {
+    // nested는 valueParts의 중괄호 안을 다시 나눈 것이므로 중복 검사하지 않음
+    lintValueParts(pair.keyParts, insideEncrypted, context);
+    lintValueParts(pair.valueParts, insideEncrypted, context);
+
+    if (pair.valueSpan && isStrictIncompatible(pair)) {
+      report(
+        context,
+        LintRuleName.STRICT_INCOMPATIBLE,
+        `쿼리 "${pair.key}"의 값에 변환이 필요한 값이 있어 STRICT 모드에서 항상 제외됩니다`,
+        pair.valueSpan
+      );
+    }
+  });
+};
+
+const lintPathAndQuery = (
+  path: PathNode | null,
+  query: QueryNode | GlobalGroupNode | null,
+  context: LintContext
+) => {
+  path?.segments.forEach(segment => lintValueParts(segment.parts, false, context));
+  if (!query) return;
+
+  if (query.kind === 'GlobalGroup') {
+    const uniqueFlags = cleanFlags(query.flagString);
+    if (uniqueFlags !== query.flagString) {
+      const flagRange = { start: query.start, end: query.start + query.flagString.length };
+      report(context, LintRuleName.DUPLICATE_FLAG, `전역 플래그 "${query.flagString}"에 중복된 문자가 있어 두 번째부터 무시됩니다`, flagRange, {
+        range: flagRange,
+        text: uniqueFlags,
+        description: `중복 제거 (${uniqueFlags})`
+      });
+    }
+  }
+  lintPairs(query.pairs, query.kind === 'GlobalGroup' && query.flags.encrypted, context);
+};
+
+/**
+ * 문법은 맞지만 의도와 다르게 동작할 가능성이 높은 템플릿 작성 패턴을 찾는 함수
+ *
+ * validateTemplate과의 차이:
+ * - validateTemplate은 파서가 조용히 넘어가는 문법 오류를 알려주며 설정할 수 없음
+ * - lintTemplate은 규칙 이름별로 끄거나 심각도를 바꿀 수 있고, 가능한 경우 자동 수정 제안을 포함
+ *
+ * 규칙 (기본 심각도):
+ * - literal-type-name (warning): v{A_TYPE_1} → 수정: v 제거
+ * - duplicate-flag (warning): ee{A_TYPE_1} → 수정: 중복 제거
+ * - nested-encryption (warning): ?e{a=e{A_TYPE_1}}, e{PROC=!@e{NAME}} → 수정: 안쪽 e 제거
+ * - unknown-type (warning): {NOT_A_TYPE} (수정 없음)
+ * - strict-incompatible (off): STRICT 모드에서 항상 제외되는 쿼리 값
+ *
+ * @example
+ * lintTemplate('/users/v{A_TYPE_1}?q=ee{B_TYPE_1}')
+ * // [{ rule: 'literal-type-name', severity: 'warning', range: { start: 7, end: 18 }, fix: { range: { start: 7, end: 8 }, text: '' } },
+ * //  { rule: 'duplicate-flag', severity: 'warning', range: { start: 21, end: 23 }, fix: { range: { start: 21, end: 23 }, text: 'e' } }]
+ *
+ * @param template 템플릿 문자열 또는 parseTemplate 결과
+ * @param config 규칙별 심각도 설정
+ * @returns 위치 순으로 정렬된 결과 (문제가 없으면 빈 배열)
+ */
+export const lintTemplate = (template: string | UrlNode, config: LintConfig = {}): LintMessage[] => {
+  const ast = typeof template === 'string' ? parseTemplate(template) : template;
+  const context: LintContext = {
+    severities: { ...DEFAULT_LINT_SEVERITIES, ...config.rules },
+    messages: []
+  };
+
+  if (ast.host) {
+    [ast.host.userinfo, ...ast.host.labels, ast.host.port].forEach(component => {
+      if (component) lintValueParts(component.parts, false, context);
+    });
+  }
+  lintPathAndQuery(ast.path, ast.query, context);
+  if (ast.fragment) {
+    lintPathAndQuery(ast.fragment.path, ast.fragment.query, context);
+  }
+
+  return context.messages.sort((a, b) => a.range.start - b.range.start || a.range.end - b.range.end);
+};
+
+/**
+ * 린트 결과의 자동 수정 제안을 템플릿에 적용하는 함수
+ *
+ * 같은 위치를 고치는 제안이 여럿이면(ee{...}의 중복 제거와 e 제거) 앞의 것만 적용하므로,
+ * 모두 반영하려면 결과 템플릿으로 다시 lintTemplate → applyLintFixes를 반복
+ *
+ * @param template 원본 템플릿 (lintTemplate에 넘긴 문자열 또는 AST의 source)
+ * @param messages lintTemplate 결과
+ * @returns 수정된 템플릿
+ */
+export const applyLintFixes = (template: string, messages: LintMessage[]): string => {
+  const fixes = messages
+    .map(message => message.fix)
+    .filter((fix): fix is LintFix => !!fix)
+    .sort((a, b) => a.range.start - b.range.start);
+
+  let result = '';
+  let cursor = 0;
+  fixes.forEach(fix => {
+    if (fix.range.start < cursor) return; // 이미 고친 범위와 겹치는 제안은 건너뜀
+    result += template.slice(cursor, fix.range.start) + fix.text;
+    cursor = fix.range.end;
+  });
+
+  return result + template.slice(cursor);
+};
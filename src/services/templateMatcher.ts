@@ -0,0 +1,927 @@
+import {
+  UrlNode,
+  ValueNode,
+  PlaceholderNode,
+  SourceSpan,
+  SegmentNode,
+  PathNode,
+  PairNode,
+  QueryNode,
+  GlobalGroupNode,
+  TemplateParseOptions,
+  HostComponent
+} from '../types/ast.types';
+import { ParameterType, QueryArrayStyle, TraceLocation } from '../types/parser.types';
+import {
+  MatchMismatchCode,
+  MatchedValue,
+  UnresolvedPlaceholder,
+  UrlMismatch,
+  UrlMatchResult
+} from '../types/match.types';
+import { parseTemplate, parseValueParts, splitOptionalGroups } from '../parsers/templateParser';
+import { parseArrayKey } from '../parsers/queryParser';
+import {
+  detectParameterType,
+  parseUrlComponents,
+  unescapeTemplate
+} from '../utils/parser.utils';
+import { percentDecode } from '../utils/percentEncoding';
+
+/**
+ * matchUrl 옵션
+ *
+ * decodePercent, plusAsSpace, lossless는 템플릿 파싱 옵션과 같은 의미이며
+ * plusAsSpace는 URL 쪽 쿼리를 디코딩할 때도 적용 (form 인코딩된 요청의 + → 공백)
+ */
+export interface MatchUrlOptions extends TemplateParseOptions {
+  /**
+   * 템플릿에 없는 쿼리 key를 만났을 때 처리 (기본값: 'ignore')
+   * - ignore: 무시 (추적용 파라미터 등이 붙은 요청도 매칭)
+   * - error: UNEXPECTED_QUERY 불일치로 보고
+   */
+  extraQuery?: 'ignore' | 'error';
+  /**
+   * 다중 값 key가 렌더링된 형태 (엔진 옵션 queryArrayStyle과 같은 값, 기본값: 템플릿에 작성된 형태)
+   * - tag={A}&tag={B} 템플릿을 COMMA로 렌더링한 tag=1,2는 A=1, B=2로 나눔
+   */
+  queryArrayStyle?: QueryArrayStyle;
+}
+
+/**
+ * 패턴 매칭 결과 (slots 순서대로의 캡처 값, 빠진 선택 그룹 안의 플레이스홀더는 undefined)
+ */
+type PatternCaptures = Array<string | undefined>;
+
+/**
+ * 템플릿 구성요소 하나(세그먼트, 호스트 라벨, 쿼리 key/value)를 매칭 가능한 형태로 바꾼 결과
+ */
+interface CompiledPattern {
+  /** 구성요소 전체와 일치하면 캡처 값, 아니면 null */
+  exec: (text: string) => PatternCaptures | null;
+  /** 캡처 순서대로의 플레이스홀더 */
+  slots: PlaceholderNode[];
+  /** 내용 전체가 선택 그룹이라 렌더링 결과에서 통째로 빠질 수 있는지 */
+  optionalOnly: boolean;
+}
+
+/**
+ * 패턴 조각
+ * - literal: 렌더링 결과에 그대로 나타나는 문자열
+ * - slot: 플레이스홀더 값 (index는 slots 위치)
+ */
+type PatternToken =
+  | { kind: 'literal'; text: string }
+  | { kind: 'slot'; index: number; required: boolean };
+
+/**
+ * 선택 그룹 단위로 나눈 패턴 조각 (optional이면 렌더링 결과에서 빠질 수 있음)
+ */
+interface PatternGroup {
+  tokens: PatternToken[];
+  optional: boolean;
+}
+
+/**
+ * 매칭 도중 모으는 결과
+ */
+interface MatchState {
+  values: MatchedValue[];
+  unresolved: UnresolvedPlaceholder[];
+  mismatches: UrlMismatch[];
+}
+
+/**
+ * URL 쪽 쿼리 쌍 (디코딩된 key/value, = 가 없으면 value는 null)
+ */
+interface ConcretePair {
+  raw: string;
+  key: string;
+  value: string | null;
+  consumed: boolean;
+}
+
+/**
+ * 경로/쿼리를 어디서 매칭하는지 (URL 본문 또는 fragment)
+ */
+interface MatchScope {
+  location: TraceLocation;
+  /** identifier 접두사 (fragment는 'fragment.', 호스트는 'host.') */
+  prefix: string;
+}
+
+/**
+ * 템플릿의 다중 값 key 묶음 (tag={A}&tag={B}, tag[]={A})
+ */
+interface ArrayPairGroup {
+  name: string;
+  /** 템플릿에 작성된 형태 (처음 나온 쌍 기준) */
+  style: QueryArrayStyle;
+  pairs: PairNode[];
+}
+
+const GLOBAL_QUERY_KEY = '__GLOBAL__';
+
+/**
+ * 값 노드 하나를 패턴 조각으로 바꾸는 함수
+ *
+ * - 일반 문자열과 v{...} 리터럴(안에 중괄호 패턴이 없는 경우)은 렌더링 결과에 그대로 나타나므로 문자 그대로 비교
+ * - 나머지 플레이스홀더는 값 자리 (필수 값은 빈 값으로 렌더링되지 않으므로 한 글자 이상)
+ * - 이어지는 문자열은 하나로 합쳐서 값 자리의 끝을 찾을 때 한 번에 비교
+ */
+const pushPatternToken = (part: ValueNode, tokens: PatternToken[], slots: PlaceholderNode[]) => {
+  const text = part.kind === 'Text'
+    ? unescapeTemplate(part.value)
+    : part.flags.literal && part.children.every(child => child.kind === 'Text')
+      ? unescapeTemplate(part.content)
+      : null;
+
+  if (text === null) {
+    tokens.push({ kind: 'slot', index: slots.length, required: (part as PlaceholderNode).flags.required });
+    slots.push(part as PlaceholderNode);
+    return;
+  }
+
+  const last = tokens[tokens.length - 1];
+  if (last?.kind === 'literal') {
+    last.text += text;
+  } else if (text) {
+    tokens.push({ kind: 'literal', text });
+  }
+};
+
+/**
+ * 선택 그룹이 모두 정해진 조각 목록을 구성요소 전체와 맞추는 함수 (백트래킹 없음)
+ *
+ * 값 자리의 끝은 다음 문자열 조각 위치로 한 번만 정함:
+ * - 다음 조각이 문자열이면 그 문자열이 처음 나오는 위치 (마지막 조각이면 구성요소 끝에 붙은 위치)
+ * - 다음 조각이 값 자리면 가능한 짧게 (빈 값, 필수 값은 한 글자)
+ * - 마지막 조각이면 나머지 전체
+ * 예: {A}-{B} ← x-y-z는 A=x, B=y-z
+ *
+ * @returns 값 자리별 캡처 값 (맞지 않으면 null)
+ */
+const matchTokens = (
+  tokens: PatternToken[],
+  text: string,
+  slotCount: number,
+  ignoreCase: boolean
+): PatternCaptures | null => {
+  const haystack = ignoreCase ? text.toLowerCase() : text;
+  const captures: PatternCaptures = new Array(slotCount).fill(undefined);
+  let position = 0;
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (token.kind === 'literal') {
+      const literal = ignoreCase ? token.text.toLowerCase() : token.text;
+      if (!haystack.startsWith(literal, position)) return null;
+      position += literal.length;
+      continue;
+    }
+
+    const minEnd = position + (token.required ? 1 : 0);
+    const next = tokens[index + 1];
+    let end: number;
+    if (!next) {
+      end = text.length;
+    } else if (next.kind === 'slot') {
+      end = minEnd;
+    } else {
+      const literal = ignoreCase ? next.text.toLowerCase() : next.text;
+      end = index + 1 === tokens.length - 1
+        ? (haystack.endsWith(literal) ? text.length - literal.length : -1)
+        : haystack.indexOf(literal, minEnd);
+    }
+    if (end < minEnd || end > text.length) return null;
+
+    captures[token.index] = text.slice(position, end);
+    position = end;
+  }
+
+  return position === text.length ? captures : null;
+};
+
+/**
+ * 템플릿 구성요소 하나를 전체 일치 패턴으로 컴파일하는 함수
+ *
+ * 정규식 대신 문자열 조각 위치로 값을 나누는 이유:
+ * - 플레이스홀더마다 게으른 캡처 그룹을 두면 긴 URL에서 조합 수만큼 백트래킹이 일어남
+ * - 값 자리의 끝을 다음 문자열 조각으로 한 번에 정하면 구성요소 길이에 비례하는 시간에 끝남
+ *
+ * 선택 그룹([ ... ])은 포함하는 경우를 먼저 시도하고, 맞지 않으면 뺀 경우를 시도
+ * (빠진 그룹 안의 플레이스홀더는 캡처 값이 undefined → unresolved, 시도 횟수는 2^선택 그룹 수)
+ *
+ * @param raw 구성요소 원본 (이스케이프 포함)
+ * @param parts 파서가 만든 값 노드
+ * @param offset 원본 템플릿에서 raw가 시작하는 위치
+ * @param ignoreCase 대소문자 구분 없이 비교할지 (호스트명)
+ * @param optionalGroups [ ... ]를 선택 그룹으로 볼지 (호스트 구성요소는 [ ]가 IPv6 리터럴이므로 false)
+ */
+const compilePattern = (
+  raw: string,
+  parts: ValueNode[],
+  offset: number,
+  ignoreCase: boolean = false,
+  optionalGroups: boolean = true
+): CompiledPattern => {
+  const slots: PlaceholderNode[] = [];
+  const groups = optionalGroups ? splitOptionalGroups(raw) : [{ text: raw, optional: false }];
+  const patternGroups: PatternGroup[] = [];
+
+  if (groups.length === 1 && !groups[0].optional) {
+    // 선택 그룹이 없으면 파서가 만든 노드를 그대로 사용 (decodePercent로 디코딩된 템플릿도 원본 위치 유지)
+    const tokens: PatternToken[] = [];
+    parts.forEach(part => pushPatternToken(part, tokens, slots));
+    patternGroups.push({ tokens, optional: false });
+  } else {
+    let cursor = offset;
+    groups.forEach(group => {
+      const start = group.optional ? cursor + 1 : cursor; // 여는 [ 다음부터
+      const tokens: PatternToken[] = [];
+      parseValueParts(group.text, start).forEach(part => pushPatternToken(part, tokens, slots));
+      patternGroups.push({ tokens, optional: group.optional });
+      cursor = start + group.text.length + (group.optional ? 1 : 0); // 닫는 ] 다음까지
+    });
+  }
+
+  // 선택 그룹 포함 여부를 정해 조각 목록으로 이어 붙임 (포함하는 조합부터)
+  const expand = (index: number): PatternToken[][] => {
+    if (index === patternGroups.length) return [[]];
+    const rest = expand(index + 1);
+    const group = patternGroups[index];
+    const included = rest.map(tokens => [...group.tokens, ...tokens]);
+    return group.optional ? [...included, ...rest] : included;
+  };
+  const candidates = expand(0).map(tokens =>
+    // 선택 그룹을 빼면서 나란히 붙게 된 문자열 조각을 다시 합침
+    tokens.reduce<PatternToken[]>((merged, token) => {
+      const last = merged[merged.length - 1];
+      if (token.kind === 'literal' && last?.kind === 'literal') {
+        merged[merged.length - 1] = { kind: 'literal', text: last.text + token.text };
+      } else {
+        merged.push(token);
+      }
+      return merged;
+    }, [])
+  );
+
+  return {
+    exec: text => {
+      for (const tokens of candidates) {
+        const captures = matchTokens(tokens, text, slots.length, ignoreCase);
+        if (captures) return captures;
+      }
+      return null;
+    },
+    slots,
+    optionalOnly: groups.every(group => group.optional)
+  };
+};
+
+const toUnresolved = (
+  node: PlaceholderNode,
+  location: TraceLocation,
+  identifier: string,
+  part?: 'key' | 'value'
+): UnresolvedPlaceholder => ({
+  name: node.name,
+  type: node.declaredType ?? detectParameterType(node.name),
+  flags: node.flags,
+  location,
+  identifier,
+  ...(part ? { part } : {}),
+  range: { start: node.start, end: node.end }
+});
+
+/**
+ * 패턴 매칭 결과에서 플레이스홀더 값을 기록하는 함수
+ * (match가 null이면 모든 플레이스홀더를 unresolved로 기록)
+ */
+const recordCaptures = (
+  pattern: CompiledPattern,
+  match: PatternCaptures | null,
+  location: TraceLocation,
+  identifier: string,
+  state: MatchState,
+  part?: 'key' | 'value'
+) => {
+  pattern.slots.forEach((node, index) => {
+    const info = toUnresolved(node, location, identifier, part);
+    const value = match?.[index];
+    if (value === undefined) {
+      state.unresolved.push(info);
+    } else {
+      state.values.push({ ...info, value });
+    }
+  });
+};
+
+/**
+ * 템플릿 세그먼트와 URL 세그먼트를 순서대로 맞추는 함수
+ *
+ * 내용 전체가 선택 그룹인 세그먼트는 렌더링 결과에서 통째로 빠질 수 있으므로
+ * 그 세그먼트를 건너뛰는 경우까지 백트래킹으로 시도
+ *
+ * @returns 템플릿 세그먼트별 매칭 결과 (건너뛴 세그먼트는 null), 맞출 수 없으면 null
+ */
+const alignSegments = (
+  patterns: CompiledPattern[],
+  concrete: string[]
+): Array<PatternCaptures | null> | null => {
+  const align = (templateIndex: number, concreteIndex: number): Array<PatternCaptures | null> | null => {
+    if (templateIndex === patterns.length) {
+      return concreteIndex === concrete.length ? [] : null;
+    }
+
+    const pattern = patterns[templateIndex];
+    const match = concreteIndex < concrete.length ? pattern.exec(concrete[concreteIndex]) : null;
+    if (match) {
+      const rest = align(templateIndex + 1, concreteIndex + 1);
+      if (rest) return [match, ...rest];
+    }
+    if (pattern.optionalOnly) {
+      const rest = align(templateIndex + 1, concreteIndex);
+      if (rest) return [null, ...rest];
+    }
+    return null;
+  };
+
+  return align(0, 0);
+};
+
+/**
+ * 세그먼트 목록(경로, fragment 경로, 호스트 라벨)을 매칭하는 함수
+ *
+ * 맞출 수 없을 때:
+ * - 개수가 같고 건너뛸 수 있는 세그먼트가 없으면 맞지 않는 세그먼트마다 불일치 보고
+ * - 그 외에는 구성요소 전체를 하나의 불일치로 보고
+ */
+const matchSegmentList = (
+  templateSegments: SegmentNode[],
+  concreteSegments: string[],
+  scope: MatchScope,
+  mismatch: Omit<UrlMismatch, 'location'>,
+  state: MatchState,
+  ignoreCase: boolean = false,
+  optionalGroups: boolean = true
+) => {
+  const patterns = templateSegments.map(segment =>
+    compilePattern(segment.raw, segment.parts, segment.start, ignoreCase, optionalGroups)
+  );
+  const identifierOf = (index: number) => `${scope.prefix}segment-${index}`;
+  const aligned = alignSegments(patterns, concreteSegments);
+
+  if (aligned) {
+    patterns.forEach((pattern, index) => recordCaptures(pattern, aligned[index], scope.location, identifierOf(index), state));
+    return;
+  }
+
+  if (patterns.length === concreteSegments.length && !patterns.some(pattern => pattern.optionalOnly)) {
+    patterns.forEach((pattern, index) => {
+      const match = pattern.exec(concreteSegments[index]);
+      recordCaptures(pattern, match, scope.location, identifierOf(index), state);
+      if (!match) {
+        const segment = templateSegments[index];
+        state.mismatches.push({
+          ...mismatch,
+          location: scope.location,
+          range: { start: segment.start, end: segment.end },
+          expected: segment.raw,
+          actual: concreteSegments[index]
+        });
+      }
+    });
+    return;
+  }
+
+  patterns.forEach((pattern, index) => recordCaptures(pattern, null, scope.location, identifierOf(index), state));
+  state.mismatches.push({ ...mismatch, location: scope.location });
+};
+
+/**
+ * 변환 대상 세그먼트 선택 (toParsedSegments와 같은 규칙이라 segment-N 번호가 추적 정보와 같음)
+ */
+const selectTemplateSegments = (path: PathNode | null, lossless: boolean): SegmentNode[] => {
+  if (!path) return [];
+  return lossless
+    ? path.segments.slice(path.raw.startsWith('/') ? 1 : 0)
+    : path.segments.filter(segment => segment.raw !== '');
+};
+
+/**
+ * URL 경로를 세그먼트로 나누고 디코딩 (%2F는 구분자가 아닌 값)
+ * lossless가 아니면 빈 세그먼트(//, 끝의 /)는 렌더링 결과에 없으므로 무시
+ */
+const splitConcretePath = (path: string, lossless: boolean): string[] => {
+  if (!path) return [];
+  const segments = path.split('/');
+  return (lossless ? segments.slice(path.startsWith('/') ? 1 : 0) : segments.filter(Boolean))
+    .map(segment => percentDecode(segment));
+};
+
+const matchPath = (
+  path: PathNode | null,
+  concretePath: string,
+  scope: MatchScope,
+  code: MatchMismatchCode,
+  lossless: boolean,
+  state: MatchState
+) => {
+  const range = path ? { start: path.start, end: path.end } : { start: 0, end: 0 };
+  matchSegmentList(
+    selectTemplateSegments(path, lossless),
+    splitConcretePath(concretePath, lossless),
+    scope,
+    {
+      code,
+      message: code === MatchMismatchCode.FRAGMENT_MISMATCH
+        ? 'fragment 경로가 템플릿과 맞지 않습니다'
+        : '경로가 템플릿과 맞지 않습니다',
+      range,
+      expected: path?.raw ?? '',
+      actual: concretePath
+    },
+    state
+  );
+};
+
+const parseConcretePairs = (query: string, plusAsSpace: boolean): ConcretePair[] => {
+  return query.split('&').filter(Boolean).map(raw => {
+    const separator = raw.indexOf('=');
+    return {
+      raw,
+      key: percentDecode(separator === -1 ? raw : raw.substring(0, separator), plusAsSpace),
+      value: separator === -1 ? null : percentDecode(raw.substring(separator + 1), plusAsSpace),
+      consumed: false
+    };
+  });
+};
+
+/**
+ * 템플릿 쌍 중 다중 값 key를 이름별로 묶는 함수 (queryParser의 markArrayKeys와 같은 규칙)
+ *
+ * - 같은 이름이 두 번 이상 나오거나 [] / [n] 형태인 key
+ * - 플레이스홀더가 있는 key와 = 없는 key는 묶지 않음
+ */
+const groupArrayPairs = (pairs: PairNode[]): ArrayPairGroup[] => {
+  const valued = pairs.filter(pair =>
+    pair.key && pair.value !== null && !pair.keyParts.some(part => part.kind === 'Placeholder')
+  );
+  const counts = new Map<string, number>();
+  valued.forEach(pair => {
+    const { name } = parseArrayKey(unescapeTemplate(pair.key));
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+
+  const groups = new Map<string, ArrayPairGroup>();
+  valued.forEach(pair => {
+    const { name, style } = parseArrayKey(unescapeTemplate(pair.key));
+    if (style === QueryArrayStyle.REPEAT && (counts.get(name) ?? 0) <= 1) return;
+
+    const group = groups.get(name);
+    if (group) {
+      group.pairs.push(pair);
+    } else {
+      groups.set(name, { name, style, pairs: [pair] });
+    }
+  });
+
+  return [...groups.values()];
+};
+
+/**
+ * URL 쪽 쌍에서 다중 값 key의 값을 렌더링된 형태(serializeArrayValues)대로 모으는 함수
+ *
+ * - REPEAT: tag=1&tag=2, BRACKETS: tag[]=1&tag[]=2, INDEXED: tag[0]=1&tag[1]=2
+ * - COMMA: tag=1,2 (값 안의 ,는 %2C로 인코딩되어 있으므로 디코딩 전에 나눔)
+ *
+ * @returns URL 순서대로의 디코딩된 값 (가져온 쌍은 consumed 표시)
+ */
+const takeArrayValues = (
+  group: ArrayPairGroup,
+  style: QueryArrayStyle,
+  concretePairs: ConcretePair[],
+  plusAsSpace: boolean
+): string[] => {
+  const isMember = (key: string): boolean => {
+    switch (style) {
+      case QueryArrayStyle.BRACKETS:
+        return key === `${group.name}[]`;
+      case QueryArrayStyle.INDEXED:
+        return key.startsWith(`${group.name}[`) && /^\[\d+\]$/.test(key.slice(group.name.length));
+      default:
+        return key === group.name;
+    }
+  };
+
+  return concretePairs
+    .filter(pair => !pair.consumed && pair.value !== null && isMember(pair.key))
+    .flatMap(pair => {
+      pair.consumed = true;
+      if (style !== QueryArrayStyle.COMMA) return [pair.value ?? ''];
+      return pair.raw.slice(pair.raw.indexOf('=') + 1).split(',').map(value => percentDecode(value, plusAsSpace));
+    });
+};
+
+/**
+ * 다중 값 key의 템플릿 쌍과 URL 값을 작성 순서대로 맞추는 함수
+ *
+ * 변환에 실패한 값은 렌더링에서 빠지므로, 맞지 않는 템플릿 쌍은 건너뛰고 다음 쌍에 같은 값을 시도
+ * (건너뛴 쌍의 플레이스홀더는 unresolved, 정적 값이나 필수 값이면 QUERY_MISSING)
+ */
+const matchArrayPairs = (
+  group: ArrayPairGroup,
+  values: string[],
+  scope: MatchScope,
+  parentRequired: boolean,
+  state: MatchState
+) => {
+  let cursor = 0;
+
+  group.pairs.forEach(pair => {
+    const identifier = `${scope.prefix}${pair.key}`;
+    const pattern = compilePattern(pair.value ?? '', pair.valueParts, pair.valueSpan?.start ?? pair.start);
+    const match = cursor < values.length ? pattern.exec(values[cursor]) : null;
+    recordCaptures(pattern, match, scope.location, identifier, state, 'value');
+    if (match) {
+      cursor++;
+      return;
+    }
+
+    if (pattern.slots.length === 0 || parentRequired || pattern.slots.some(node => node.flags.required)) {
+      state.mismatches.push({
+        code: MatchMismatchCode.QUERY_MISSING,
+        message: `쿼리 "${pair.key}"의 값이 URL에 없습니다`,
+        location: scope.location,
+        range: { start: pair.start, end: pair.end },
+        expected: pair.raw,
+        actual: null
+      });
+    }
+  });
+
+  values.slice(cursor).forEach(value => {
+    const last = group.pairs[group.pairs.length - 1];
+    state.mismatches.push({
+      code: MatchMismatchCode.QUERY_VALUE_MISMATCH,
+      message: `쿼리 "${group.name}"의 값 "${value}"에 해당하는 템플릿 값이 없습니다`,
+      location: scope.location,
+      range: { start: group.pairs[0].start, end: last.end },
+      expected: group.pairs.map(pair => pair.raw).join('&'),
+      actual: value
+    });
+  });
+};
+
+/**
+ * 템플릿 쿼리 쌍들을 URL 쿼리 쌍과 맞추는 함수
+ *
+ * - key에 플레이스홀더가 없으면 같은 key 중 값까지 맞는 쌍을 먼저 찾고, 없으면 key만 같은 쌍의 값 불일치로 보고
+ * - key에 플레이스홀더가 있으면 key와 값이 모두 맞는 쌍을 찾음
+ * - 찾지 못한 쌍은 항상 렌더링되는 경우(정적 쌍, 필수 값)만 QUERY_MISSING,
+ *   그 외에는 변환 실패나 STRICT 모드로 제외되었을 수 있으므로 unresolved
+ * - 한 번 맞춘 URL 쌍은 다시 쓰지 않음 (tag={A}&tag={B} 같은 다중 값 key는 작성 순서대로)
+ */
+const matchPairs = (
+  pairs: PairNode[],
+  concretePairs: ConcretePair[],
+  scope: MatchScope,
+  parentRequired: boolean,
+  options: MatchUrlOptions,
+  state: MatchState
+) => {
+  // 다중 값 key는 렌더링된 형태로 값을 모은 뒤 작성 순서대로 맞춤
+  const arrayGroups = groupArrayPairs(pairs);
+  arrayGroups.forEach(group => {
+    const values = takeArrayValues(group, options.queryArrayStyle ?? group.style, concretePairs, !!options.plusAsSpace);
+    matchArrayPairs(group, values, scope, parentRequired, state);
+  });
+  const arrayPairs = new Set(arrayGroups.flatMap(group => group.pairs));
+
+  pairs.forEach(pair => {
+    // key가 빈 쌍과 (lossless가 아닐 때) = 없는 key는 렌더링되지 않음
+    if (!pair.key || (pair.value === null && !options.lossless) || arrayPairs.has(pair)) return;
+
+    const identifier = `${scope.prefix}${pair.key}`;
+    const range = { start: pair.start, end: pair.end };
+    const keyPattern = compilePattern(pair.key, pair.keyParts, pair.keySpan.start);
+    const valuePattern = pair.valueSpan && pair.value !== null
+      ? compilePattern(pair.value, pair.valueParts, pair.valueSpan.start)
+      : null;
+    const candidates = concretePairs.filter(candidate =>
+      !candidate.consumed &&
+      (candidate.value === null) === (valuePattern === null) &&
+      keyPattern.exec(candidate.key) !== null
+    );
+    const isMatched = (candidate: ConcretePair) =>
+      !valuePattern || valuePattern.exec(candidate.value ?? '') !== null;
+    const found = candidates.find(isMatched) ?? (keyPattern.slots.length === 0 ? candidates[0] : undefined);
+
+    if (found) {
+      found.consumed = true;
+      recordCaptures(keyPattern, keyPattern.exec(found.key), scope.location, `${identifier}.key`, state, 'key');
+      if (valuePattern) {
+        const valueMatch = valuePattern.exec(found.value ?? '');
+        recordCaptures(valuePattern, valueMatch, scope.location, identifier, state, 'value');
+        if (!valueMatch) {
+          state.mismatches.push({
+            code: MatchMismatchCode.QUERY_VALUE_MISMATCH,
+            message: `쿼리 "${pair.key}"의 값이 템플릿과 맞지 않습니다`,
+            location: scope.location,
+            range,
+            expected: pair.value ?? '',
+            actual: found.value
+          });
+        }
+      }
+      return;
+    }
+
+    const slots = [...keyPattern.slots, ...(valuePattern?.slots ?? [])];
+    recordCaptures(keyPattern, null, scope.location, `${identifier}.key`, state, 'key');
+    if (valuePattern) {
+      recordCaptures(valuePattern, null, scope.location, identifier, state, 'value');
+    }
+    if (slots.length === 0 || parentRequired || slots.some(node => node.flags.required)) {
+      state.mismatches.push({
+        code: MatchMismatchCode.QUERY_MISSING,
+        message: `쿼리 "${pair.key}"가 URL에 없습니다`,
+        location: scope.location,
+        range,
+        expected: pair.raw,
+        actual: null
+      });
+    }
+  });
+};
+
+/**
+ * 쿼리(또는 fragment의 쿼리)를 매칭하는 함수
+ *
+ * 전역 암호화 그룹(?e{...})은 쿼리 전체가 암호문 하나로 렌더링되므로
+ * 내부 쌍을 맞추지 않고 쿼리 전체를 __GLOBAL__ 값 하나로 기록 (값은 암호문)
+ */
+const matchQuery = (
+  query: QueryNode | GlobalGroupNode | null,
+  concreteQuery: string,
+  scope: MatchScope,
+  options: MatchUrlOptions,
+  state: MatchState
+) => {
+  const range: SourceSpan = query ? { start: query.start, end: query.end } : { start: 0, end: 0 };
+
+  if (query?.kind === 'GlobalGroup' && query.flags.encrypted) {
+    const info: UnresolvedPlaceholder = {
+      name: GLOBAL_QUERY_KEY,
+      type: 'GLOBAL' as ParameterType,
+      flags: query.flags,
+      location: scope.location,
+      identifier: `${scope.prefix}${GLOBAL_QUERY_KEY}`,
+      range
+    };
+    if (concreteQuery) {
+      state.values.push({ ...info, value: percentDecode(concreteQuery) });
+    } else {
+      state.unresolved.push(info);
+    }
+    return;
+  }
+
+  const concretePairs = parseConcretePairs(concreteQuery, !!options.plusAsSpace);
+  if (query) {
+    const isGlobal = query.kind === 'GlobalGroup';
+    matchPairs(
+      query.pairs,
+      concretePairs,
+      isGlobal ? { ...scope, prefix: `${scope.prefix}${GLOBAL_QUERY_KEY}.` } : scope,
+      isGlobal && query.flags.required,
+      options,
+      state
+    );
+  }
+
+  if (options.extraQuery === 'error') {
+    concretePairs.filter(pair => !pair.consumed).forEach(pair => {
+      state.mismatches.push({
+        code: MatchMismatchCode.UNEXPECTED_QUERY,
+        message: `템플릿에 없는 쿼리 "${pair.key}"입니다`,
+        location: scope.location,
+        range,
+        expected: query?.raw ?? '',
+        actual: pair.raw
+      });
+    });
+  }
+};
+
+/**
+ * 렌더링된 값이 맞지 않을 때 위치별 불일치 코드
+ */
+const VALUE_MISMATCH_CODES: Record<TraceLocation, MatchMismatchCode> = {
+  host: MatchMismatchCode.HOST_MISMATCH,
+  url: MatchMismatchCode.PATH_MISMATCH,
+  query: MatchMismatchCode.QUERY_VALUE_MISMATCH,
+  fragment: MatchMismatchCode.FRAGMENT_MISMATCH
+};
+
+/**
+ * 플레이스홀더나 전역 그룹의 안쪽 내용을 평문과 맞추는 함수
+ *
+ * matchUrl은 중첩된 플레이스홀더(e{PROC=!@r{NAME}})와 전역 암호화 그룹을 통째로 캡처하므로,
+ * decodeUrl이 복호화한 평문을 이 함수로 다시 맞춰 안쪽 값을 찾음
+ *
+ * - 플레이스홀더: 내용(PROC=!@r{NAME})을 치환 모드 값처럼 비교
+ * - 전역 그룹: 평문을 쿼리로 보고 내부 쌍을 비교 (identifier는 `전역.key`)
+ *
+ * @param node 안쪽 내용을 가진 노드
+ * @param text 비교할 평문
+ * @param location 바깥 값의 위치
+ * @param identifier 바깥 값의 identifier
+ * @param options 매칭 옵션 (plusAsSpace, lossless)
+ * @param part 바깥 값이 쿼리의 key/value 중 어디에 있는지
+ */
+export const matchInnerContent = (
+  node: PlaceholderNode | GlobalGroupNode,
+  text: string,
+  location: TraceLocation,
+  identifier: string,
+  options: MatchUrlOptions = {},
+  part?: 'key' | 'value'
+): Pick<UrlMatchResult, 'values' | 'unresolved' | 'mismatches'> => {
+  const state: MatchState = { values: [], unresolved: [], mismatches: [] };
+
+  if (node.kind === 'GlobalGroup') {
+    matchPairs(
+      node.pairs,
+      parseConcretePairs(text, !!options.plusAsSpace),
+      { location, prefix: `${identifier}.` },
+      node.flags.required,
+      options,
+      state
+    );
+    return state;
+  }
+
+  const pattern = compilePattern(node.content, node.children, node.contentSpan.start);
+  const match = pattern.exec(text);
+  recordCaptures(pattern, match, location, identifier, state, part);
+  if (!match) {
+    state.mismatches.push({
+      code: VALUE_MISMATCH_CODES[location],
+      message: `"${node.content}"의 내용이 템플릿과 맞지 않습니다`,
+      location,
+      range: { start: node.start, end: node.end },
+      expected: node.content,
+      actual: text
+    });
+  }
+  return state;
+};
+
+/**
+ * 프로토콜과 호스트를 매칭하는 함수
+ *
+ * - 프로토콜과 호스트명은 대소문자를 구분하지 않음
+ * - 호스트명에 플레이스홀더가 있으면 . 으로 나눈 라벨 단위로 맞춤 (host.segment-N)
+ * - userinfo와 포트에 플레이스홀더가 있으면 구성요소 전체를 세그먼트 하나처럼 맞춤 (host.userinfo, host.port)
+ *   (변환 결과가 빈 값이면 렌더링에서 구성요소가 생략되므로 빈 값과 비교), 없으면 문자 그대로 비교
+ */
+const matchHost = (
+  ast: UrlNode,
+  concrete: ReturnType<typeof parseUrlComponents>,
+  state: MatchState
+) => {
+  const host = ast.host;
+  if (!host) return;
+
+  if (ast.protocol.toLowerCase() !== concrete.protocol.toLowerCase()) {
+    state.mismatches.push({
+      code: MatchMismatchCode.PROTOCOL_MISMATCH,
+      message: `프로토콜이 다릅니다 (템플릿: ${ast.protocol}, URL: ${concrete.protocol})`,
+      location: 'host',
+      range: { start: 0, end: ast.protocol.length },
+      expected: ast.protocol,
+      actual: concrete.protocol
+    });
+  }
+
+  const hostMismatch = {
+    code: MatchMismatchCode.HOST_MISMATCH,
+    message: '호스트가 템플릿과 맞지 않습니다',
+    range: { start: host.start, end: host.end },
+    expected: host.raw,
+    actual: concrete.host
+  };
+  const isTemplated = (component: HostComponent) => component.parts.some(part => part.kind === 'Placeholder');
+  const isHostnameTemplated = isTemplated(host.hostname);
+
+  const matchComponent = (component: HostComponent | null, actual: string | null, name: 'userinfo' | 'port'): boolean => {
+    if (!component || !isTemplated(component)) {
+      return (component?.raw ?? null) === actual;
+    }
+    const pattern = compilePattern(component.raw, component.parts, component.start, false, false);
+    const match = pattern.exec(percentDecode(actual ?? ''));
+    recordCaptures(pattern, match, 'host', `host.${name}`, state);
+    return !!match;
+  };
+  const isUserinfoMatched = matchComponent(host.userinfo, concrete.userinfo, 'userinfo');
+  const isPortMatched = matchComponent(host.port, concrete.port, 'port');
+
+  if (
+    !isUserinfoMatched ||
+    !isPortMatched ||
+    (!isHostnameTemplated && host.hostname.raw.toLowerCase() !== concrete.hostname.toLowerCase())
+  ) {
+    state.mismatches.push({ ...hostMismatch, location: 'host' });
+  }
+
+  if (isHostnameTemplated) {
+    const concreteLabels = concrete.hostname.startsWith('[') ? [concrete.hostname] : concrete.hostname.split('.');
+    matchSegmentList(host.labels, concreteLabels, { location: 'host', prefix: 'host.' }, hostMismatch, state, true, false);
+  }
+};
+
+/**
+ * 매칭 결과가 템플릿으로 렌더링될 수 있는 URL인지 판단하는 함수
+ *
+ * 구조가 맞아도 필수 값(r 플래그)을 찾지 못했으면 렌더링될 수 없는 URL
+ * (필수 값이 변환에 실패하면 렌더링이 중단되거나 무효 처리됨)
+ */
+export const isMatchComplete = (mismatches: UrlMismatch[], unresolved: UnresolvedPlaceholder[]): boolean =>
+  mismatches.length === 0 && !unresolved.some(item => item.flags.required);
+
+/**
+ * 렌더링된 URL에서 템플릿의 플레이스홀더 값을 거꾸로 찾아내는 함수
+ *
+ * 이 함수가 필요한 이유:
+ * - 템플릿 엔진은 템플릿 → URL 방향만 지원하므로, 들어온 요청을 라우팅하거나
+ *   어떤 값으로 만들어진 URL인지 확인하려면 같은 템플릿으로 반대 방향 처리가 필요
+ *
+ * 로직 설명:
+ * 1. 템플릿을 AST로 파싱하고 URL을 같은 규칙(parseUrlComponents)으로 나눔
+ * 2. 세그먼트/호스트 라벨/쿼리 key·value마다 문자열 조각과 값 자리로 이루어진 패턴을 만들어
+ *    디코딩된 URL 구성요소와 전체 일치로 비교 (PROC=!@{NAME} 같은 치환 값도 앞뒤 문자열로 위치를 찾음)
+ * 3. 선택 그룹과 내용 전체가 선택 그룹인 세그먼트는 빠진 경우까지 고려
+ * 4. 맞지 않는 부분은 예외 대신 위치 정보를 담은 불일치 목록으로 반환
+ *
+ * 한계:
+ * - 값은 렌더링된 결과 그대로 (타입 변환/암호화를 되돌리지 않음, e 플래그 값은 암호문)
+ * - 중첩된 플레이스홀더(e{PROC=!@r{NAME}})는 바깥 플레이스홀더 하나의 값으로 캡처
+ * - drop 정책으로 빠진 세그먼트는 고려하지 않음
+ *
+ * @example
+ * matchUrl('https://api.com/users/{A_TYPE_1}?where=PROC=!@{NAME}', 'https://api.com/users/42?where=PROC=!@bob')
+ * // { matched: true, params: { A_TYPE_1: '42', NAME: 'bob' }, values: [...], unresolved: [], mismatches: [] }
+ *
+ * @param template 템플릿 문자열 또는 parseTemplate 결과
+ * @param concreteUrl 렌더링된 URL
+ * @param options 매칭 옵션
+ * @returns 찾아낸 값과 불일치 목록
+ */
+export const matchUrl = (
+  template: string | UrlNode,
+  concreteUrl: string,
+  options: MatchUrlOptions = {}
+): UrlMatchResult => {
+  const ast = typeof template === 'string' ? parseTemplate(template, options) : template;
+  const concrete = parseUrlComponents(concreteUrl);
+  const lossless = !!options.lossless;
+  const state: MatchState = { values: [], unresolved: [], mismatches: [] };
+
+  // 1단계: 프로토콜/호스트 (경로만 있는 URL은 호스트를 비교하지 않음)
+  if (concrete.protocol) {
+    matchHost(ast, concrete, state);
+  }
+
+  // 2단계: 경로와 쿼리
+  matchPath(ast.path, concrete.path, { location: 'url', prefix: '' }, MatchMismatchCode.PATH_MISMATCH, lossless, state);
+  matchQuery(ast.query, concrete.query, { location: 'query', prefix: '' }, options, state);
+
+  // 3단계: fragment (템플릿에 fragment가 없으면 URL의 fragment는 무시)
+  if (ast.fragment) {
+    const fragmentScope: MatchScope = { location: 'fragment', prefix: 'fragment.' };
+    const queryIndex = concrete.fragment.indexOf('?');
+    const fragmentPath = queryIndex === -1 ? concrete.fragment : concrete.fragment.substring(0, queryIndex);
+    const fragmentQuery = queryIndex === -1 ? '' : concrete.fragment.substring(queryIndex + 1);
+
+    matchPath(ast.fragment.path, fragmentPath, fragmentScope, MatchMismatchCode.FRAGMENT_MISMATCH, lossless, state);
+    matchQuery(ast.fragment.query, fragmentQuery, fragmentScope, options, state);
+  }
+
+  // 템플릿 작성 순서로 정렬한 뒤 이름별 첫 값을 params로
+  const values = state.values.sort((a, b) => a.range.start - b.range.start);
+  const params: Record<string, string> = {};
+  values.forEach(item => {
+    if (!(item.name in params)) params[item.name] = item.value;
+  });
+
+  return {
+    matched: isMatchComplete(state.mismatches, state.unresolved),
+    values,
+    params,
+    unresolved: state.unresolved.sort((a, b) => a.range.start - b.range.start),
+    mismatches: state.mismatches.sort((a, b) => a.range.start - b.range.start || a.range.end - b.range.end)
+  };
+};
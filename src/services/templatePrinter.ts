@@ -0,0 +1,170 @@
+import {
+  UrlNode,
+  HostNode,
+  PathNode,
+  SegmentNode,
+  QueryNode,
+  GlobalGroupNode,
+  PairNode,
+  FragmentNode,
+  ValueNode,
+  PlaceholderNode
+} from '../types/ast.types';
+import { ParameterFlags, ParseResult } from '../types/parser.types';
+import { parseValueParts } from '../parsers/templateParser';
+import { BUILT_IN_FLAGS, defaultFlagRegistry } from '../utils/flagRegistry';
+
+/**
+ * printTemplate 옵션
+ */
+export interface PrintTemplateOptions {
+  /**
+   * 플래그 문자 순서 (기본값: 'canonical')
+   * - canonical: 기본 플래그 e, r, v 다음 확장 플래그를 적용 순서대로 (re{A} → er{A})
+   * - written: 작성된 순서 유지, 새로 켠 플래그만 canonical 순서로 뒤에 추가
+   */
+  flagOrder?: 'canonical' | 'written';
+}
+
+/**
+ * 켜져 있는 플래그 문자를 canonical 순서로 나열
+ */
+const getCanonicalFlagLetters = (flags: ParameterFlags): string[] => {
+  const builtIn = (Object.keys(BUILT_IN_FLAGS) as Array<keyof typeof BUILT_IN_FLAGS>)
+    .filter(letter => flags[BUILT_IN_FLAGS[letter]]);
+  const custom = defaultFlagRegistry.list()
+    .filter(definition => flags.custom?.includes(definition.name))
+    .map(definition => definition.letter);
+  return [...builtIn, ...custom];
+};
+
+/**
+ * 플래그 객체를 플래그 문자열로 출력
+ *
+ * flagString이 아닌 flags 객체를 기준으로 하므로 AST에서 flags만 바꿔도 반영되며,
+ * 중복된 문자(ee{A})는 하나로 합쳐짐
+ */
+const printFlags = (flags: ParameterFlags, flagString: string, options: PrintTemplateOptions): string => {
+  const letters = getCanonicalFlagLetters(flags);
+  if (options.flagOrder !== 'written') {
+    return letters.join('');
+  }
+
+  const written = [...new Set(flagString)].filter(letter => letters.includes(letter));
+  return [...written, ...letters.filter(letter => !written.includes(letter))].join('');
+};
+
+/**
+ * 중괄호 안의 내용을 출력
+ *
+ * - 리터럴(v)은 내용 전체가 값이므로 name 그대로
+ * - 안에 중괄호 패턴이 있으면(PROC=!@r{NAME}, a={A}&b=1) 자식 노드를 다시 출력하여 안쪽 플래그도 정규화
+ * - 그 외에는 타입 선언, 이름, 기본값으로 다시 조립 ({A:NAME|guest})
+ */
+const printPlaceholderContent = (node: PlaceholderNode, options: PrintTemplateOptions): string => {
+  if (node.flags.literal) {
+    return node.name;
+  }
+  if (node.defaultValue === null && node.children.some(child => child.kind === 'Placeholder')) {
+    return printValueParts(node.children, options);
+  }
+
+  const typePrefix = node.declaredType ? `${node.declaredType}:` : '';
+  const defaultSuffix = node.defaultValue === null
+    ? ''
+    : `|${printValueParts(parseValueParts(node.defaultValue), options)}`;
+  return `${typePrefix}${node.name}${defaultSuffix}`;
+};
+
+const printValueParts = (parts: ValueNode[], options: PrintTemplateOptions): string => {
+  return parts.map(part => part.kind === 'Text'
+    ? part.value
+    : `${printFlags(part.flags, part.flagString, options)}{${printPlaceholderContent(part, options)}}`
+  ).join('');
+};
+
+const printSegment = (segment: SegmentNode, options: PrintTemplateOptions): string => {
+  return printValueParts(segment.parts, options);
+};
+
+const printHost = (host: HostNode, options: PrintTemplateOptions): string => {
+  const userinfo = host.userinfo ? `${printValueParts(host.userinfo.parts, options)}@` : '';
+  const hostname = host.labels.map(label => printSegment(label, options)).join('.');
+  const port = host.port ? `:${printValueParts(host.port.parts, options)}` : '';
+  return `${userinfo}${hostname}${port}`;
+};
+
+const printPath = (path: PathNode, options: PrintTemplateOptions): string => {
+  // 맨 앞의 빈 세그먼트가 선행 / 를 만들고, 빈 세그먼트(//, 끝의 /)도 그대로 출력
+  return path.segments.map(segment => printSegment(segment, options)).join('/');
+};
+
+const printPair = (pair: PairNode, options: PrintTemplateOptions): string => {
+  const key = printValueParts(pair.keyParts, options);
+  return pair.value === null ? key : `${key}=${printValueParts(pair.valueParts, options)}`;
+};
+
+/**
+ * 쿼리 출력 (전역 그룹은 항상 `플래그{쌍&쌍}` 한 덩어리로)
+ */
+const printQuery = (query: QueryNode | GlobalGroupNode, options: PrintTemplateOptions): string => {
+  const pairs = query.pairs.map(pair => printPair(pair, options)).join('&');
+  return query.kind === 'GlobalGroup'
+    ? `${printFlags(query.flags, query.flagString, options)}{${pairs}}`
+    : pairs;
+};
+
+const printFragment = (fragment: FragmentNode, options: PrintTemplateOptions): string => {
+  const path = fragment.path ? printPath(fragment.path, options) : '';
+  const query = fragment.query ? `?${printQuery(fragment.query, options)}` : '';
+  return `${path}${query}`;
+};
+
+/**
+ * AST(또는 엔진 parse 결과)를 템플릿 문자열로 다시 출력하는 함수
+ *
+ * 이 함수가 필요한 이유:
+ * - 파싱된 구조에서 템플릿으로 돌아가는 방법이 없어 originalValue 문자열을 이어 붙이는 수밖에 없었음
+ * - 도구에서 AST를 고쳐(쿼리 추가, 플래그 변경) 저장할 수 있도록 구조 기준으로 다시 출력
+ *
+ * 출력 기준:
+ * - 노드의 raw/key/value/content 문자열이 아닌 parts, keyParts, valueParts, flags, name 등 구조를 사용
+ *   (위치 정보는 사용하지 않으므로 고친 노드의 start/end는 맞추지 않아도 됨)
+ * - 플래그는 flags 객체 기준으로 정규화 (중복 제거, 순서는 options.flagOrder)
+ * - 이스케이프(\&)와 선택 그룹([ ... ])은 일반 문자열에 남아 있으므로 작성된 그대로
+ * - decodePercent로 파싱한 AST는 디코딩된 템플릿으로 출력 (%7BA%7D → {A})
+ *
+ * @example
+ * const ast = parseTemplate('https://api.com/users/re{A_TYPE_1}?name={B_TYPE_1}');
+ * ast.query?.pairs.push(parseTemplate('?page=v{1}').query!.pairs[0]);
+ * printTemplate(ast);
+ * // 'https://api.com/users/er{A_TYPE_1}?name={B_TYPE_1}&page=v{1}'
+ *
+ * @param input parseTemplate 결과 또는 ast를 포함한 엔진 parse 결과
+ * @param options 출력 옵션
+ * @returns 템플릿 문자열
+ */
+export const printTemplate = (input: UrlNode | ParseResult, options: PrintTemplateOptions = {}): string => {
+  const ast = 'kind' in input ? input : input.ast;
+  if (!ast) {
+    throw new Error('AST가 없는 파싱 결과는 템플릿으로 출력할 수 없습니다');
+  }
+
+  let template = '';
+  if (ast.protocol) {
+    template += `${ast.protocol}://`;
+  }
+  if (ast.host) {
+    template += printHost(ast.host, options);
+  }
+  if (ast.path) {
+    template += printPath(ast.path, options);
+  }
+  if (ast.query) {
+    template += `?${printQuery(ast.query, options)}`;
+  }
+  if (ast.fragment) {
+    template += `#${printFragment(ast.fragment, options)}`;
+  }
+  return template;
+};
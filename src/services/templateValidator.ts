@@ -0,0 +1,265 @@
+import {
+  UrlNode,
+  ValueNode,
+  PlaceholderNode,
+  SourceSpan,
+  PathNode,
+  QueryNode,
+  GlobalGroupNode
+} from '../types/ast.types';
+import { ParameterType } from '../types/parser.types';
+import {
+  DiagnosticCode,
+  DiagnosticSeverity,
+  TemplateDiagnostic
+} from '../types/diagnostic.types';
+import { parseTemplate, parseValueParts, walkTemplate } from '../parsers/templateParser';
+import { detectParameterType, maskEscapes } from '../utils/parser.utils';
+import { isFlagLetter } from '../utils/flagRegistry';
+
+const createDiagnostic = (
+  code: DiagnosticCode,
+  severity: DiagnosticSeverity,
+  message: string,
+  range: SourceSpan
+): TemplateDiagnostic => ({ code, severity, message, range });
+
+/**
+ * 중괄호 짝을 검사하는 함수
+ *
+ * AST 파서는 짝이 맞지 않는 중괄호를 일반 문자열로 취급하므로,
+ * 원본 구성요소(호스트, 세그먼트, 쿼리) 단위로 다시 스택 검사를 수행
+ *
+ * - 스택이 빈 상태에서 } → UNEXPECTED_CLOSING_BRACE (해당 문자 위치)
+ * - 끝까지 닫히지 않은 { → UNCLOSED_BRACE ({ 부터 구성요소 끝까지)
+ *
+ * @param text 검사할 구성요소 원본
+ * @param offset 원본 템플릿에서의 시작 위치
+ * @param diagnostics 결과를 추가할 배열
+ */
+const checkBraceBalance = (text: string, offset: number, diagnostics: TemplateDiagnostic[]) => {
+  const stack: number[] = [];
+  const masked = maskEscapes(text); // 이스케이프된 \{ \}는 검사 대상 아님
+
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === '{') {
+      stack.push(i);
+    } else if (masked[i] === '}') {
+      if (stack.length === 0) {
+        diagnostics.push(createDiagnostic(
+          DiagnosticCode.UNEXPECTED_CLOSING_BRACE,
+          'error',
+          '여는 중괄호 없이 닫는 중괄호 }가 있습니다',
+          { start: offset + i, end: offset + i + 1 }
+        ));
+      } else {
+        stack.pop();
+      }
+    }
+  }
+
+  stack.forEach(openIndex => {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.UNCLOSED_BRACE,
+      'error',
+      '중괄호 {가 닫히지 않았습니다',
+      { start: offset + openIndex, end: offset + text.length }
+    ));
+  });
+};
+
+/**
+ * 값 전체가 "소문자들{...}" 형태일 때 플래그 자리에 등록되지 않은 문자가 있는지 검사
+ *
+ * 예: name=x{A_TYPE_1} → x는 플래그가 아니므로 "x" + {A_TYPE_1} 치환으로 처리됨
+ *
+ * @param parts 값의 AST 노드들
+ * @param valueEnd 값의 끝 위치
+ * @param diagnostics 결과를 추가할 배열
+ */
+const checkUnknownFlags = (parts: ValueNode[], valueEnd: number, diagnostics: TemplateDiagnostic[]) => {
+  if (parts.length !== 2) return;
+
+  const [text, placeholder] = parts;
+  if (text.kind !== 'Text' || placeholder.kind !== 'Placeholder' || placeholder.end !== valueEnd) return;
+  if (!/^[a-z]+$/.test(text.value)) return;
+
+  const unknownLetters = [...new Set(text.value.split('').filter(char => !isFlagLetter(char)))];
+  if (unknownLetters.length === 0) return;
+
+  diagnostics.push(createDiagnostic(
+    DiagnosticCode.UNKNOWN_FLAG,
+    'warning',
+    `등록되지 않은 플래그 문자 '${unknownLetters.join("', '")}'는 일반 문자로 처리됩니다`,
+    { start: text.start, end: text.end }
+  ));
+};
+
+/**
+ * 개별 중괄호 패턴을 검사하는 함수
+ * - 빈 내용, 중복 플래그, 변환 불가능한 타입
+ */
+const checkPlaceholder = (node: PlaceholderNode, diagnostics: TemplateDiagnostic[]) => {
+  const range = { start: node.start, end: node.end };
+
+  if (node.content.trim() === '') {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.EMPTY_PLACEHOLDER,
+      'error',
+      '중괄호 안에 값이 없습니다',
+      range
+    ));
+    return;
+  }
+
+  const duplicated = [...new Set(node.flagString.split('').filter(
+    (char, index, chars) => chars.indexOf(char) !== index
+  ))];
+  if (duplicated.length > 0) {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.DUPLICATE_FLAG,
+      'warning',
+      `플래그 '${duplicated.join("', '")}'가 중복되었습니다`,
+      { start: node.start, end: node.start + node.flagString.length }
+    ));
+  }
+
+  // 중첩 패턴이나 key=value를 담은 중괄호는 타입 변환 대상이 아님
+  // ({NAME|v{OTHER}}처럼 기본값에만 중괄호가 있으면 이름은 변환 대상)
+  const isLeaf = node.defaultValue !== null ||
+    (node.children.every(child => child.kind === 'Text') && !maskEscapes(node.content).includes('='));
+  if (
+    isLeaf &&
+    !node.flags.literal &&
+    !node.declaredType &&
+    detectParameterType(node.name) === ParameterType.UNKNOWN
+  ) {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.UNKNOWN_TYPE,
+      'warning',
+      `"${node.name}"는 등록된 타입 목록에 없어 변환되지 않습니다`,
+      range
+    ));
+  }
+};
+
+/**
+ * 전역 그룹의 플래그 검사
+ * - 중복 플래그
+ * - 확장 플래그: 전역 그룹은 내용 전체를 직렬화/암호화만 하므로 값 변환 단계가 적용되지 않음
+ *   (?u{a={A_TYPE_1}}가 대문자화 없이 a=값으로 렌더링되므로 error)
+ */
+const checkGlobalFlags = (node: GlobalGroupNode, diagnostics: TemplateDiagnostic[]) => {
+  const range = { start: node.start, end: node.start + node.flagString.length };
+
+  if (new Set(node.flagString).size !== node.flagString.length) {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.DUPLICATE_FLAG,
+      'warning',
+      '전역 플래그가 중복되었습니다',
+      range
+    ));
+  }
+
+  if (node.flags.custom?.length) {
+    diagnostics.push(createDiagnostic(
+      DiagnosticCode.UNSUPPORTED_GLOBAL_FLAG,
+      'error',
+      `전역 그룹에는 확장 플래그 '${node.flags.custom.join("', '")}'가 적용되지 않습니다 (안쪽 값에 붙여야 함)`,
+      range
+    ));
+  }
+};
+
+/**
+ * 경로 세그먼트와 쿼리 원본의 중괄호 짝/플래그 검사 (URL 본문과 fragment에 공통 적용)
+ */
+const checkPathAndQuery = (
+  path: PathNode | null,
+  query: QueryNode | GlobalGroupNode | null,
+  diagnostics: TemplateDiagnostic[]
+) => {
+  path?.segments.forEach(segment => {
+    checkBraceBalance(segment.raw, segment.start, diagnostics);
+    checkUnknownFlags(segment.parts, segment.end, diagnostics);
+  });
+  if (query) {
+    checkBraceBalance(query.raw, query.start, diagnostics);
+    // ?x{...}처럼 쿼리 전체가 잘못된 전역 그룹인 경우
+    checkUnknownFlags(parseValueParts(query.raw, query.start), query.end, diagnostics);
+  }
+};
+
+/**
+ * 템플릿의 문법 오류와 작성 실수를 진단하는 함수
+ *
+ * 이 함수가 필요한 이유:
+ * - 파서는 짝이 맞지 않는 중괄호, 빈 {}, 알 수 없는 플래그를 조용히 허용하고 그대로 진행함
+ *   (쿼리 분할은 깊이가 음수가 되어도 계속되고, 파라미터 패턴은 매칭에 실패할 뿐)
+ * - 그 결과 오류 없이 엉뚱한 URL이 만들어지므로, 렌더링 전에 원인과 위치를 알려줘야 함
+ *
+ * 진단 항목 (코드는 DiagnosticCode 참조):
+ * - error: UNCLOSED_BRACE, UNEXPECTED_CLOSING_BRACE, EMPTY_PLACEHOLDER, UNSUPPORTED_GLOBAL_FLAG
+ * - warning: UNKNOWN_FLAG, DUPLICATE_FLAG, UNKNOWN_TYPE, EMPTY_QUERY_KEY, MISSING_QUERY_VALUE
+ *
+ * @example
+ * validateTemplate('http://h/users/{A_TYPE_1?name=}x')
+ * // [{ code: 'UNCLOSED_BRACE', severity: 'error', range: { start: 15, end: 24 }, ... }, ...]
+ *
+ * @param input 템플릿 문자열 또는 parseTemplate 결과
+ * @returns 위치 순으로 정렬된 진단 목록 (문제가 없으면 빈 배열)
+ */
+export const validateTemplate = (input: string | UrlNode): TemplateDiagnostic[] => {
+  const ast = typeof input === 'string' ? parseTemplate(input) : input;
+  const diagnostics: TemplateDiagnostic[] = [];
+
+  // 1단계: 구성요소별 중괄호 짝 검사
+  if (ast.host) {
+    checkBraceBalance(ast.host.raw, ast.host.start, diagnostics);
+  }
+  checkPathAndQuery(ast.path, ast.query, diagnostics);
+  if (ast.fragment) {
+    checkPathAndQuery(ast.fragment.path, ast.fragment.query, diagnostics);
+  }
+
+  // 2단계: 노드별 검사
+  walkTemplate(ast, node => {
+    if (node.kind === 'Placeholder') {
+      checkPlaceholder(node, diagnostics);
+    } else if (node.kind === 'GlobalGroup') {
+      checkGlobalFlags(node, diagnostics);
+    } else if (node.kind === 'Pair') {
+      const range = { start: node.start, end: node.end };
+      if (node.value === null) {
+        diagnostics.push(createDiagnostic(
+          DiagnosticCode.MISSING_QUERY_VALUE,
+          'warning',
+          `"${node.raw}"에 =가 없어 결과에서 제외됩니다 (lossless 모드에서는 key만 유지)`,
+          range
+        ));
+      } else if (!node.key) {
+        diagnostics.push(createDiagnostic(
+          DiagnosticCode.EMPTY_QUERY_KEY,
+          'warning',
+          'key가 비어 있어 결과에서 제외됩니다',
+          range
+        ));
+      } else {
+        // key에도 플레이스홀더를 쓸 수 있으므로 x{A_TYPE_1}=1 같은 key도 같은 검사
+        checkUnknownFlags(node.keyParts, node.keySpan.end, diagnostics);
+        if (node.valueSpan) {
+          checkUnknownFlags(node.valueParts, node.valueSpan.end, diagnostics);
+        }
+      }
+    }
+  });
+
+  return diagnostics.sort((a, b) => a.range.start - b.range.start || a.range.end - b.range.end);
+};
+
+/**
+ * 진단 목록에서 error 심각도만 추림
+ */
+export const getTemplateErrors = (diagnostics: TemplateDiagnostic[]): TemplateDiagnostic[] => {
+  return diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+};
@@ -7,9 +7,107 @@ import {
   Encryptor,
   ParameterType,
   ProcessingMode,
-  TransformationTrace
+  TransformationTrace,
+  EncodingContext,
+  ParameterFlags,
+  FailurePolicy
 } from '../types/parser.types';
-import { getFinalValue, processSubstitution } from '../utils/parser.utils';
+import {
+  getFinalValue,
+  runValuePipeline,
+  isValidValue,
+  resolveFailurePolicy,
+  describeConversionFailure,
+  describeTransformFailure,
+  isQueryKeyExcluded
+} from '../utils/parser.utils';
+import { isConvertibleType, resolveTypeConverter } from '../utils/typeRegistry';
+import { percentEncode, isEncodingSkipped } from '../utils/percentEncoding';
+import { PlaceholderConversionError } from '../errors/templateErrors';
+import { ValueNode } from '../types/ast.types';
+import { parseValueParts } from '../parsers/templateParser';
+import { substituteOptionalGroups, resolveDefaultParts } from './substitutionService';
+
+/**
+ * 값이 들어갈 위치에 맞는 인코딩 함수를 만드는 함수
+ *
+ * @param flags 값의 플래그 (skipEncoding 플래그가 있으면 인코딩하지 않음)
+ * @param encodingContext 값이 들어갈 위치 (없으면 인코딩하지 않음)
+ * @returns 인코딩 함수 또는 undefined
+ */
+const createEncoder = (
+  flags: ParameterFlags,
+  encodingContext?: EncodingContext
+): ((value: string) => string) | undefined => {
+  if (!encodingContext || isEncodingSkipped(flags)) return undefined;
+  return (value) => percentEncode(value, encodingContext);
+};
+
+/**
+ * 치환 모드 값 전체에 암호화/확장 플래그가 걸려 있는지 확인
+ *
+ * 이 경우 치환 중에는 인코딩하지 않고 (암호화 대상 평문이 바뀌지 않도록)
+ * 전체 결과를 마지막에 한 번 인코딩함
+ */
+const transformsWholeValue = (flags: ParameterFlags): boolean => {
+  return flags.encrypted || !!flags.custom?.length;
+};
+
+/**
+ * 안쪽 플레이스홀더에 drop 정책이 적용되었는지 기록하는 추적 콜백을 만드는 함수
+ *
+ * 치환 결과는 문자열 하나이므로, 값이 속한 세그먼트/쿼리 전체를 제외해야 한다는 사실은
+ * 안쪽 추적 정보의 failurePolicy로 전달받음 (기본값 안의 플레이스홀더도 같은 값에 속함)
+ *
+ * @param forward 원래 전달할 추적 콜백 (없으면 기록만 함)
+ */
+const createDropWatcher = (
+  forward?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
+) => {
+  let dropped = false;
+  return {
+    onTrace: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => {
+      if (trace.failurePolicy === 'drop') dropped = true;
+      forward?.(trace, location, identifier);
+    },
+    isDropped: () => dropped
+  };
+};
+
+/** 변환 추적 콜백 (위치와 identifier는 호출하는 쪽에서 지정) */
+type InnerTraceCallback = (
+  trace: Omit<TransformationTrace, 'location' | 'identifier'>,
+  location: 'url' | 'query',
+  identifier: string
+) => void;
+
+/**
+ * 쿼리 안의 추적 정보에 key/value 중 어디에서 발견되었는지 표시하는 콜백을 만드는 함수
+ */
+const tagQueryPart = (part: 'key' | 'value', onInnerTrace?: InnerTraceCallback): InnerTraceCallback | undefined => {
+  return onInnerTrace
+    ? (trace, location, identifier) => onInnerTrace({ ...trace, part }, location, identifier)
+    : undefined;
+};
+
+/** 선택 그룹을 포함한 치환 결과 */
+type SubstitutionResult = Awaited<ReturnType<typeof substituteOptionalGroups>>;
+
+/**
+ * 치환 모드 값에서 치환할 노드들 (parts가 없는 직접 만든 파라미터는 추출값을 파싱)
+ */
+const getSubstitutionParts = (param: ParsedParameter): ValueNode[] => {
+  return param.parts ?? parseValueParts(param.extractedValue || param.originalValue);
+};
+
+/**
+ * 파라미터 모드 값의 기본값 노드들 (기본값이 없으면 null)
+ */
+const getDefaultParts = (param: ParsedParameter): ValueNode[] | null => {
+  const [placeholder] = param.parts ?? [];
+  if (placeholder?.kind === 'Placeholder') return placeholder.defaultParts;
+  return param.defaultValue === null || param.defaultValue === undefined ? null : parseValueParts(param.defaultValue);
+};
 
 /**
  * SUBSTITUTION 모드 변환을 처리하는 함수
@@ -18,17 +116,21 @@ const handleSubstitutionMode = async <T extends ParsedParameter>(
   param: T,
   typeConverter?: TypeConverter,
   encryptor?: Encryptor,
-  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
-): Promise<string> => {
-  return await processSubstitution(
-    param.extractedValue || param.originalValue,
+  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void,
+  encode?: (value: string) => string,
+  onFailure?: FailurePolicy
+): Promise<SubstitutionResult> => {
+  return await substituteOptionalGroups(
+    getSubstitutionParts(param),
     typeConverter,
     encryptor,
     onInnerTrace ? (trace) => {
       const location = 'key' in param ? 'query' : 'url';
       const identifier = 'key' in param ? (param as { key: string }).key : 'segment';
       onInnerTrace(trace, location, identifier);
-    } : undefined
+    } : undefined,
+    encode,
+    onFailure
   );
 };
 
@@ -40,19 +142,100 @@ const handleParameterMode = async <T extends ParsedParameter>(
   typeConverter?: TypeConverter
 ): Promise<string | null> => {
   if (param.extractedValue && !param.flags.literal) {
-    if (typeConverter && param.type !== ParameterType.UNKNOWN && param.type !== ParameterType.LITERAL) {
+    // 타입 전용 converter가 등록되어 있으면 우선 사용
+    const converter = resolveTypeConverter(param.type, typeConverter);
+    if (converter && isConvertibleType(param.type)) {
       try {
-        return await typeConverter(param.extractedValue, param.type);
-      } catch (error) {
-        console.error('Type conversion failed:', error);
+        return await converter(param.extractedValue, param.type);
+      } catch {
+        // 변환 실패는 null로 처리 (trace의 failureReason에 기록됨)
       }
     }
   }
   return null;
 };
 
+/**
+ * 변환에 실패한 파라미터의 기본값({A_TYPE_1|guest}, {A_TYPE_1|v{OTHER}})을 만드는 함수
+ *
+ * 기본값 안의 플레이스홀더 추적은 치환 모드 내부 추적과 같은 방식으로 기록됨
+ *
+ * @returns 기본값 (기본값 문법이 없거나 기본값도 만들지 못하면 null)
+ */
+const handleDefaultValue = async <T extends ParsedParameter>(
+  param: T,
+  typeConverter?: TypeConverter,
+  encryptor?: Encryptor,
+  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
+): Promise<string | null> => {
+  const defaultParts = getDefaultParts(param);
+  if (defaultParts === null || param.flags.literal) {
+    return null;
+  }
+
+  return await resolveDefaultParts(
+    defaultParts,
+    typeConverter,
+    encryptor,
+    onInnerTrace ? (trace) => {
+      const location = 'key' in param ? 'query' : 'url';
+      const identifier = 'key' in param ? (param as { key: string }).key : 'segment';
+      onInnerTrace(trace, location, identifier);
+    } : undefined
+  );
+};
+
+/**
+ * 파라미터 모드 값의 변환 실패 처리 방법을 결정하는 함수
+ *
+ * 실패 기준은 재구성시 제외 기준(isValidValue)과 같음
+ * 치환 모드 값은 안쪽 플레이스홀더마다 따로 결정되고, 기본값이 사용된 값은 실패가 아님
+ *
+ * @returns 적용할 처리 방법 (실패하지 않았으면 undefined, throw면 PlaceholderConversionError 발생)
+ */
+const resolveParameterFailure = (
+  param: ParsedParameter,
+  convertedValue: string | null,
+  handled: boolean,
+  typeConverter?: TypeConverter,
+  onFailure?: FailurePolicy
+): FailurePolicy | undefined => {
+  if (handled || isValidValue(param.type, param.extractedValue, convertedValue, param.flags)) {
+    return undefined;
+  }
+
+  const policy = resolveFailurePolicy(param.flags, param.type, onFailure);
+  if (policy === 'throw') {
+    throw new PlaceholderConversionError(
+      param.extractedValue || param.originalValue,
+      param.type,
+      describeConversionFailure(param.type, param.extractedValue, !!resolveTypeConverter(param.type, typeConverter))
+    );
+  }
+  return policy;
+};
+
+/**
+ * 확장 플래그 변환이나 암호화에 실패한 값의 처리 방법을 결정하는 함수
+ *
+ * 변환값(리터럴 값, 기본값, 치환 결과 포함)이 있어도 변환 실패와 같이 onFailure를 적용
+ * (암호화되지 않은 평문이 출력되지 않도록 keep은 작성된 패턴, 나머지는 빈 값을 사용)
+ *
+ * @returns 적용할 처리 방법 (throw면 PlaceholderConversionError 발생)
+ */
+const resolveTransformFailure = (param: ParsedParameter, onFailure?: FailurePolicy): FailurePolicy => {
+  const policy = resolveFailurePolicy(param.flags, param.type, onFailure);
+  if (policy === 'throw') {
+    const name = param.extractedValue || param.originalValue;
+    throw new PlaceholderConversionError(name, param.type, describeTransformFailure(param.flags, name));
+  }
+  return policy;
+};
+
 /**
  * 암호화 처리를 수행하는 함수
+ *
+ * encryptor의 예외는 그대로 전달되어 runValuePipeline에서 값 전체의 실패로 처리됨
  */
 const handleEncryption = async (
   param: ParsedParameter,
@@ -65,14 +248,91 @@ const handleEncryption = async (
 
   // 암호화할 값 선택: 변환값 > 리터럴값 > null
   const valueToEncrypt = convertedValue || (param.flags.literal ? param.extractedValue : null);
-  if (valueToEncrypt) {
-    try {
-      return await encryptor(valueToEncrypt);
-    } catch (error) {
-      console.error('Encryption failed:', error);
-    }
+  return valueToEncrypt ? await encryptor(valueToEncrypt) : null;
+};
+
+/**
+ * 확장 플래그 변환과 암호화를 함께 처리하는 함수
+ * 
+ * 처리 순서: 변환값(또는 리터럴) → beforeEncrypt 플래그 → 암호화 → afterEncrypt 플래그
+ * 확장 플래그가 있으면 convertedValue는 암호화 직전 값으로 갱신됨
+ * 확장 플래그 변환이나 암호화에 실패하면 convertedValue도 null (failed: true)
+ */
+const handleFlagsAndEncryption = async (
+  param: ParsedParameter,
+  convertedValue: string | null,
+  encryptor?: Encryptor
+): Promise<{ convertedValue: string | null; encryptedValue: string | null; failed: boolean }> => {
+  const baseValue = convertedValue || (param.flags.literal ? param.extractedValue : null);
+  const { value, encryptedValue, failed } = await runValuePipeline(
+    baseValue,
+    param.flags,
+    (valueToEncrypt) => handleEncryption(param, valueToEncrypt, encryptor)
+  );
+  
+  return {
+    convertedValue: param.flags.custom?.length || failed ? value : convertedValue,
+    encryptedValue,
+    failed
+  };
+};
+
+/**
+ * 치환 결과에 값 전체 플래그(확장 플래그, 암호화)를 적용해 최종값을 만드는 함수
+ *
+ * @param encodeWhole 값 전체를 마지막에 한 번 인코딩할 때의 인코딩 함수 (삽입값만 인코딩했으면 없음)
+ */
+const finalizeSubstitution = async (
+  param: ParsedParameter,
+  substitutedValue: string,
+  encryptor?: Encryptor,
+  encodeWhole?: (value: string) => string
+): Promise<{ convertedValue: string | null; encryptedValue: string | null; finalValue: string; failed: boolean }> => {
+  const { convertedValue, encryptedValue, failed } = await handleFlagsAndEncryption(param, substitutedValue, encryptor);
+  const finalValue = encryptedValue || convertedValue || '';
+  return { convertedValue, encryptedValue, finalValue: encodeWhole ? encodeWhole(finalValue) : finalValue, failed };
+};
+
+/**
+ * 치환 모드 값 전체의 확장 플래그 변환/암호화 실패 결과 필드를 만드는 함수
+ *
+ * 실패하지 않았으면 빈 객체, keep이면 작성된 값을 그대로 (인코딩은 값 전체 기준)
+ */
+const toTransformFailureFields = (
+  param: ParsedParameter,
+  failed: boolean,
+  onFailure?: FailurePolicy,
+  encodeWhole?: (value: string) => string
+): Partial<Pick<ParsedParameter, 'transformFailed' | 'failurePolicy' | 'finalValue'>> => {
+  if (!failed) return {};
+  const failurePolicy = resolveTransformFailure(param, onFailure);
+  const finalValue = failurePolicy === 'keep' ? param.originalValue : '';
+  return { transformFailed: true, failurePolicy, finalValue: encodeWhole ? encodeWhole(finalValue) : finalValue };
+};
+
+/**
+ * 치환 결과의 선택 그룹 정보를 변환 결과 필드로 만드는 함수
+ *
+ * - omitted: 값 전체가 생략된 그룹일 때만 설정
+ * - strictValue: STRICT 모드 값이 DEFAULT 값과 다를 때만 설정 (값 전체 플래그/암호화와 인코딩도 똑같이 적용)
+ */
+const toOptionalGroupFields = async (
+  param: ParsedParameter,
+  substituted: SubstitutionResult,
+  encryptor?: Encryptor,
+  encodeWhole?: (value: string) => string
+): Promise<Pick<ParsedParameter, 'omitted' | 'strictValue'>> => {
+  const fields: Pick<ParsedParameter, 'omitted' | 'strictValue'> = {};
+  if (substituted.omitted) {
+    fields.omitted = true;
   }
-  return null;
+  if (substituted.strictOmitted) {
+    fields.strictValue = null;
+  } else if (substituted.strictValue !== substituted.value) {
+    const strict = await finalizeSubstitution(param, substituted.strictValue, encryptor, encodeWhole);
+    fields.strictValue = strict.failed ? null : strict.finalValue;
+  }
+  return fields;
 };
 
 /**
@@ -80,13 +340,14 @@ const handleEncryption = async (
  * 
  * 이 함수가 처리하는 변환 과정:
  * 1. 처리 모드 확인 (파라미터 vs 치환)
- * 2. 타입 변환 (A/B 타입 → API 호출)
- * 3. 암호화 (e 플래그 → 암호화 API 호출)
- * 4. 최종값 결정 (우선순위 적용)
+ * 2. 타입 변환 (A/B 타입 → API 호출), 실패시 처리 방법이 default면 {NAME|기본값}의 기본값으로 대체
+ * 3. 확장 플래그 + 암호화 (등록된 플래그 변환, e 플래그 → 암호화 API 호출)
+ * 4. 변환 실패 처리 방법 결정 (onFailure: default/mode/keep/empty/drop/throw, 확장 플래그/암호화 실패도 변환 실패)
+ * 5. 최종값 결정 (우선순위 적용)
  * 
  * 처리 모드별 차이점:
  * - 파라미터 모드: 단순 값 변환 (e{A_TYPE_1} → 변환 → 암호화)
- * - 치환 모드: 복잡한 문자열 치환 (processSubstitution 호출)
+ * - 치환 모드: 복잡한 문자열 치환 (substituteOptionalGroups 호출)
  * 
  * 값 우선순위 (getFinalValue에서 적용):
  * 1. 암호화된 값 (최우선)
@@ -97,31 +358,66 @@ const handleEncryption = async (
  * @param param 파싱된 파라미터 객체
  * @param typeConverter 타입 변환 함수 (선택적)
  * @param encryptor 암호화 함수 (선택적)
+ * @param onInnerTrace 치환 모드 내부 변환 추적 콜백 (선택적)
+ * @param encodingContext 최종값이 들어갈 위치 - 지정하면 위치에 맞게 퍼센트 인코딩 (선택적)
+ * @param onFailure 변환 실패시 처리 방법 - 플래그/타입 정의의 onFailure가 우선 (선택적, 기본값: default)
  * @returns 변환 완료된 파라미터 객체
  */
 export const transformParameter = async <T extends ParsedParameter>(
   param: T,
   typeConverter?: TypeConverter,
   encryptor?: Encryptor,
-  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
+  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void,
+  encodingContext?: EncodingContext,
+  onFailure?: FailurePolicy
 ): Promise<T> => {
+  const encode = createEncoder(param.flags, encodingContext);
+  // 안쪽 플레이스홀더(치환 모드, 기본값)의 drop 정책은 이 값 전체를 제외
+  const dropWatcher = createDropWatcher(onInnerTrace);
+  const isSubstitution = 'processingMode' in param &&
+    (param as { processingMode: ProcessingMode }).processingMode === ProcessingMode.SUBSTITUTION;
+  // 치환 모드는 삽입되는 값만 인코딩 (템플릿에 작성된 문자열은 URL 구조이므로 그대로)
+  const encodesInserted = isSubstitution && !transformsWholeValue(param.flags);
   
   // 1단계: 처리 모드별 변환 (항상 DEFAULT 모드로 처리)
-  let convertedValue: string | null = null;
+  let typeConvertedValue: string | null = null;
+  let substituted: SubstitutionResult | null = null;
   
-  if ('processingMode' in param && (param as { processingMode: ProcessingMode }).processingMode === ProcessingMode.SUBSTITUTION) {
-    // 치환 모드: 복잡한 문자열 내부의 중괄호들을 처리
-    convertedValue = await handleSubstitutionMode(param, typeConverter, encryptor, onInnerTrace);
+  if (isSubstitution) {
+    // 치환 모드: 복잡한 문자열 내부의 중괄호들을 처리 (선택 그룹은 STRICT 모드 값도 함께)
+    substituted = await handleSubstitutionMode(
+      param,
+      typeConverter,
+      encryptor,
+      dropWatcher.onTrace,
+      encodesInserted ? encode : undefined,
+      onFailure
+    );
+    typeConvertedValue = substituted.value;
   } else {
     // 파라미터 모드: 단순 값 변환
-    convertedValue = await handleParameterMode(param, typeConverter);
+    typeConvertedValue = await handleParameterMode(param, typeConverter);
+  }
+  
+  // 변환에 실패했고 처리 방법이 default면 기본값으로 대체 (기본값에도 확장 플래그/암호화가 그대로 적용됨)
+  const defaultValue = !isSubstitution && !typeConvertedValue &&
+    resolveFailurePolicy(param.flags, param.type, onFailure) === 'default'
+    ? await handleDefaultValue(param, typeConverter, encryptor, dropWatcher.onTrace)
+    : null;
+  if (defaultValue !== null) {
+    typeConvertedValue = defaultValue;
   }
   
-  // 2단계: 암호화 처리
-  const encryptedValue = await handleEncryption(param, convertedValue, encryptor);
+  // 2단계: 확장 플래그 + 암호화 처리
+  const { convertedValue, encryptedValue, failed } = await handleFlagsAndEncryption(param, typeConvertedValue, encryptor);
   
-  // 3단계: 최종값 결정
-  const finalValue = getFinalValue(
+  // 3단계: 변환(기본값 포함)이나 확장 플래그/암호화에 실패했으면 처리 방법 결정
+  const failurePolicy = dropWatcher.isDropped() ? 'drop' : failed
+    ? resolveTransformFailure(param, onFailure)
+    : resolveParameterFailure(param, convertedValue, isSubstitution || defaultValue !== null, typeConverter, onFailure);
+  
+  // 4단계: 최종값 결정 (keep은 작성된 플레이스홀더, 확장 플래그/암호화 실패와 empty는 빈 값)
+  const finalValue = failurePolicy === 'keep' ? param.originalValue : failed ? '' : getFinalValue(
     param.originalValue,
     param.extractedValue,
     convertedValue,
@@ -135,7 +431,13 @@ export const transformParameter = async <T extends ParsedParameter>(
     ...param,
     convertedValue,
     encryptedValue,
-    finalValue
+    finalValue: encode && !encodesInserted ? encode(finalValue) : finalValue,
+    ...(defaultValue !== null && !failed ? { defaultUsed: true } : {}),
+    ...(failed ? { transformFailed: true } : {}),
+    ...(failurePolicy ? { failurePolicy } : {}),
+    ...(substituted
+      ? await toOptionalGroupFields(param, substituted, encryptor, encode && !encodesInserted ? encode : undefined)
+      : {})
   };
 };
 
@@ -149,16 +451,19 @@ export const transformParameter = async <T extends ParsedParameter>(
  * 
  * 처리 방식:
  * 1. 각 세그먼트의 processingMode 확인
- * 2. 치환 모드: processSubstitution 호출 + 개별 암호화
+ * 2. 치환 모드: substituteOptionalGroups 호출 + 개별 암호화
  * 3. 파라미터 모드: transformParameter 호출 (표준 로직)
  * 
  * 치환 모드 vs 파라미터 모드 차이:
- * - 치환: v{TEXT}.com → processSubstitution → TEXT.com
+ * - 치환: v{TEXT}.com → substituteOptionalGroups → TEXT.com
  * - 파라미터: e{A_TYPE_1} → transformParameter → A_TYPE_1_VALUE (암호화)
  * 
  * @param segments 파싱된 URL 세그먼트 배열
  * @param typeConverter 타입 변환 함수 (선택적)
  * @param encryptor 암호화 함수 (선택적)
+ * @param encodingContext 세그먼트 값이 들어갈 위치 (보통 PATH_SEGMENT, 지정하지 않으면 인코딩하지 않음)
+ * @param onFailure 변환 실패시 처리 방법 (선택적, 기본값: default)
+ * @param optionalGroups [ ... ]를 선택 그룹으로 처리할지 (기본값: true, 호스트 구성요소는 IPv6 리터럴 때문에 false)
  * @returns 변환 완료된 세그먼트 배열
  */
 /**
@@ -166,29 +471,44 @@ export const transformParameter = async <T extends ParsedParameter>(
  */
 const handleSegmentSubstitution = async (
   segment: ParsedSegment,
+  segmentIndex: number,
   typeConverter?: TypeConverter,
   encryptor?: Encryptor,
-  segmentIndex: number,
-  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
+  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void,
+  encodingContext?: EncodingContext,
+  onFailure?: FailurePolicy,
+  optionalGroups: boolean = true
 ): Promise<ParsedSegment> => {
+  const encode = createEncoder(segment.flags, encodingContext);
+  const wholeValue = transformsWholeValue(segment.flags);
+  const dropWatcher = createDropWatcher(onInnerTrace);
+  
   // 치환 모드 특별 처리: v{TEXT}.com → TEXT.com
-  const substitutedValue = await processSubstitution(
-    segment.extractedValue || segment.originalValue,
+  // 경로는 STRICT 모드에서 필터링하지 않으므로 선택 그룹의 STRICT 모드 값은 사용하지 않음
+  const substituted = await substituteOptionalGroups(
+    getSubstitutionParts(segment),
     typeConverter,
     encryptor,
-    onInnerTrace ? (trace) => {
-      onInnerTrace(trace, 'url', `segment-${segmentIndex}`);
-    } : undefined
+    (trace) => dropWatcher.onTrace(trace, 'url', `segment-${segmentIndex}`),
+    wholeValue ? undefined : encode,
+    onFailure,
+    optionalGroups
   );
   
-  // 치환 후 추가 암호화 (e 플래그가 있는 경우)
-  const encryptedValue = await handleEncryption(segment, substitutedValue, encryptor);
+  // 치환 후 확장 플래그 + 추가 암호화 (e 플래그가 있는 경우)
+  const encodeWhole = wholeValue ? encode : undefined;
+  const { convertedValue, encryptedValue, finalValue, failed } = await finalizeSubstitution(
+    segment, substituted.value, encryptor, encodeWhole
+  );
   
   return {
     ...segment,
-    convertedValue: substitutedValue,
+    convertedValue,
     encryptedValue,
-    finalValue: encryptedValue || substitutedValue
+    finalValue,
+    ...toTransformFailureFields(segment, failed, onFailure, encodeWhole),
+    ...(dropWatcher.isDropped() ? { failurePolicy: 'drop' as const } : {}),
+    ...(substituted.omitted ? { omitted: true } : {})
   };
 };
 
@@ -196,16 +516,22 @@ export const transformSegments = async (
   segments: ParsedSegment[],
   typeConverter?: TypeConverter,
   encryptor?: Encryptor,
-  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
+  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void,
+  encodingContext?: EncodingContext,
+  onFailure?: FailurePolicy,
+  optionalGroups: boolean = true
 ): Promise<ParsedSegment[]> => {
   return Promise.all(
     segments.map(async (segment, index) => {
       if (segment.processingMode === ProcessingMode.SUBSTITUTION) {
-        return handleSegmentSubstitution(segment, typeConverter, encryptor, index, onInnerTrace);
+        return handleSegmentSubstitution(
+          segment, index, typeConverter, encryptor, onInnerTrace, encodingContext, onFailure, optionalGroups
+        );
       } else {
         // 파라미터 모드: 표준 변환 로직 적용
         return transformParameter(segment, typeConverter, encryptor, onInnerTrace ? 
-          (trace: Omit<TransformationTrace, 'location' | 'identifier'>) => onInnerTrace(trace, 'url', `segment-${index}`) : undefined);
+          (trace: Omit<TransformationTrace, 'location' | 'identifier'>) => onInnerTrace(trace, 'url', `segment-${index}`) : undefined,
+        encodingContext, onFailure);
       }
     })
   );
@@ -221,9 +547,12 @@ export const transformSegments = async (
  * 
  * 처리 우선순위:
  * 1. 전역 쿼리 (type === 'GLOBAL') → processGlobalQuery
- * 2. 치환 모드 → processSubstitution + 개별 암호화
+ * 2. 치환 모드 → substituteOptionalGroups + 개별 암호화
  * 3. 파라미터 모드 → transformParameter (표준 로직)
  * 
+ * key에 플레이스홀더가 있으면 값보다 먼저 transformQueryKey로 변환
+ * (추적 정보는 part: 'key' / 'value'로 구분)
+ * 
  * 전역 쿼리의 특별함:
  * - ?e{name={A_TYPE_1}&value=test} 같은 형태
  * - 내부 쿼리들을 먼저 변환한 후 전체 암호화
@@ -232,6 +561,8 @@ export const transformSegments = async (
  * @param queries 파싱된 쿼리 객체 배열
  * @param typeConverter 타입 변환 함수 (선택적)
  * @param encryptor 암호화 함수 (선택적)
+ * @param encodingContext 쿼리 값의 인코딩 위치 (보통 QUERY_VALUE, 지정하지 않으면 인코딩하지 않음)
+ * @param onFailure 변환 실패시 처리 방법 (선택적, 기본값: default)
  * @returns 변환 완료된 쿼리 배열
  */
 /**
@@ -241,26 +572,38 @@ const handleQuerySubstitution = async (
   query: ParsedQuery,
   typeConverter?: TypeConverter,
   encryptor?: Encryptor,
-  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
+  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void,
+  encodingContext?: EncodingContext,
+  onFailure?: FailurePolicy
 ): Promise<ParsedQuery> => {
+  const encode = createEncoder(query.flags, encodingContext);
+  const wholeValue = transformsWholeValue(query.flags);
+  const dropWatcher = createDropWatcher(onInnerTrace);
+  
   // 치환 모드: where=PROC=!@r{NAME} → where=PROC=!@NAME_VALUE
-  const substitutedValue = await processSubstitution(
-    query.extractedValue || query.originalValue,
+  const substituted = await substituteOptionalGroups(
+    getSubstitutionParts(query),
     typeConverter,
     encryptor,
-    onInnerTrace ? (trace) => {
-      onInnerTrace(trace, 'query', query.key);
-    } : undefined
+    (trace) => dropWatcher.onTrace(trace, 'query', query.key),
+    wholeValue ? undefined : encode,
+    onFailure
   );
   
-  // 치환 후 추가 암호화 (e 플래그가 있는 경우)
-  const encryptedValue = await handleEncryption(query, substitutedValue, encryptor);
+  // 치환 후 확장 플래그 + 추가 암호화 (e 플래그가 있는 경우)
+  const encodeWhole = wholeValue ? encode : undefined;
+  const { convertedValue, encryptedValue, finalValue, failed } = await finalizeSubstitution(
+    query, substituted.value, encryptor, encodeWhole
+  );
   
   return {
     ...query,
-    convertedValue: substitutedValue,
+    convertedValue,
     encryptedValue,
-    finalValue: encryptedValue || substitutedValue
+    finalValue,
+    ...toTransformFailureFields(query, failed, onFailure, encodeWhole),
+    ...(dropWatcher.isDropped() ? { failurePolicy: 'drop' as const } : {}),
+    ...(await toOptionalGroupFields(query, substituted, encryptor, encodeWhole))
   };
 };
 
@@ -268,27 +611,72 @@ export const transformQueries = async (
   queries: ParsedQuery[],
   typeConverter?: TypeConverter,
   encryptor?: Encryptor,
-  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
+  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void,
+  encodingContext?: EncodingContext,
+  onFailure?: FailurePolicy
 ): Promise<ParsedQuery[]> => {
+  const onValueTrace = tagQueryPart('value', onInnerTrace);
+  
   return Promise.all(
     queries.map(async (query) => {
-      // 1순위: 전역 플래그 처리 (가장 복잡한 케이스)
+      // 1순위: 전역 플래그 처리 (가장 복잡한 케이스, key/value 표시는 내부 쿼리별로)
       if (query.type === ParameterType.GLOBAL) {
-        return await processGlobalQuery(query as GlobalParsedQuery, typeConverter, encryptor, onInnerTrace);
+        return await processGlobalQuery(
+          query as GlobalParsedQuery, typeConverter, encryptor, onInnerTrace, encodingContext, onFailure
+        );
       }
       
+      // key의 플레이스홀더 변환 ({A_TYPE_1}=value)
+      const keyed = await transformQueryKey(query, query.key, typeConverter, encryptor, onInnerTrace, encodingContext, onFailure);
+      
       // 2순위: 치환 모드 처리
       if (query.processingMode === ProcessingMode.SUBSTITUTION) {
-        return handleQuerySubstitution(query, typeConverter, encryptor, onInnerTrace);
+        return handleQuerySubstitution(keyed, typeConverter, encryptor, onValueTrace, encodingContext, onFailure);
       } else {
         // 3순위: 파라미터 모드 (표준 로직)
-        return transformParameter(query, typeConverter, encryptor, onInnerTrace ? 
-          (trace: Omit<TransformationTrace, 'location' | 'identifier'>) => onInnerTrace(trace, 'query', query.key) : undefined);
+        return transformParameter(keyed, typeConverter, encryptor, onValueTrace ? 
+          (trace: Omit<TransformationTrace, 'location' | 'identifier'>) => onValueTrace(trace, 'query', query.key) : undefined,
+        encodingContext, onFailure);
       }
     })
   );
 };
 
+/**
+ * 쿼리 key의 플레이스홀더를 변환하는 함수 ({A_TYPE_1}=value → A_TYPE_1_VALUE=value)
+ *
+ * key는 값과 같은 규칙(처리 모드, 플래그, 기본값, onFailure)으로 변환되고 QUERY_KEY 기준으로 인코딩됨
+ * key 안의 추적 정보는 `키.key` identifier와 part: 'key'로 값의 추적 정보와 구분
+ *
+ * @param query 파싱된 쿼리 (keyParameter가 없으면 그대로 반환)
+ * @param identifier 추적 정보 identifier의 기준 (전역 쿼리 내부는 __GLOBAL__.키)
+ * @param encodingContext 값의 인코딩 위치 (지정되어 있으면 key는 QUERY_KEY로 인코딩)
+ * @returns keyParameter가 변환된 쿼리
+ */
+const transformQueryKey = async (
+  query: ParsedQuery,
+  identifier: string,
+  typeConverter?: TypeConverter,
+  encryptor?: Encryptor,
+  onInnerTrace?: InnerTraceCallback,
+  encodingContext?: EncodingContext,
+  onFailure?: FailurePolicy
+): Promise<ParsedQuery> => {
+  if (!query.keyParameter) return query;
+  
+  const onKeyTrace = tagQueryPart('key', onInnerTrace);
+  const keyParameter = await transformParameter(
+    query.keyParameter,
+    typeConverter,
+    encryptor,
+    onKeyTrace ? (trace) => onKeyTrace(trace, 'query', `${identifier}.key`) : undefined,
+    encodingContext ? EncodingContext.QUERY_KEY : undefined,
+    onFailure
+  );
+  
+  return { ...query, keyParameter };
+};
+
 /**
  * 전역 쿼리를 처리하는 특별한 함수
  * 
@@ -311,35 +699,47 @@ export const transformQueries = async (
  * @param globalQuery 전역 플래그가 있는 쿼리 객체
  * @param typeConverter 타입 변환 함수 (선택적)
  * @param encryptor 암호화 함수 (선택적)
+ * @param encodingContext 내부 쿼리 값의 인코딩 위치 (지정하면 내부 키도 QUERY_KEY로 인코딩)
+ * @param onFailure 변환 실패시 처리 방법 (선택적, 기본값: default)
  * @returns 변환 완료된 전역 쿼리 객체
  */
 const processGlobalQuery = async (
   globalQuery: GlobalParsedQuery,
   typeConverter?: TypeConverter,
   encryptor?: Encryptor,
-  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void
+  onInnerTrace?: (trace: Omit<TransformationTrace, 'location' | 'identifier'>, location: 'url' | 'query', identifier: string) => void,
+  encodingContext?: EncodingContext,
+  onFailure?: FailurePolicy
 ): Promise<GlobalParsedQuery> => {
   // 1단계: 내부 쿼리들을 먼저 개별 변환
   // globalQuery.innerResults는 parseQueryString에서 생성된 내부 쿼리들
   
+  const onValueTrace = tagQueryPart('value', onInnerTrace);
   const transformedInnerResults = await Promise.all(
-    globalQuery.innerResults.map((innerQuery: ParsedQuery) => {
+    globalQuery.innerResults.map(async (innerQuery: ParsedQuery) => {
+      const identifier = `__GLOBAL__.${innerQuery.key}`;
       // 모든 내부 쿼리에 onInnerTrace 콜백 전달
-      // SUBSTITUTION 모드인 경우 processSubstitution 내부에서 개별 변환 추적
-      const innerTraceCallback = onInnerTrace ? 
-        (trace: Omit<TransformationTrace, 'location' | 'identifier'>) => onInnerTrace(trace, 'query', `__GLOBAL__.${innerQuery.key}`) : 
+      // SUBSTITUTION 모드인 경우 substituteOptionalGroups 내부에서 개별 변환 추적
+      const innerTraceCallback = onValueTrace ? 
+        (trace: Omit<TransformationTrace, 'location' | 'identifier'>) => onValueTrace(trace, 'query', identifier) : 
         undefined;
       
-      return transformParameter(innerQuery, typeConverter, encryptor, innerTraceCallback);
+      const keyed = await transformQueryKey(
+        innerQuery, identifier, typeConverter, encryptor, onInnerTrace, encodingContext, onFailure
+      );
+      return transformParameter(keyed, typeConverter, encryptor, innerTraceCallback, encodingContext, onFailure);
     })
   );
+  // 내부 쿼리의 키도 값과 같은 기준으로 인코딩 (전역 암호화 전 평문 쿼리스트링 구조 보존)
+  const formatKey = (key: string) => encodingContext ? percentEncode(key, EncodingContext.QUERY_KEY) : key;
   
   // 2단계: 변환된 내부 결과들을 쿼리스트링 형태로 재구성
   // [name=A_TYPE_1_VALUE, value=test] → "name=A_TYPE_1_VALUE&value=test"
   // 파싱 단계에서는 필터링하지 않고 모든 결과 포함
   const reconstructedContent = transformedInnerResults
-    .filter(q => q.finalValue) // 빈 값만 제외
-    .map(q => `${q.key}=${q.finalValue}`)
+    // 빈 값, drop 정책 값, 생략된 선택 그룹, 변환하지 못한 key만 제외
+    .filter(q => q.finalValue && q.failurePolicy !== 'drop' && !q.omitted && !isQueryKeyExcluded(q))
+    .map(q => `${q.keyParameter ? q.keyParameter.finalValue : formatKey(q.key)}=${q.finalValue}`)
     .join('&');
   
   // 3단계: 내부 변환 결과만 저장, 전체 암호화는 getReconstructedUrl에서 처리
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli, CliIo } from './cli/runCli';
+import { USAGE } from './cli/cliArgs';
+
+// url-template CLI 명령별 출력과 종료 코드를 확인하는 테스트 (process 대신 메모리 입출력 사용)
+
+interface CliOutput {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+const run = async (argv: string[], stdin: string | null = null): Promise<CliOutput> => {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const io: CliIo = {
+    stdout: text => stdout.push(text),
+    stderr: text => stderr.push(text),
+    readStdin: async () => stdin
+  };
+  const code = await runCli(argv, io);
+  return { code, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+};
+
+async function testCli() {
+  console.log('=== url-template CLI 테스트 ===\n');
+
+  const dir = await mkdtemp(join(tmpdir(), 'url-template-'));
+  try {
+    const mapping = join(dir, 'mapping.json');
+    await writeFile(mapping, JSON.stringify({ A: { A_TYPE_1: 'alice' }, B_TYPE_1: 'bob' }));
+    const cryptoModule = join(dir, 'converters.mjs');
+    await writeFile(cryptoModule, [
+      "export const typeConverter = async value => value.toLowerCase();",
+      "export const encryptor = async value => Buffer.from(value).toString('base64url');",
+      "export const decryptor = async value => Buffer.from(value, 'base64url').toString();"
+    ].join('\n'));
+
+    // 1. render: 결과만 stdout, 필수 값 실패는 종료 코드 1
+    assert.deepEqual(await run(['render', 'https://api.com/users/{A_TYPE_1}?s={B_TYPE_1}', '-m', mapping]), {
+      code: 0, stdout: 'https://api.com/users/alice?s=bob', stderr: ''
+    });
+    assert.equal((await run(['render', '-m', mapping], '/u/{A_TYPE_1}\n')).stdout, '/u/alice');
+    const missing = await run(['render', '/u/r{A_TYPE_2}', '-m', mapping]);
+    assert.equal(missing.code, 1);
+    assert.match(missing.stderr, /url:segment-1 A_TYPE_2/);
+    const invalidHost = await run(['render', 'https://{A_TYPE_2}.api.com/x', '-m', mapping]);
+    assert.deepEqual([invalidHost.code, invalidHost.stdout], [1, '']);
+    assert.match(invalidHost.stderr, /\.api\.com/);
+    console.log('✓ render');
+
+    // 2. e 플래그는 encryptor/decryptor를 내보내는 모듈이 있어야 함 (내장 고정 키로 대신 처리하지 않음)
+    const noEncryptor = await run(['render', '/u?s=e{A_TYPE_1}', '-m', mapping]);
+    assert.equal(noEncryptor.code, 2);
+    assert.match(noEncryptor.stderr, /encryptor/);
+    assert.equal((await run(['decode', '/u?s=e{A_TYPE_1}', '--url', '/u?s=abc'])).code, 2);
+    const encrypted = await run(['render', '/u?s=e{A_TYPE_1}', '-m', cryptoModule]);
+    assert.deepEqual(encrypted, { code: 0, stdout: '/u?s=YV90eXBlXzE', stderr: '' });
+    console.log('✓ 암호화 함수 필요');
+
+    // 3. decode: 복호화한 필드 출력
+    const decoded = await run(['decode', '/u?s=e{A_TYPE_1}', '--url', '/u?s=YV90eXBlXzE', '-m', cryptoModule, '--json']);
+    assert.equal(decoded.code, 0);
+    assert.deepEqual(JSON.parse(decoded.stdout).values, { A_TYPE_1: 'a_type_1' });
+    assert.equal((await run(['decode', '/users/{A_TYPE_1}', '--url', '/orders/alice'])).code, 1);
+    console.log('✓ decode');
+
+    // 4. parse: 문법 오류가 있어도 진단을 출력하고 종료 코드 1
+    const parsed = await run(['parse', 'https://a.com/{A_TYPE_1/x?q=v{1}']);
+    assert.equal(parsed.code, 1);
+    assert.match(parsed.stdout, /query q: v\{1\} \[type=LITERAL/);
+    assert.match(parsed.stdout, /error 14-23 UNCLOSED_BRACE/);
+    console.log('✓ parse');
+
+    // 5. lint: lint 규칙과 같은 문제는 한 번만, --rule로 심각도 변경, --fix로 수정된 템플릿
+    const linted = await run(['lint', '/u/ee{A_TYPE_1}/{NOPE}']);
+    assert.equal(linted.code, 0);
+    assert.deepEqual(linted.stdout.split('\n').map(line => line.split(' ')[2]), ['duplicate-flag:', 'unknown-type:']);
+    assert.equal((await run(['lint', '/u/ee{A_TYPE_1}', '--rule', 'duplicate-flag=error'])).code, 1);
+    assert.equal((await run(['lint', '/u/ee{A_TYPE_1}', '--fix'])).stdout, '/u/e{A_TYPE_1}');
+    console.log('✓ lint');
+
+    // 6. explain: 실패 이유도 보고서 언어로 출력
+    const explained = await run(['explain', '/u/{A_TYPE_2}', '-m', mapping, '--lang', 'en']);
+    assert.equal(explained.code, 0);
+    assert.match(explained.stdout, /failed - type "A" has no value for "A_TYPE_2"/);
+    assert.doesNotMatch(explained.stdout, /[가-힣]/);
+    console.log('✓ explain');
+
+    // 7. 도움말과 잘못된 사용법
+    assert.deepEqual(await run(['--help']), { code: 0, stdout: USAGE, stderr: '' });
+    assert.equal((await run(['render', '/u', '--verbose'])).code, 2);
+    assert.equal((await run(['unknown', '/u'])).code, 2);
+    assert.equal((await run(['render'])).code, 2);
+    console.log('✓ 사용법');
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testCli().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
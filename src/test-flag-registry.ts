@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { inflateRawSync } from 'node:zlib';
+import {
+  createUrlTemplateEngine,
+  registerFlag,
+  defaultFlagRegistry,
+  FLAG_PRESETS,
+  validateTemplate,
+  FilteringMode
+} from './core';
+import { ProcessingMode } from './types/parser.types';
+import { isStrictModeValid } from './utils/parser.utils';
+
+// 확장 플래그 등록, 값 변환 단계, 전역 그룹의 확장 플래그를 확인하는 테스트 (기본 레지스트리를 사용하므로 끝나면 해제)
+
+const typeConverter = async (value: string): Promise<string> => {
+  if (value === 'A_TYPE_1') return 'one';
+  throw new Error(`No conversion data: ${value}`);
+};
+
+const encryptor = async (value: string): Promise<string> => `enc(${value})`;
+
+async function testFlagRegistry() {
+  console.log('=== 확장 플래그 테스트 ===\n');
+
+  registerFlag(FLAG_PRESETS.uppercase);
+  registerFlag(FLAG_PRESETS.base64url);
+  try {
+    // 1. 등록 규칙 (기본 플래그와 두 글자 이상은 등록 불가)
+    assert.throws(() => registerFlag({ letter: 'e', name: 'other', transform: value => value }));
+    assert.throws(() => registerFlag({ letter: 'up', name: 'other', transform: value => value }));
+    assert.throws(() => registerFlag({ letter: 'x', name: 'uppercase', transform: value => value }));
+    assert.deepEqual(defaultFlagRegistry.letters(), ['e', 'r', 'v', 'u', 'b']);
+    console.log('✓ 등록 규칙');
+
+    // 2. 단계 순서: 타입 변환 → u → 암호화 → b (작성 순서와 무관)
+    const engine = createUrlTemplateEngine({ typeConverter, encryptor, percentEncoding: false });
+    assert.equal(await engine.render('/p/u{A_TYPE_1}?k=x-u{A_TYPE_1}'), '/p/ONE?k=x-ONE');
+    const encoded = Buffer.from('enc(ONE)').toString('base64url');
+    assert.equal(await engine.render('/p/bue{A_TYPE_1}'), `/p/${encoded}`);
+    assert.equal(await engine.render('/p/ebu{A_TYPE_1}'), `/p/${encoded}`);
+    console.log('✓ 적용 단계');
+
+    // 3. 확장 플래그만 있는 전역 그룹도 전역 그룹으로 인식하고, 적용되지 않는 플래그는 error로 알림
+    for (const template of ['/p?u{a={A_TYPE_1}&b=v{x}}', '/p?eu{a={A_TYPE_1}}']) {
+      const diagnostics = validateTemplate(template);
+      assert.deepEqual(diagnostics.map(item => [item.code, item.severity]), [['UNSUPPORTED_GLOBAL_FLAG', 'error']]);
+      assert.equal(template.slice(diagnostics[0].range.start, diagnostics[0].range.end), template.slice(3, template.indexOf('{')));
+    }
+    assert.equal(await engine.render('/p?u{a={A_TYPE_1}&b=v{x}}'), '/p?a=one&b=x');
+    await assert.rejects(
+      createUrlTemplateEngine({ onSyntaxError: 'throw' }).transform('/p?eu{a={A_TYPE_1}}'),
+      { name: 'TemplateSyntaxError' }
+    );
+    assert.deepEqual(validateTemplate('/p?e{a=u{A_TYPE_1}}'), []);
+    console.log('✓ 전역 그룹');
+
+    // 4. STRICT 모드는 확장 플래그가 붙은 값도 변환된 값으로 제외
+    assert.equal(isStrictModeValid('x-u{A_TYPE_1}', ProcessingMode.SUBSTITUTION), false);
+    assert.equal(isStrictModeValid('x-rv{A_TYPE_1}', ProcessingMode.SUBSTITUTION), false);
+    assert.equal(isStrictModeValid('x-v{1}', ProcessingMode.SUBSTITUTION), true);
+    assert.equal(await engine.render('/p?k=x-u{A_TYPE_1}&l=v{1}', FilteringMode.STRICT), '/p?l=1');
+    console.log('✓ STRICT 모드');
+  } finally {
+    defaultFlagRegistry.unregister('u');
+    defaultFlagRegistry.unregister('b');
+  }
+
+  // 5. 프리셋: 값 변환(h, z, p)과 실패 정책(k, n, d, t)
+  const presets = [
+    FLAG_PRESETS.sha256, FLAG_PRESETS.compress, FLAG_PRESETS.preEncoded,
+    FLAG_PRESETS.keepOnFailure, FLAG_PRESETS.emptyOnFailure, FLAG_PRESETS.dropOnFailure, FLAG_PRESETS.throwOnFailure
+  ];
+  presets.forEach(registerFlag);
+  try {
+    const engine = createUrlTemplateEngine({ typeConverter });
+    const hash = createHash('sha256').update('one').digest('hex');
+    assert.equal(await engine.render('/p/h{A_TYPE_1}'), `/p/${hash}`);
+    const [, compressed] = (await engine.render('/p?z=z{A_TYPE_1}')).split('=');
+    assert.equal(inflateRawSync(Buffer.from(compressed, 'base64url')).toString(), 'one');
+    assert.equal(await engine.render('/p?a=p{v{x%20y}}&b=v{x%20y}'), '/p?a=x%20y&b=x%2520y');
+    assert.equal(
+      await engine.render('/p/k{NOPE}/n{NOPE}/d{NOPE}/x?k=k{NOPE}&n=n{NOPE}&d=d{NOPE}'),
+      '/p/k%7BNOPE%7D//x?k=k%7BNOPE%7D&n='
+    );
+    await assert.rejects(engine.render('/p?a=x-t{NOPE}'), { name: 'PlaceholderConversionError' });
+    console.log('✓ 프리셋');
+  } finally {
+    presets.forEach(definition => defaultFlagRegistry.unregister(definition.letter));
+  }
+
+  // 6. 해제하면 일반 문자로 처리
+  assert.deepEqual(validateTemplate('/p/u{A_TYPE_1}').map(item => item.code), ['UNKNOWN_FLAG']);
+  console.log('✓ 등록 해제');
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testFlagRegistry().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
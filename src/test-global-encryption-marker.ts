@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { createUrlTemplateEngine } from './core';
+import { QueryArrayStyle } from './types/parser.types';
+import { MOCK_TYPE_A_DATA, MOCK_TYPE_B_DATA } from './constants/mockData';
+
+// 전역 암호화 표시([ENCRYPT:...])가 내용 안의 ]에서 끊겨 평문이 남지 않는지 확인하는 회귀 테스트
+
+const mockTypeConverter = async (value: string): Promise<string> => {
+  const data: Record<string, string> = { ...MOCK_TYPE_A_DATA, ...MOCK_TYPE_B_DATA };
+  if (data[value]) return data[value];
+  throw new Error(`No conversion data: ${value}`);
+};
+
+// 내용을 그대로 감싸 어디까지 암호화됐는지 보이게 하는 암호화기
+const mockEncryptor = async (value: string): Promise<string> => `ENC(${value})`;
+
+const engine = createUrlTemplateEngine({
+  typeConverter: mockTypeConverter,
+  encryptor: mockEncryptor,
+  percentEncoding: false
+});
+
+async function testGlobalEncryptionMarker() {
+  console.log('=== 전역 암호화 표시 테스트 ===\n');
+
+  // 1. 배열 key(tag[])가 있어도 내용 전체가 암호화됨
+  const arrayKey = await engine.render('http://h/p?e{tag[]={A_TYPE_1}&tag[]={B_TYPE_1}}');
+  assert.equal(arrayKey, 'http://h/p?ENC(tag[]=A_TYPE_1_VALUE&tag[]=B_TYPE_1_VALUE)');
+  console.log('✓ 배열 key:', arrayKey);
+
+  // 2. 값 안의 ]와 $& 같은 치환 패턴도 그대로 암호화
+  const bracketValue = await engine.render('http://h/p?e{x=v{a]b$&c}&y={A_TYPE_1}}');
+  assert.equal(bracketValue, 'http://h/p?ENC(x=a]b$&c&y=A_TYPE_1_VALUE)');
+  console.log('✓ 값 안의 ]:', bracketValue);
+
+  // 3. 인덱스 배열 형식으로 묶여도 평문이 남지 않음
+  const indexed = await createUrlTemplateEngine({
+    typeConverter: mockTypeConverter,
+    encryptor: mockEncryptor,
+    queryArrayStyle: QueryArrayStyle.INDEXED
+  }).render('http://h/p?e{tag={A_TYPE_1}&tag={A_TYPE_2}}');
+  assert.equal(indexed, 'http://h/p?ENC%28tag%5B0%5D%3DA_TYPE_1_VALUE%26tag%5B1%5D%3DA_TYPE_2_VALUE%29');
+  console.log('✓ 인덱스 배열:', indexed);
+
+  // 4. 재구성 결과의 표시는 encryptGlobalQueries로 그대로 암호화
+  const reconstructed = engine.reconstruct(await engine.transform('http://h/p?e{tag[]={A_TYPE_1}}'));
+  assert.equal(reconstructed, 'http://h/p?[ENCRYPT:20:tag[]=A_TYPE_1_VALUE]');
+  assert.equal(await engine.encryptGlobalQueries(reconstructed), 'http://h/p?ENC(tag[]=A_TYPE_1_VALUE)');
+  console.log('✓ reconstruct + encryptGlobalQueries:', reconstructed);
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testGlobalEncryptionMarker().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { splitHostComponents, parseUrlComponents, createUrlTemplateEngine, validatePort } from './core';
+
+// 호스트의 userinfo, 포트, IPv6 리터럴 분리와 렌더링을 확인하는 테스트
+
+const typeConverter = async (value: string): Promise<string> => {
+  const data: Record<string, string> = { A_TYPE_1: 'alice', B_TYPE_1: '8080', A_TYPE_2: 'a@b:c/d' };
+  if (data[value]) return data[value];
+  throw new Error(`No conversion data: ${value}`);
+};
+
+async function testHostParser() {
+  console.log('=== 호스트 파싱 테스트 ===\n');
+
+  // 1. 구성요소 분리 (userinfo는 마지막 @ 기준, IPv6 리터럴 안의 :는 포트 구분자가 아님)
+  const hosts: Array<[string, [string | null, string, string | null]]> = [
+    ['api.com', [null, 'api.com', null]],
+    ['user:pw@api.com:8080', ['user:pw', 'api.com', '8080']],
+    ['a@b@c.com', ['a@b', 'c.com', null]],
+    ['[::1]', [null, '[::1]', null]],
+    ['[2001:db8::1]:443', [null, '[2001:db8::1]', '443']],
+    ['u@[fe80::1%25eth0]:80', ['u', '[fe80::1%25eth0]', '80']],
+    ['{A_TYPE_1}:{B_TYPE_1}@h.com:v{80}', ['{A_TYPE_1}:{B_TYPE_1}', 'h.com', 'v{80}']]
+  ];
+  hosts.forEach(([host, expected]) => {
+    const { userinfo, hostname, port } = splitHostComponents(host);
+    assert.deepEqual([userinfo, hostname, port], expected, host);
+  });
+  assert.deepEqual(parseUrlComponents('https://u:p@[::1]:8443/x?y=1#f'), {
+    protocol: 'https', host: 'u:p@[::1]:8443', userinfo: 'u:p', hostname: '[::1]', port: '8443',
+    path: '/x', query: 'y=1', fragment: 'f'
+  });
+  console.log(`✓ 구성요소 분리 (${hosts.length}건)`);
+
+  // 2. 렌더링: 플레이스홀더가 없는 구성요소는 그대로, userinfo 값의 @ : /는 인코딩
+  const engine = createUrlTemplateEngine({ typeConverter });
+  const renders: Array<[string, string]> = [
+    ['https://u:p@h.com:8080/x', 'https://u:p@h.com:8080/x'],
+    ['https://[2001:db8::1]:443/x?a=1', 'https://[2001:db8::1]:443/x?a=1'],
+    ['https://{A_TYPE_1}:pw@[::1]:{B_TYPE_1}/x', 'https://alice:pw@[::1]:8080/x'],
+    ['https://{A_TYPE_2}@h.com/x', 'https://a%40b%3Ac%2Fd@h.com/x'],
+    // 변환에 실패해 빈 값이 된 userinfo/port는 @, : 구분자까지 생략
+    ['https://{NOPE}@h.com:{NOPE}/x', 'https://h.com/x']
+  ];
+  for (const [template, expected] of renders) {
+    assert.equal(await engine.render(template), expected, template);
+  }
+  const result = await engine.transform('https://{A_TYPE_1}:pw@[::1]:{B_TYPE_1}/x');
+  assert.deepEqual(
+    [result.host?.userinfo, result.host?.hostname, result.host?.port, result.host?.isIPv6],
+    ['alice:pw', '[::1]', '8080', true]
+  );
+  assert.deepEqual(
+    result.transformationTraces.filter(trace => trace.location === 'host').map(trace => trace.identifier),
+    ['host.userinfo', 'host.port', 'host.userinfo.inner.A_TYPE_1']
+  );
+  console.log(`✓ 렌더링 (${renders.length}건)`);
+
+  // 3. 포트 검증
+  assert.equal(validatePort(''), undefined);
+  assert.equal(validatePort('8080'), undefined);
+  assert.ok(validatePort('65536'));
+  assert.ok(validatePort('alice'));
+  await assert.rejects(engine.render('https://u@h.com:{A_TYPE_1}/x'), { name: 'InvalidHostnameError' });
+  console.log('✓ 포트 검증');
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testHostParser().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
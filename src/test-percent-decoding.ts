@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { parseTemplate, createUrlTemplateEngine, percentDecode, matchUrl } from './core';
+
+// decodePercent/plusAsSpace 파싱 옵션과 URL 매칭시의 + 디코딩을 확인하는 테스트
+
+const typeConverter = async (value: string): Promise<string> => {
+  if (value === 'A_TYPE_1') return 'alice';
+  throw new Error(`No conversion data: ${value}`);
+};
+
+async function testPercentDecoding() {
+  console.log('=== 퍼센트 디코딩 테스트 ===\n');
+
+  // 1. percentDecode: 올바르지 않은 %XX는 그대로, +는 plusAsSpace일 때만 공백
+  assert.equal(percentDecode('a+b%20c'), 'a+b c');
+  assert.equal(percentDecode('a+b', true), 'a b');
+  assert.equal(percentDecode('100%'), '100%');
+  assert.equal(percentDecode('%E0%A4'), '%E0%A4');
+  console.log('✓ percentDecode');
+
+  // 2. AST: 디코딩된 표기와 원본 표기, 원본 기준 위치
+  const ast = parseTemplate(
+    'https://api.com/users/%7BA_TYPE_1%7D?q=a+b&x%20{A_TYPE_1}=%7BA_TYPE_1%7D&v=v%7Ba%26b%20c%7D',
+    { decodePercent: true, plusAsSpace: true }
+  );
+  const segment = ast.path?.segments[2];
+  assert.deepEqual(
+    [segment?.raw, segment?.encoded, segment?.start, segment?.end],
+    ['{A_TYPE_1}', '%7BA_TYPE_1%7D', 22, 36]
+  );
+  assert.deepEqual(ast.query?.kind === 'Query' && ast.query.pairs.map(pair => [pair.key, pair.value, pair.encodedValue]), [
+    ['q', 'a b', 'a+b'],
+    // 플레이스홀더가 있는 key는 중괄호 바깥을 원본 표기로 유지
+    ['x%20{A_TYPE_1}', '{A_TYPE_1}', '%7BA_TYPE_1%7D'],
+    // 디코딩된 &는 이스케이프로 남음
+    ['v', 'v{a\\&b c}', 'v%7Ba%26b%20c%7D']
+  ]);
+  // 호스트는 중괄호만 되돌림
+  assert.equal(parseTemplate('https://%7BA_TYPE_1%7D.com/x', { decodePercent: true }).host?.raw, '{A_TYPE_1}.com');
+  // 옵션이 없으면 인코딩된 중괄호는 정적 텍스트
+  assert.equal(parseTemplate('/users/%7BA_TYPE_1%7D').path?.segments[2].encoded, undefined);
+  console.log('✓ AST');
+
+  // 3. 렌더링: 정적 값은 원본 표기 유지, 변환된 값은 인코딩 규칙대로
+  const engine = createUrlTemplateEngine({ typeConverter, decodePercent: true, plusAsSpace: true });
+  const renders: Array<[string, string]> = [
+    ['/users/%7BA_TYPE_1%7D', '/users/alice'],
+    ['/u?q=a+b&n=%7BA_TYPE_1%7D', '/u?q=a+b&n=alice'],
+    ['/u?v=v%7Ba%26b%20c%7D', '/u?v=a%26b%20c'],
+    ['/a%2Fb', '/a%2Fb'],
+    ['/a+b', '/a+b'],
+    ['/u?p=100%', '/u?p=100%']
+  ];
+  for (const [template, expected] of renders) {
+    assert.equal(await engine.render(template), expected, template);
+  }
+  assert.equal(await createUrlTemplateEngine({ typeConverter }).render('/users/%7BA_TYPE_1%7D'), '/users/%7BA_TYPE_1%7D');
+  console.log(`✓ 렌더링 (${renders.length}건)`);
+
+  // 4. matchUrl: plusAsSpace는 URL 쪽 쿼리 디코딩에도 적용
+  assert.deepEqual(matchUrl('/s?q={B}', '/s?q=a+b%20c', { plusAsSpace: true }).params, { B: 'a b c' });
+  assert.deepEqual(matchUrl('/s?q={B}', '/s?q=a+b%20c').params, { B: 'a+b c' });
+  console.log('✓ matchUrl');
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testPercentDecoding().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
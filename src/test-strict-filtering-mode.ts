@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { createUrlTemplateEngine, collectStrictExclusions, FilteringMode, StrictDefaultPolicy } from './core';
+import { MOCK_TYPE_A_DATA, MOCK_TYPE_B_DATA } from './constants/mockData';
+
+// STRICT 모드에서 일반 문자열과 v{} 리터럴만 남는지, DEFAULT 모드와 무엇이 다른지 확인하는 테스트
+
+const mockTypeConverter = async (value: string): Promise<string> => {
+  const data: Record<string, string> = { ...MOCK_TYPE_A_DATA, ...MOCK_TYPE_B_DATA };
+  if (data[value]) return data[value];
+  throw new Error(`No conversion data: ${value}`);
+};
+
+const mockEncryptor = async (value: string): Promise<string> => `ENC(${value})`;
+
+const createEngine = (filteringMode: FilteringMode, strictDefaults?: StrictDefaultPolicy) => createUrlTemplateEngine({
+  typeConverter: mockTypeConverter,
+  encryptor: mockEncryptor,
+  filteringMode,
+  strictDefaults
+});
+
+/**
+ * STRICT/DEFAULT 렌더링 결과와 STRICT에서 제외되는 쿼리 identifier 비교
+ */
+const expectStrict = async (
+  template: string,
+  expected: { strict: string; default: string; excluded: string[] },
+  strictDefaults?: StrictDefaultPolicy
+) => {
+  const strictEngine = createEngine(FilteringMode.STRICT, strictDefaults);
+  assert.equal(await strictEngine.render(template), expected.strict, `${template} (STRICT)`);
+  assert.equal(await createEngine(FilteringMode.DEFAULT, strictDefaults).render(template), expected.default, `${template} (DEFAULT)`);
+  assert.deepEqual(collectStrictExclusions(await strictEngine.transform(template), strictDefaults), expected.excluded, template);
+};
+
+async function testStrictFilteringMode() {
+  console.log('=== STRICT 필터링 모드 테스트 ===\n');
+
+  // 1. 파라미터 모드: 리터럴과 일반 문자열만 포함 (v가 있으면 암호화해도 포함)
+  await expectStrict('http://localhost/p?a=plain&b=v{LIT}&c={A_TYPE_1}&d=e{v{X}}&f=r{B_TYPE_1}', {
+    strict: 'http://localhost/p?a=plain&b=LIT&d=ENC(X)',
+    default: 'http://localhost/p?a=plain&b=LIT&c=A_TYPE_1_VALUE&d=ENC(X)&f=B_TYPE_1_VALUE',
+    excluded: ['c', 'f']
+  });
+  console.log('✓ 파라미터 모드');
+
+  // 2. 치환 모드: 안쪽 값이 모두 리터럴일 때만 포함
+  await expectStrict('http://localhost/p?name={@@{A_TYPE_1}}&lit={@@v{LIT}}&x=pre-v{A}-post&y=pre-{A_TYPE_1}', {
+    strict: 'http://localhost/p?lit=@@LIT&x=pre-A-post',
+    default: 'http://localhost/p?name=@@A_TYPE_1_VALUE&lit=@@LIT&x=pre-A-post&y=pre-A_TYPE_1_VALUE',
+    excluded: ['name', 'y']
+  });
+  console.log('✓ 치환 모드');
+
+  // 3. 선택 그룹은 그룹만 생략되고 나머지 값은 유지
+  await expectStrict('http://localhost/p?where=ID=v{1}[!@AND={NAME}]', {
+    strict: 'http://localhost/p?where=ID=1',
+    default: 'http://localhost/p?where=ID=1!@AND=NAME_VALUE',
+    excluded: []
+  });
+  console.log('✓ 선택 그룹');
+
+  // 4. 기본값이 사용된 값은 strictDefaults에 따라 판단 (include는 리터럴 기본값만 포함)
+  const defaults = 'http://localhost/p?u={NOPE|guest}&w={NOPE|{A_TYPE_1}}';
+  await expectStrict(defaults, {
+    strict: 'http://localhost/p',
+    default: 'http://localhost/p?u=guest&w=A_TYPE_1_VALUE',
+    excluded: ['u', 'w']
+  });
+  assert.equal(await createEngine(FilteringMode.STRICT, 'include').render(defaults), 'http://localhost/p?u=guest');
+  console.log('✓ 기본값 (strictDefaults)');
+
+  // 5. key에 변환이 필요한 값이 있으면 쌍 전체 제외
+  await expectStrict('http://localhost/p?v{k}=1&{A_TYPE_1}=2', {
+    strict: 'http://localhost/p?k=1',
+    default: 'http://localhost/p?k=1&A_TYPE_1_VALUE=2',
+    excluded: ['{A_TYPE_1}']
+  });
+  console.log('✓ key 플레이스홀더');
+
+  // 6. 전역 그룹 안의 쌍과 fragment 쿼리도 같은 규칙
+  await expectStrict('http://localhost/p?e{name={A_TYPE_1}&value=v{TEST}}', {
+    strict: 'http://localhost/p?ENC%28value%3DTEST%29',
+    default: 'http://localhost/p?ENC%28name%3DA_TYPE_1_VALUE%26value%3DTEST%29',
+    excluded: ['__GLOBAL__.name']
+  });
+  await expectStrict('http://localhost/p?a=v{1}#/r?x={A_TYPE_1}&y=v{2}', {
+    strict: 'http://localhost/p?a=1#/r?y=2',
+    default: 'http://localhost/p?a=1#/r?x=A_TYPE_1_VALUE&y=2',
+    excluded: ['fragment.x']
+  });
+  console.log('✓ 전역 그룹, fragment 쿼리');
+
+  // 7. 경로 세그먼트는 STRICT 모드에서도 변환 (쿼리만 필터링)
+  await expectStrict('http://localhost/{A_TYPE_1}/v{x}?a=1#sec-{A_TYPE_1}', {
+    strict: 'http://localhost/A_TYPE_1_VALUE/x?a=1#sec-A_TYPE_1_VALUE',
+    default: 'http://localhost/A_TYPE_1_VALUE/x?a=1#sec-A_TYPE_1_VALUE',
+    excluded: []
+  });
+  console.log('✓ 경로 세그먼트');
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testStrictFilteringMode().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
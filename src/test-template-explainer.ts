@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { createUrlTemplateEngine, explainRender, FilteringMode } from './core';
+
+// explainRender가 transform 결과에 기록된 모드와 실패 사유 코드만으로 보고서를 만드는지 확인하는 테스트
+
+const typeConverter = async (value: string): Promise<string> => {
+  if (value === 'A_TYPE_1') return 'alice';
+  throw new Error(`No conversion data: ${value}`);
+};
+
+const failingEncryptor = async (): Promise<string> => {
+  throw new Error('encryption service unavailable');
+};
+
+async function testTemplateExplainer() {
+  console.log('=== explainRender 테스트 ===\n');
+
+  // 1. 옵션 없이도 엔진의 필터링 모드와 변환 함수 유무가 반영됨
+  const strict = await createUrlTemplateEngine({ typeConverter, filteringMode: FilteringMode.STRICT })
+    .transform('https://api.com/users/{A_TYPE_1}?s={A_TYPE_2}&n={NOPE}&k=v{1}');
+  assert.equal(strict.filteringMode, FilteringMode.STRICT);
+  const strictReport = explainRender(strict, { locale: 'en' });
+  assert.match(strictReport, /Filtering mode: "STRICT"/);
+  assert.match(strictReport, /failed - type "A" has no value for "A_TYPE_2"/);
+  assert.match(strictReport, /failed - "NOPE" is not in any registered type/);
+  assert.match(strictReport, /STRICT mode: included/);
+  assert.doesNotMatch(strictReport, /no TypeConverter/);
+  assert.match(explainRender(strict, { locale: 'en', filteringMode: FilteringMode.DEFAULT }), /Filtering mode: "DEFAULT"/);
+  console.log('✓ 기록된 필터링 모드와 실패 사유');
+
+  // 2. 실패 사유 코드 (변환 함수 없음, 암호화 함수 없음, 암호화 실패)
+  const noConverter = await createUrlTemplateEngine().transform('/u/{A_TYPE_1}?s=e{v{X}}');
+  assert.deepEqual(
+    noConverter.transformationTraces.filter(trace => trace.identifier !== 'segment-0').map(trace => trace.failureCode),
+    [undefined, 'no-converter', 'no-encryptor']
+  );
+  const noConverterReport = explainRender(noConverter, { locale: 'en' });
+  assert.match(noConverterReport, /failed - no TypeConverter was provided/);
+  assert.match(noConverterReport, /encryption failed - no Encryptor was provided/);
+
+  const failed = await createUrlTemplateEngine({ typeConverter, encryptor: failingEncryptor })
+    .transform('/u?s=e{A_TYPE_1}&t=x-e{A_TYPE_2}');
+  assert.deepEqual(
+    failed.transformationTraces.filter(trace => trace.location === 'query').map(trace => [trace.identifier, trace.failureCode]),
+    [['t.inner.A_TYPE_2', 'value-not-found'], ['s', 'encryption-failed'], ['t', undefined]]
+  );
+  const failedReport = explainRender(failed, { locale: 'en' });
+  assert.match(failedReport, /encryption failed - the Encryptor could not encrypt the value/);
+  assert.match(failedReport, /failed - type "A" has no value for "A_TYPE_2"; replaced with an empty value/);
+  assert.doesNotMatch(failedReport, /alice/);
+  console.log('✓ 실패 사유 코드');
+
+  // 3. 필수 값 누락에도 실패 사유 코드가 기록됨
+  const required = await createUrlTemplateEngine({ typeConverter, onRequiredMissing: 'invalidate' }).transform('/u/r{A_TYPE_2}');
+  assert.deepEqual(required.missingRequired?.map(item => item.failureCode), ['value-not-found']);
+  assert.match(explainRender(required), /필수 값 1개를 변환하지 못해 결과가 무효입니다/);
+  console.log('✓ 필수 값');
+
+  // 4. 언어와 형식
+  const korean = explainRender(strict);
+  assert.match(korean, /필터링 모드: "STRICT"/);
+  assert.match(korean, /실패 - "A" 타입에 "A_TYPE_2"에 대한 값이 없음/);
+  const markdown = explainRender(strict, { locale: 'en', format: 'markdown', url: 'https://api.com/users/alice?k=1' });
+  assert.match(markdown, /^## Render explanation/);
+  assert.match(markdown, /- \*\*Filtering mode\*\*: `STRICT`/);
+  assert.match(markdown, /`https:\/\/api.com\/users\/alice\?k=1`/);
+  assert.doesNotMatch(markdown, /[가-힣]/);
+  console.log('✓ 언어와 형식');
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testTemplateExplainer().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
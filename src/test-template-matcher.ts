@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import {
+  createUrlTemplateEngine,
+  matchUrl,
+  decodeUrl,
+  MatchUrlOptions,
+  QueryArrayStyle,
+  MatchMismatchCode,
+  DecodedFieldStatus
+} from './core';
+import { MOCK_TYPE_A_DATA, MOCK_TYPE_B_DATA } from './constants/mockData';
+
+// 렌더링한 URL을 matchUrl/decodeUrl로 되돌렸을 때 원래 값이 나오는지 확인하는 테스트
+
+const mockData: Record<string, string> = {
+  ...MOCK_TYPE_A_DATA,
+  ...MOCK_TYPE_B_DATA,
+  A_TYPE_5: 'a&b=c#d e'
+};
+
+const mockTypeConverter = async (value: string): Promise<string> => {
+  if (mockData[value]) return mockData[value];
+  throw new Error(`No conversion data: ${value}`);
+};
+
+// 복호화할 수 있도록 base64url로 인코딩하는 암호화기
+const mockEncryptor = async (value: string): Promise<string> => Buffer.from(value).toString('base64url');
+const mockDecryptor = async (value: string): Promise<string> => {
+  if (!/^[A-Za-z0-9_-]+$/.test(value)) throw new Error(`Invalid ciphertext: ${value}`);
+  return Buffer.from(value, 'base64url').toString();
+};
+
+/**
+ * 렌더링 → matchUrl → decodeUrl 왕복 후 복호화된 값 비교
+ */
+const expectRoundTrip = async (
+  template: string,
+  expectedValues: Record<string, string>,
+  options: MatchUrlOptions = {}
+) => {
+  const url = await createUrlTemplateEngine({
+    typeConverter: mockTypeConverter,
+    encryptor: mockEncryptor,
+    queryArrayStyle: options.queryArrayStyle
+  }).render(template);
+
+  const match = matchUrl(template, url, options);
+  assert.equal(match.matched, true, `${template} → ${url}`);
+  assert.deepEqual(match.mismatches, []);
+
+  const decoded = await decodeUrl(template, url, { ...options, decryptor: mockDecryptor });
+  assert.equal(decoded.matched, true, url);
+  assert.equal(decoded.verified, true, url);
+  assert.deepEqual(decoded.values, expectedValues, url);
+};
+
+async function testTemplateMatcher() {
+  console.log('=== matchUrl/decodeUrl 테스트 ===\n');
+
+  // 1. 경로, 쿼리, 암호화된 값
+  await expectRoundTrip('https://api.com/users/{A_TYPE_1}/orders/{B_TYPE_1}?q=v{x}&s=e{A_TYPE_2}', {
+    A_TYPE_1: 'A_TYPE_1_VALUE',
+    B_TYPE_1: 'B_TYPE_1_VALUE',
+    A_TYPE_2: 'A_TYPE_2_VALUE'
+  });
+  const encrypted = matchUrl('https://api.com/p?s=e{A_TYPE_2}', `https://api.com/p?s=${await mockEncryptor('A_TYPE_2_VALUE')}`);
+  assert.deepEqual(encrypted.values.map(item => [item.location, item.identifier, item.value]), [
+    ['query', 's', 'QV9UWVBFXzJfVkFMVUU']
+  ]);
+  console.log('✓ 경로, 쿼리, 암호화된 값');
+
+  // 2. 위치별로 인코딩된 값을 디코딩
+  await expectRoundTrip('https://api.com/{A_TYPE_5}?q={A_TYPE_5}#f-{A_TYPE_5}', { A_TYPE_5: 'a&b=c#d e' });
+  console.log('✓ 위치별 인코딩');
+
+  // 3. 전역 암호화 그룹은 복호화한 뒤 안쪽 값까지 찾음
+  await expectRoundTrip('https://api.com/p?e{a={A_TYPE_1}&b=v{2}}', {
+    __GLOBAL__: 'a=A_TYPE_1_VALUE&b=2',
+    A_TYPE_1: 'A_TYPE_1_VALUE'
+  });
+  console.log('✓ 전역 암호화 그룹');
+
+  // 4. 다중 값 key는 queryArrayStyle로 렌더링한 형태를 그대로 맞춤
+  for (const queryArrayStyle of Object.values(QueryArrayStyle)) {
+    await expectRoundTrip('https://api.com/p?tag={A_TYPE_1}&tag={A_TYPE_2}', {
+      A_TYPE_1: 'A_TYPE_1_VALUE',
+      A_TYPE_2: 'A_TYPE_2_VALUE'
+    }, { queryArrayStyle });
+  }
+  console.log('✓ 다중 값 key');
+
+  // 5. 호스트 userinfo, 선택 그룹, key 플레이스홀더
+  await expectRoundTrip('https://{A_TYPE_1}:pw@api.com:v{8080}/p/{B_TYPE_1}', {
+    A_TYPE_1: 'A_TYPE_1_VALUE',
+    B_TYPE_1: 'B_TYPE_1_VALUE'
+  });
+  await expectRoundTrip('https://[2001:db8::{A_TYPE_3}]/p', { A_TYPE_3: 'A_TYPE_3_VALUE' });
+  await expectRoundTrip('https://api.com/p?where=ID={A_TYPE_1}[!@AND={B_TYPE_1}]', {
+    A_TYPE_1: 'A_TYPE_1_VALUE',
+    B_TYPE_1: 'B_TYPE_1_VALUE'
+  });
+  await expectRoundTrip('https://api.com/p?where=ID={A_TYPE_1}[!@AND={NOPE}]', { A_TYPE_1: 'A_TYPE_1_VALUE' });
+  await expectRoundTrip('https://api.com/p?{A_TYPE_1}=v', { A_TYPE_1: 'A_TYPE_1_VALUE' });
+  console.log('✓ 호스트, 선택 그룹, key 플레이스홀더');
+
+  // 6. 구조가 다르거나 필수 값을 찾지 못하면 matched: false
+  const template = 'https://api.com/users/{A_TYPE_1}?s=r{B_TYPE_1}';
+  const missing = matchUrl(template, 'https://api.com/users/alice');
+  assert.equal(missing.matched, false);
+  assert.deepEqual(missing.mismatches.map(item => item.code), [MatchMismatchCode.QUERY_MISSING]);
+  assert.deepEqual(missing.unresolved.map(item => item.name), ['B_TYPE_1']);
+  assert.deepEqual(matchUrl(template, 'https://api.com/orders/alice?s=1').mismatches.map(item => item.code), [MatchMismatchCode.PATH_MISMATCH]);
+  assert.equal(matchUrl(template, 'https://api.com/users/alice?s=1&extra=2').matched, true);
+  assert.deepEqual(
+    matchUrl(template, 'https://api.com/users/alice?s=1&extra=2', { extraQuery: 'error' }).mismatches.map(item => item.code),
+    [MatchMismatchCode.UNEXPECTED_QUERY]
+  );
+  console.log('✓ 불일치');
+
+  // 7. 복호화 실패와 decryptor 없음은 예외 대신 필드 상태로 기록
+  const failed = await decodeUrl('https://api.com/p?s=e{A_TYPE_1}', 'https://api.com/p?s=!!!', { decryptor: mockDecryptor });
+  assert.equal(failed.verified, false);
+  assert.deepEqual(failed.fields.map(field => field.status), [DecodedFieldStatus.DECRYPT_FAILED]);
+  const noDecryptor = await decodeUrl('https://api.com/p?s=e{A_TYPE_1}', 'https://api.com/p?s=abc');
+  assert.deepEqual(noDecryptor.fields.map(field => field.status), [DecodedFieldStatus.NO_DECRYPTOR]);
+  console.log('✓ 복호화 실패');
+
+  // 8. 긴 입력에서도 백트래킹 없이 끝남
+  const started = Date.now();
+  const long = matchUrl('https://api.com/{A_TYPE_1}-{B_TYPE_1}-{A_TYPE_2}z', `https://api.com/${'x'.repeat(5000)}`);
+  assert.equal(long.matched, false);
+  assert.ok(Date.now() - started < 1000, `${Date.now() - started}ms`);
+  console.log('✓ 긴 입력');
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testTemplateMatcher().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
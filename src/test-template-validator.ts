@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import {
+  validateTemplate,
+  getTemplateErrors,
+  createUrlTemplateEngine,
+  DiagnosticCode,
+  TemplateSyntaxError
+} from './core';
+
+// validateTemplate 진단 코드/심각도/위치와 엔진의 onSyntaxError 처리를 확인하는 테스트
+
+/** 진단을 [코드, 심각도, 원본에서 가리키는 문자열]로 바꿈 */
+const describe = (template: string) => validateTemplate(template).map(item => [
+  item.code,
+  item.severity,
+  template.slice(item.range.start, item.range.end)
+]);
+
+async function testTemplateValidator() {
+  console.log('=== validateTemplate 테스트 ===\n');
+
+  // 1. 문법 오류 (error)
+  const errors: Array<[string, Array<[string, string, string]>]> = [
+    ['http://h/users/{A_TYPE_1?name=x', [[DiagnosticCode.UNCLOSED_BRACE, 'error', '{A_TYPE_1']]],
+    ['/u}/x', [[DiagnosticCode.UNEXPECTED_CLOSING_BRACE, 'error', '}']]],
+    ['/u/{}?a=e{}', [[DiagnosticCode.EMPTY_PLACEHOLDER, 'error', '{}'], [DiagnosticCode.EMPTY_PLACEHOLDER, 'error', 'e{}']]],
+    ['https://{A_TYPE_1.h.com/x', [[DiagnosticCode.UNCLOSED_BRACE, 'error', '{A_TYPE_1.h.com']]],
+    ['/u#/r/{A_TYPE_1', [[DiagnosticCode.UNCLOSED_BRACE, 'error', '{A_TYPE_1']]]
+  ];
+  errors.forEach(([template, expected]) => assert.deepEqual(describe(template), expected, template));
+  console.log(`✓ 문법 오류 (${errors.length}건)`);
+
+  // 2. 작성 실수 (warning)
+  const warnings: Array<[string, Array<[string, string, string]>]> = [
+    ['/u/x{A_TYPE_1}?q=ee{A_TYPE_1}', [[DiagnosticCode.UNKNOWN_FLAG, 'warning', 'x'], [DiagnosticCode.DUPLICATE_FLAG, 'warning', 'ee']]],
+    ['/u?ee{a=1}', [[DiagnosticCode.DUPLICATE_FLAG, 'warning', 'ee']]],
+    ['/u?=v&flag&k={NOPE}', [
+      [DiagnosticCode.EMPTY_QUERY_KEY, 'warning', '=v'],
+      [DiagnosticCode.MISSING_QUERY_VALUE, 'warning', 'flag'],
+      [DiagnosticCode.UNKNOWN_TYPE, 'warning', '{NOPE}']
+    ]]
+  ];
+  warnings.forEach(([template, expected]) => assert.deepEqual(describe(template), expected, template));
+  console.log(`✓ 작성 실수 (${warnings.length}건)`);
+
+  // 3. 올바른 템플릿과 이스케이프된 중괄호는 진단 없음
+  assert.deepEqual(validateTemplate('/u/{A_TYPE_1}?a=v{1}'), []);
+  assert.deepEqual(validateTemplate('/u/\\{x\\}'), []);
+  assert.equal(getTemplateErrors(validateTemplate('/u/{}/x{A_TYPE_1}')).length, 1);
+  console.log('✓ 진단 없음');
+
+  // 4. 엔진: ignore(기본값)는 결과의 diagnostics에 기록하고 그대로 렌더링, throw는 중단
+  const parsed = createUrlTemplateEngine().parse('/u/{A');
+  assert.deepEqual(parsed.diagnostics?.map(item => [item.code, item.range]), [
+    [DiagnosticCode.UNCLOSED_BRACE, { start: 3, end: 5 }]
+  ]);
+  assert.equal(await createUrlTemplateEngine().render('/u/{A'), '/u/{A');
+
+  const strictEngine = createUrlTemplateEngine({ onSyntaxError: 'throw' });
+  assert.throws(() => strictEngine.parse('/u/{A'), (error: unknown) =>
+    error instanceof TemplateSyntaxError && error.diagnostics.length === 1
+  );
+  await assert.rejects(strictEngine.render('/u/{}'), TemplateSyntaxError);
+  // warning만 있으면 중단하지 않음
+  assert.equal(await strictEngine.render('/u?flag'), '/u');
+  console.log('✓ onSyntaxError');
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testTemplateValidator().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
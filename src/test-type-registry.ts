@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import {
+  createUrlTemplateEngine,
+  registerType,
+  defaultTypeRegistry,
+  detectParameterType,
+  validateTemplate,
+  ParamType
+} from './core';
+
+// 타입 등록, 감지 순서, 타입 전용 변환 함수와 실패 처리를 확인하는 테스트 (기본 레지스트리를 사용하므로 끝나면 해제)
+
+const typeConverter = async (value: string): Promise<string> => `converted-${value}`;
+
+async function testTypeRegistry() {
+  console.log('=== 타입 레지스트리 테스트 ===\n');
+
+  registerType({
+    name: 'CUSTOMER',
+    matchers: [{ kind: 'prefix', prefix: 'CUST_' }, { kind: 'regex', pattern: /^C\d+$/g }],
+    converter: async value => {
+      if (value === 'CUST_404') throw new Error('not found');
+      return value.toLowerCase();
+    },
+    onFailure: 'keep'
+  });
+  registerType({ name: 'ORDER', matchers: [{ kind: 'predicate', test: value => value.startsWith('ORD-') }] });
+  try {
+    // 1. 등록 규칙 (예약된 이름과 빈 이름은 등록 불가)
+    assert.throws(() => registerType({ name: ParamType.LITERAL, matchers: [] }));
+    assert.throws(() => registerType({ name: '', matchers: [] }));
+    console.log('✓ 등록 규칙');
+
+    // 2. 감지: 등록 순서대로 검사 (기본 A, B가 먼저), g 플래그 정규식도 매번 같은 결과
+    assert.equal(detectParameterType('A_TYPE_1'), ParamType.A);
+    assert.equal(detectParameterType('CUST_001'), 'CUSTOMER');
+    assert.equal(detectParameterType('C12'), 'CUSTOMER');
+    assert.equal(detectParameterType('C12'), 'CUSTOMER');
+    assert.equal(detectParameterType('ORD-1'), 'ORDER');
+    assert.equal(detectParameterType('NOPE'), ParamType.UNKNOWN);
+    assert.deepEqual(validateTemplate('/c/{CUST_001}/{NOPE}').map(item => item.code), ['UNKNOWN_TYPE']);
+    console.log('✓ 타입 감지');
+
+    // 3. 변환 함수: 타입 전용 converter > 엔진 TypeConverter, 선언된 타입은 감지 없이 사용
+    const engine = createUrlTemplateEngine({ typeConverter });
+    assert.equal(await engine.render('/c/{CUST_001}/{ORD-1}'), '/c/cust_001/converted-ORD-1');
+    assert.equal(await engine.render('/c/{CUSTOMER:ANY}'), '/c/any');
+    assert.equal(await createUrlTemplateEngine().render('/o/{ORD-1}?c={CUST_001}'), '/o/?c=cust_001');
+    console.log('✓ 변환 함수');
+
+    // 4. 타입 정의의 onFailure는 엔진 옵션보다 우선, 플래그보다 나중
+    assert.equal(await engine.render('/c/{CUST_404}?o={ORD-1}'), '/c/%7BCUST_404%7D?o=converted-ORD-1');
+    assert.equal(await createUrlTemplateEngine({ onFailure: 'empty' }).render('/c?x={CUST_404}'), '/c?x=%7BCUST_404%7D');
+    const traces = (await engine.transform('/c/{CUST_404}')).transformationTraces;
+    assert.equal(traces.find(trace => trace.target === 'CUST_404')?.failurePolicy, 'keep');
+    console.log('✓ 실패 처리');
+  } finally {
+    defaultTypeRegistry.unregister('CUSTOMER');
+    defaultTypeRegistry.unregister('ORDER');
+  }
+
+  // 5. 타입 선언 {TYPE:NAME}: 목록 감지 없이 선언된 타입으로 변환, 실패 사유도 선언된 타입 기준
+  const calls: string[] = [];
+  const declaredEngine = createUrlTemplateEngine({
+    typeConverter: async (value, type) => {
+      calls.push(`${type}:${value}`);
+      if (value === 'CUSTOMER_ID') return 'c1';
+      throw new Error(`No conversion data: ${value}`);
+    }
+  });
+  const declared = await declaredEngine.transform('/u/{A:CUSTOMER_ID}?o={B:ORDER_NO}&d={A:ORDER|guest}&q=x-{B:CUSTOMER_ID}');
+  assert.equal(declaredEngine.reconstruct(declared), '/u/c1?d=guest&q=x-c1');
+  assert.deepEqual(calls, ['A:CUSTOMER_ID', 'B:ORDER_NO', 'A:ORDER', 'B:CUSTOMER_ID']);
+  assert.deepEqual(
+    declared.transformationTraces.filter(trace => trace.typeDeclared).map(trace => [trace.target, trace.type, trace.failureCode]),
+    [['CUSTOMER_ID', 'B', undefined], ['CUSTOMER_ID', 'A', undefined], ['ORDER_NO', 'B', 'value-not-found'], ['ORDER', 'A', 'value-not-found']]
+  );
+  // 등록되지 않은 타입 이름은 선언이 아님 (값 전체가 이름), v 플래그는 선언도 작성된 그대로
+  assert.equal(await declaredEngine.render('/u/{X:Y}/v{A:CUSTOMER_ID}'), '/u//A:CUSTOMER_ID');
+  assert.deepEqual(validateTemplate('/u/{X:Y}/{A:ANY}').map(item => item.code), ['UNKNOWN_TYPE']);
+  console.log('✓ 타입 선언');
+
+  // 6. 해제하면 다시 알 수 없는 타입
+  assert.equal(detectParameterType('CUST_001'), ParamType.UNKNOWN);
+  console.log('✓ 등록 해제');
+
+  console.log('\n=== 테스트 완료 ===');
+}
+
+testTypeRegistry().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
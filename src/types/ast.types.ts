@@ -0,0 +1,193 @@
+import { ParameterFlags, ParameterType } from './parser.types';
+
+/**
+ * 템플릿 파싱 옵션
+ */
+export interface TemplateParseOptions {
+  /**
+   * %XX를 디코딩한 뒤 플레이스홀더를 찾을지 (기본값: false)
+   * 브라우저 주소창/로그에서 복사한 %7BA_TYPE_1%7D 같은 템플릿용
+   */
+  decodePercent?: boolean;
+  /** decodePercent 사용시 쿼리의 +를 공백으로 디코딩할지 (기본값: false) */
+  plusAsSpace?: boolean;
+  /**
+   * 빈 세그먼트(//, 끝의 /)와 = 없는 쿼리 key를 결과에 보존할지 (기본값: false)
+   * AST는 항상 보존하며, ParsedSegment/ParsedQuery로 변환할 때 적용
+   */
+  lossless?: boolean;
+}
+
+/**
+ * 입력 문자열 안의 위치 정보
+ * start는 포함, end는 제외 (input.slice(start, end)가 원본 텍스트)
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * 중괄호 바깥의 일반 문자열
+ */
+export interface TextNode extends SourceSpan {
+  kind: 'Text';
+  value: string;
+}
+
+/**
+ * [플래그]{내용} 형태의 중괄호 패턴
+ *
+ * 예: er{A:NAME} → flagString='er', content='A:NAME', declaredType='A', name='NAME'
+ * 예: {A_TYPE_1|v{OTHER}} → name='A_TYPE_1', defaultValue='v{OTHER}'
+ */
+export interface PlaceholderNode extends SourceSpan {
+  kind: 'Placeholder';
+  /** 중괄호 앞의 플래그 문자열 (작성된 그대로) */
+  flagString: string;
+  /** 파싱된 플래그 */
+  flags: ParameterFlags;
+  /** 중괄호 안의 원본 내용 */
+  content: string;
+  /** 중괄호 안 내용의 위치 (중괄호 제외) */
+  contentSpan: SourceSpan;
+  /** {TYPE:NAME} 형태로 선언된 타입 (없으면 null) */
+  declaredType: ParameterType | null;
+  /** 타입 선언과 기본값을 제외한 변환 대상 값 */
+  name: string;
+  /** {NAME|기본값} 형태의 기본값 원본 (변환 실패시 대신 사용, 없으면 null) */
+  defaultValue: string | null;
+  /**
+   * 기본값만 다시 파싱한 결과 (없으면 null)
+   * children 중 기본값 부분과 같은 내용이라 순회 대상은 아님
+   */
+  defaultParts: ValueNode[] | null;
+  /** 내용을 다시 파싱한 결과 (중첩된 중괄호 패턴 포함) */
+  children: ValueNode[];
+}
+
+export type ValueNode = TextNode | PlaceholderNode;
+
+/**
+ * 호스트의 세부 구성요소 (userinfo, hostname, port)
+ * Host 노드의 parts와 같은 내용을 구성요소별로 나눈 것이라 순회 대상은 아님
+ */
+export interface HostComponent extends SourceSpan {
+  raw: string;
+  parts: ValueNode[];
+}
+
+/**
+ * 호스트 부분 (프로토콜 :// 이후 경로/쿼리 전까지)
+ *
+ * 예: admin@{A_TYPE_1}:8080 → userinfo='admin', hostname='{A_TYPE_1}', port='8080'
+ */
+export interface HostNode extends SourceSpan {
+  kind: 'Host';
+  raw: string;
+  parts: ValueNode[];
+  /** @ 앞 부분 (없으면 null) */
+  userinfo: HostComponent | null;
+  /** 호스트명 (IPv6 리터럴은 대괄호 포함) */
+  hostname: HostComponent;
+  /** 호스트명을 . 으로 나눈 라벨 (IPv6 리터럴은 라벨 하나, 빈 라벨도 보존) */
+  labels: SegmentNode[];
+  /** : 뒤 포트 (없으면 null) */
+  port: HostComponent | null;
+}
+
+/**
+ * / 로 구분된 경로 세그먼트 하나 (빈 세그먼트도 그대로 보존)
+ */
+export interface SegmentNode extends SourceSpan {
+  kind: 'Segment';
+  /** 세그먼트 템플릿 (decodePercent 사용시 디코딩된 표기) */
+  raw: string;
+  parts: ValueNode[];
+  /** 디코딩 전 원본 표기 (decodePercent로 raw가 바뀐 경우에만) */
+  encoded?: string;
+}
+
+export interface PathNode extends SourceSpan {
+  kind: 'Path';
+  raw: string;
+  segments: SegmentNode[];
+}
+
+/**
+ * & 로 구분된 key=value 쌍 하나
+ */
+export interface PairNode extends SourceSpan {
+  kind: 'Pair';
+  raw: string;
+  key: string;
+  keySpan: SourceSpan;
+  keyParts: ValueNode[];
+  /** = 뒤의 값 (= 가 없으면 null) */
+  value: string | null;
+  valueSpan: SourceSpan | null;
+  valueParts: ValueNode[];
+  /** 값이 e{a=1&b=2}처럼 중괄호 안에 다시 쿼리를 담고 있을 때 내부 쌍들 */
+  nested: PairNode[];
+  /** 디코딩 전 원본 key (decodePercent로 key가 바뀐 경우에만) */
+  encodedKey?: string;
+  /** 디코딩 전 원본 value (decodePercent로 value가 바뀐 경우에만) */
+  encodedValue?: string;
+}
+
+export interface QueryNode extends SourceSpan {
+  kind: 'Query';
+  raw: string;
+  pairs: PairNode[];
+}
+
+/**
+ * ?e{name={A_TYPE_1}&value=test} 같은 전역 플래그 그룹
+ */
+export interface GlobalGroupNode extends SourceSpan {
+  kind: 'GlobalGroup';
+  raw: string;
+  flagString: string;
+  flags: ParameterFlags;
+  contentSpan: SourceSpan;
+  pairs: PairNode[];
+}
+
+/**
+ * # 이후의 fragment
+ *
+ * 경로/쿼리 구조를 그대로 따름:
+ * - #section-{A_TYPE_1} → path만 있음 (세그먼트 하나)
+ * - #/orders?id={A_TYPE_1} → SPA 라우트 형태의 path + query
+ */
+export interface FragmentNode extends SourceSpan {
+  kind: 'Fragment';
+  raw: string;
+  path: PathNode | null;
+  query: QueryNode | GlobalGroupNode | null;
+}
+
+/**
+ * 템플릿 전체
+ */
+export interface UrlNode extends SourceSpan {
+  kind: 'Url';
+  source: string;
+  protocol: string;
+  host: HostNode | null;
+  path: PathNode | null;
+  query: QueryNode | GlobalGroupNode | null;
+  fragment: FragmentNode | null;
+}
+
+export type TemplateNode =
+  | UrlNode
+  | HostNode
+  | PathNode
+  | SegmentNode
+  | QueryNode
+  | GlobalGroupNode
+  | FragmentNode
+  | PairNode
+  | TextNode
+  | PlaceholderNode;
@@ -0,0 +1,45 @@
+import { SourceSpan } from './ast.types';
+
+/**
+ * 진단 심각도
+ * - error: 그대로 렌더링하면 의도와 다른 결과가 나옴 (엔진의 onSyntaxError: 'throw'에서 예외 대상)
+ * - warning: 렌더링은 되지만 작성 실수일 가능성이 높음
+ */
+export type DiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * 진단 코드 (외부에서 필터링/무시 목록에 사용하므로 값은 변경하지 않음)
+ */
+export const DiagnosticCode = {
+  /** { 에 짝이 맞는 } 가 없음 */
+  UNCLOSED_BRACE: 'UNCLOSED_BRACE',
+  /** 열리지 않은 } (예: } 가 { 보다 먼저 나옴) */
+  UNEXPECTED_CLOSING_BRACE: 'UNEXPECTED_CLOSING_BRACE',
+  /** 내용이 없는 중괄호 (예: {}, e{}) */
+  EMPTY_PLACEHOLDER: 'EMPTY_PLACEHOLDER',
+  /** 플래그 자리에 등록되지 않은 문자가 있음 (예: x{A_TYPE_1}) */
+  UNKNOWN_FLAG: 'UNKNOWN_FLAG',
+  /** 같은 플래그가 중복됨 (예: ee{A_TYPE_1}) */
+  DUPLICATE_FLAG: 'DUPLICATE_FLAG',
+  /** 전역 그룹에 확장 플래그가 있음 (예: ?u{a={A_TYPE_1}}) → 전역 그룹에는 적용되지 않음 */
+  UNSUPPORTED_GLOBAL_FLAG: 'UNSUPPORTED_GLOBAL_FLAG',
+  /** 어떤 타입에도 속하지 않아 변환될 수 없는 값 */
+  UNKNOWN_TYPE: 'UNKNOWN_TYPE',
+  /** key가 비어 있는 쿼리 (예: =value) → 결과에서 제외됨 */
+  EMPTY_QUERY_KEY: 'EMPTY_QUERY_KEY',
+  /** = 가 없는 쿼리 (예: &flag&) → 결과에서 제외됨 (lossless 모드에서는 key만 유지) */
+  MISSING_QUERY_VALUE: 'MISSING_QUERY_VALUE'
+} as const;
+
+export type DiagnosticCode = typeof DiagnosticCode[keyof typeof DiagnosticCode];
+
+/**
+ * 템플릿 검증 결과 항목
+ */
+export interface TemplateDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** 원본 템플릿에서 문제가 되는 위치 */
+  range: SourceSpan;
+}
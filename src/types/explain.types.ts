@@ -0,0 +1,51 @@
+import { FilteringMode } from './parser.types';
+
+/** 설명 보고서 언어 */
+export type ExplainLocale = 'ko' | 'en';
+
+/** 설명 보고서 출력 형식 */
+export type ExplainFormat = 'text' | 'markdown';
+
+/**
+ * 값 하나를 설명하는 단계 (보고서에 나오는 순서)
+ */
+export const ExplainStepKind = {
+  /** 파라미터/치환 모드 판단 */
+  MODE: 'mode',
+  /** 적용된 플래그 */
+  FLAGS: 'flags',
+  /** 타입 조회 (선언/감지/리터럴/미등록) */
+  TYPE: 'type',
+  /** 타입 변환 결과, 기본값, 실패 처리 */
+  CONVERSION: 'conversion',
+  /** 암호화 */
+  ENCRYPTION: 'encryption',
+  /** 인코딩까지 마친 최종 값 */
+  RESULT: 'result',
+  /** STRICT 모드 포함/제외 이유 */
+  STRICT: 'strict',
+  /** 필수 값 실패 */
+  REQUIRED: 'required'
+} as const;
+
+export type ExplainStepKind = typeof ExplainStepKind[keyof typeof ExplainStepKind];
+
+/**
+ * explainRender 옵션
+ */
+export interface ExplainRenderOptions {
+  /** 출력 형식 (기본값: text) */
+  format?: ExplainFormat;
+  /** 언어 (기본값: ko) */
+  locale?: ExplainLocale;
+  /**
+   * 렌더링에 사용한 필터링 모드 (기본값: transform 결과에 기록된 엔진 옵션)
+   * reconstruct/render에 다른 모드를 지정했을 때만 전달
+   * (DEFAULT면 STRICT 모드였다면 제외되었을 값만 알려줌)
+   */
+  filteringMode?: FilteringMode;
+  /** 엔진의 strictDefaults 옵션 (기본값: transform 결과에 기록된 엔진 옵션) */
+  strictDefaults?: 'exclude' | 'include';
+  /** 렌더링된 URL (있으면 보고서 머리에 포함) */
+  url?: string;
+}
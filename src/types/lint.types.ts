@@ -0,0 +1,54 @@
+import { SourceSpan } from './ast.types';
+import { DiagnosticSeverity } from './diagnostic.types';
+
+/**
+ * 린트 규칙 이름 (설정 파일의 key로 사용하므로 값은 변경하지 않음)
+ */
+export const LintRuleName = {
+  /** v{A_TYPE_1}처럼 등록된 타입 값을 리터럴로 작성함 (변환되지 않고 이름이 그대로 출력됨) */
+  LITERAL_TYPE_NAME: 'literal-type-name',
+  /** ee{A_TYPE_1}처럼 같은 플래그가 중복됨 (두 번째부터 무시됨) */
+  DUPLICATE_FLAG: 'duplicate-flag',
+  /** 이미 암호화되는 전역 그룹/플레이스홀더 안의 e 플래그 (이중 암호화) */
+  NESTED_ENCRYPTION: 'nested-encryption',
+  /** 어떤 타입에도 속하지 않아 항상 변환에 실패하는 값 */
+  UNKNOWN_TYPE: 'unknown-type',
+  /** STRICT 모드에서 항상 제외되는 쿼리 값 (기본값: off) */
+  STRICT_INCOMPATIBLE: 'strict-incompatible'
+} as const;
+
+export type LintRuleName = typeof LintRuleName[keyof typeof LintRuleName];
+
+/** 규칙별 심각도 설정 (off면 검사하지 않음) */
+export type LintRuleSeverity = DiagnosticSeverity | 'off';
+
+/**
+ * lintTemplate 설정
+ */
+export interface LintConfig {
+  /** 규칙별 심각도 (지정하지 않은 규칙은 기본 심각도) */
+  rules?: Partial<Record<LintRuleName, LintRuleSeverity>>;
+}
+
+/**
+ * 자동 수정 제안 (원본 템플릿의 range 부분을 text로 교체)
+ */
+export interface LintFix {
+  range: SourceSpan;
+  text: string;
+  /** 수정 내용 설명 */
+  description: string;
+}
+
+/**
+ * 린트 결과 항목
+ */
+export interface LintMessage {
+  rule: LintRuleName;
+  severity: DiagnosticSeverity;
+  message: string;
+  /** 원본 템플릿에서 문제가 되는 위치 */
+  range: SourceSpan;
+  /** 자동 수정 제안 (제안할 수 없으면 없음) */
+  fix?: LintFix;
+}
@@ -0,0 +1,132 @@
+import { SourceSpan } from './ast.types';
+import { ParameterFlags, ParameterType, TraceLocation } from './parser.types';
+
+/**
+ * 매칭 실패 코드 (외부에서 분기에 사용하므로 값은 변경하지 않음)
+ */
+export const MatchMismatchCode = {
+  /** 프로토콜이 다름 (http ↔ https) */
+  PROTOCOL_MISMATCH: 'PROTOCOL_MISMATCH',
+  /** userinfo, 호스트명, 포트 중 하나가 템플릿과 맞지 않음 */
+  HOST_MISMATCH: 'HOST_MISMATCH',
+  /** 경로 세그먼트 수나 내용이 템플릿과 맞지 않음 */
+  PATH_MISMATCH: 'PATH_MISMATCH',
+  /** 항상 렌더링되는 쿼리(정적 값, 필수 값)가 URL에 없음 */
+  QUERY_MISSING: 'QUERY_MISSING',
+  /** 쿼리 key는 있지만 값이 템플릿과 맞지 않음 */
+  QUERY_VALUE_MISMATCH: 'QUERY_VALUE_MISMATCH',
+  /** 템플릿에 없는 쿼리 key (extraQuery: 'error'일 때만) */
+  UNEXPECTED_QUERY: 'UNEXPECTED_QUERY',
+  /** fragment가 템플릿과 맞지 않음 */
+  FRAGMENT_MISMATCH: 'FRAGMENT_MISMATCH'
+} as const;
+
+export type MatchMismatchCode = typeof MatchMismatchCode[keyof typeof MatchMismatchCode];
+
+/**
+ * URL에서 찾아낸 플레이스홀더 값 하나
+ */
+export interface MatchedValue {
+  /** 플레이스홀더 이름 (플래그, 타입 선언, 기본값 제외: er{A:NAME} → NAME) */
+  name: string;
+  /** 선언된 타입 또는 이름으로 감지한 타입 (전역 쿼리는 GLOBAL) */
+  type: ParameterType;
+  /** 작성된 플래그 (e 플래그 값은 암호문 그대로) */
+  flags: ParameterFlags;
+  /** 퍼센트 디코딩된 값 */
+  value: string;
+  /** 어디서 발견되었는지 (변환 추적 정보와 같은 기준) */
+  location: TraceLocation;
+  /** 변환 추적 정보와 같은 identifier (segment-0, name, name.key, fragment.x, host.segment-0) */
+  identifier: string;
+  /** 쿼리의 key와 value 중 어디에서 발견되었는지 (쿼리 안의 값에만 설정) */
+  part?: 'key' | 'value';
+  /** 원본 템플릿에서 플레이스홀더의 위치 */
+  range: SourceSpan;
+}
+
+/**
+ * URL에 나타나지 않아 값을 알 수 없는 플레이스홀더
+ * (변환 실패나 STRICT 모드로 제외된 쿼리, 생략된 선택 그룹)
+ */
+export type UnresolvedPlaceholder = Omit<MatchedValue, 'value'>;
+
+/**
+ * 템플릿과 맞지 않는 부분
+ */
+export interface UrlMismatch {
+  code: MatchMismatchCode;
+  message: string;
+  location: TraceLocation;
+  /** 원본 템플릿에서 대응하는 위치 */
+  range: SourceSpan;
+  /** 템플릿에 작성된 부분 */
+  expected: string;
+  /** URL의 실제 부분 (URL에 없으면 null) */
+  actual: string | null;
+}
+
+/**
+ * matchUrl 결과
+ */
+export interface UrlMatchResult {
+  /** 템플릿으로 렌더링될 수 있는 URL인지 (mismatches가 비어 있고 찾지 못한 필수 값이 없으면 true) */
+  matched: boolean;
+  /** 찾아낸 값 (템플릿 작성 순서) */
+  values: MatchedValue[];
+  /** 이름별 값 (같은 이름이 여러 번 나오면 처음 찾은 값) */
+  params: Record<string, string>;
+  /** URL에 나타나지 않은 플레이스홀더 */
+  unresolved: UnresolvedPlaceholder[];
+  /** 템플릿과 맞지 않는 부분 (위치 순) */
+  mismatches: UrlMismatch[];
+}
+
+/**
+ * decodeUrl 필드별 검증 결과 (외부에서 분기에 사용하므로 값은 변경하지 않음)
+ */
+export const DecodedFieldStatus = {
+  /** 암호화되지 않은 값 (URL에 나타난 그대로) */
+  PLAIN: 'PLAIN',
+  /** 복호화에 성공하고 안쪽 내용도 템플릿과 맞음 (복호화된 내용 안의 값도 이 상태) */
+  DECRYPTED: 'DECRYPTED',
+  /** e 플래그 값이지만 decryptor가 없어 복호화하지 않음 */
+  NO_DECRYPTOR: 'NO_DECRYPTOR',
+  /** decryptor가 실패함 (키가 다르거나 변조된 암호문) */
+  DECRYPT_FAILED: 'DECRYPT_FAILED',
+  /** 복호화는 되었지만 안쪽 내용이 템플릿 구조와 맞지 않음 */
+  INNER_MISMATCH: 'INNER_MISMATCH'
+} as const;
+
+export type DecodedFieldStatus = typeof DecodedFieldStatus[keyof typeof DecodedFieldStatus];
+
+/**
+ * decodeUrl로 되돌린 값 하나
+ */
+export interface DecodedField extends UnresolvedPlaceholder {
+  /** 복호화된 값 (암호화되지 않았으면 URL 값 그대로, 복호화하지 못했으면 null) */
+  value: string | null;
+  /** URL에 나타난 값 (퍼센트 디코딩만, e 플래그 값은 암호문) */
+  rawValue: string;
+  status: DecodedFieldStatus;
+  /** 복호화 실패 사유 (DECRYPT_FAILED일 때만) */
+  error?: string;
+}
+
+/**
+ * decodeUrl 결과
+ */
+export interface DecodedUrl {
+  /** URL 구조가 템플릿과 맞는지 (mismatches가 비어 있고 찾지 못한 필수 값이 없으면 true) */
+  matched: boolean;
+  /** 모든 필드가 PLAIN 또는 DECRYPTED인지 */
+  verified: boolean;
+  /** 되돌린 값 (템플릿 작성 순서, 복호화된 내용 안의 값은 바깥 값 바로 뒤) */
+  fields: DecodedField[];
+  /** 이름별 값 (값이 있는 필드 중 처음 나온 것) */
+  values: Record<string, string>;
+  /** URL이나 복호화된 내용에 나타나지 않은 플레이스홀더 */
+  unresolved: UnresolvedPlaceholder[];
+  /** 템플릿과 맞지 않는 부분 (복호화된 내용 안의 불일치 포함) */
+  mismatches: UrlMismatch[];
+}
@@ -1,10 +1,26 @@
-export enum ParameterType {
-  A = 'A',
-  B = 'B',
-  LITERAL = 'LITERAL',
-  UNKNOWN = 'UNKNOWN',
-  GLOBAL = 'GLOBAL'
-}
+import { SourceSpan, UrlNode, ValueNode } from './ast.types';
+import { TemplateDiagnostic } from './diagnostic.types';
+
+/**
+ * 기본 제공 파라미터 타입
+ * - A/B는 기본 타입 레지스트리에 미리 등록된 타입
+ * - LITERAL/UNKNOWN/GLOBAL은 예약된 내부 타입 (레지스트리에 등록 불가)
+ */
+export const ParameterType = {
+  A: 'A',
+  B: 'B',
+  LITERAL: 'LITERAL',
+  UNKNOWN: 'UNKNOWN',
+  GLOBAL: 'GLOBAL'
+} as const;
+
+export type BuiltInParameterType = typeof ParameterType[keyof typeof ParameterType];
+
+/**
+ * 파라미터 타입 - 기본 타입 또는 타입 레지스트리에 등록된 이름
+ * (string & {})는 자동완성에서 기본 타입 이름을 유지하기 위한 표기
+ */
+export type ParameterType = BuiltInParameterType | (string & {});
 
 export enum ProcessingMode {
   PARAMETER = 'PARAMETER',     // name={A_TYPE_2} - 값 없으면 제외
@@ -16,20 +32,94 @@ export enum FilteringMode {
   STRICT = 'STRICT'        // 엄격한 모드: 일반 문자열과 v(리터럴)만 포함
 }
 
+/**
+ * 렌더링된 값이 들어가는 위치 - 위치마다 그대로 둘 수 있는 문자가 다름 (RFC 3986)
+ */
+export enum EncodingContext {
+  PATH_SEGMENT = 'PATH_SEGMENT',     // /{값}/ - / ? # 등 인코딩
+  QUERY_KEY = 'QUERY_KEY',           // {키}=... - & = + # 등 인코딩
+  QUERY_VALUE = 'QUERY_VALUE',       // ...={값} - & = + # 등 인코딩
+  FRAGMENT = 'FRAGMENT',             // #{값} - # 등 인코딩 (/ ?는 허용)
+  USERINFO = 'USERINFO',             // {사용자}:{비밀번호}@ - : @ / 등 인코딩
+  GLOBAL_PAYLOAD = 'GLOBAL_PAYLOAD'  // ?{암호문} - 비예약 문자 외 모두 인코딩
+}
+
+/**
+ * 여러 값을 가진 쿼리 key의 직렬화 형태
+ */
+export enum QueryArrayStyle {
+  REPEAT = 'repeat',       // tag=a&tag=b
+  BRACKETS = 'brackets',   // tag[]=a&tag[]=b
+  COMMA = 'comma',         // tag=a,b
+  INDEXED = 'indexed'      // tag[0]=a&tag[1]=b
+}
+
+/**
+ * 플레이스홀더 변환 실패시 처리 방법 (엔진 옵션, 타입 정의, 확장 플래그의 onFailure)
+ * - default: {NAME|기본값}의 기본값을 사용 (기본값이 없거나 기본값도 만들지 못하면 mode와 같음)
+ * - mode: 처리 모드별 기존 동작 (파라미터 모드 쿼리는 제외, 치환 위치는 빈 값, 경로 세그먼트는 빈 세그먼트)
+ * - keep: 작성된 플레이스홀더를 값으로 그대로 남김 (name={A_TYPE_1} → name=%7BA_TYPE_1%7D)
+ * - empty: 빈 값으로 남김 (name=, 빈 세그먼트)
+ * - drop: 플레이스홀더가 속한 key=value 쌍 또는 세그먼트 전체를 제외
+ * - throw: PlaceholderConversionError로 렌더링 중단
+ *
+ * 작성된 기본값은 default일 때만 사용됨 (다른 정책은 기본값 대신 바로 적용)
+ */
+export type FailurePolicy = 'default' | 'mode' | 'keep' | 'empty' | 'drop' | 'throw';
+
 export interface ParameterFlags {
   encrypted: boolean;
   required: boolean;
   literal: boolean;
+  /** 적용된 확장 플래그 이름들 (플래그 레지스트리에 등록된 플래그, 적용 순서대로) */
+  custom?: string[];
 }
 
 export interface ParsedParameter {
   originalValue: string;
   flags: ParameterFlags;
   type: ParameterType;
+  /** {TYPE:NAME} 형태로 명시적으로 선언된 타입 (선언이 없으면 null/undefined) */
+  declaredType?: ParameterType | null;
+  /** {NAME|기본값} 형태로 작성된 기본값 원본 (이스케이프 포함, 없으면 null/undefined) */
+  defaultValue?: string | null;
+  /** 변환에 실패해 기본값이 사용되었는지 (transform 이후에만 설정, convertedValue는 기본값) */
+  defaultUsed?: boolean;
+  /**
+   * 확장 플래그 변환이나 암호화에 실패했는지 (transform 이후에만 설정)
+   * 변환값이나 리터럴 값이 있어도 평문이 출력되지 않도록 값 전체를 변환 실패로 처리
+   */
+  transformFailed?: boolean;
+  /**
+   * 변환에 실패해 적용된 처리 방법 (transform 이후 실패한 값에만 설정)
+   * 치환 모드 값은 안쪽 플레이스홀더에 drop이 적용되었을 때만 drop으로 설정
+   */
+  failurePolicy?: FailurePolicy;
+  /** 선택 그룹([ ... ])만으로 이루어진 값의 그룹이 모두 생략되어 값 전체가 제외되는지 (치환 모드) */
+  omitted?: boolean;
+  /**
+   * STRICT 모드 재구성에 사용할 값 (선택 그룹 때문에 finalValue와 다를 때만, 쿼리 값에만 설정)
+   * 리터럴이 아닌 플레이스홀더가 있는 그룹을 생략한 값이며, null이면 STRICT 모드에서 값 전체 제외
+   */
+  strictValue?: string | null;
   extractedValue: string | null;
   convertedValue: string | null;
   encryptedValue: string | null;
   finalValue: string;
+  /** 원본 템플릿에서의 위치 (세그먼트 전체 또는 key=value 쌍 전체) */
+  span?: SourceSpan;
+  /**
+   * 변환에 사용할 값 노드 (파서가 만든 AST)
+   * - 파라미터 모드: 값 전체인 Placeholder 하나 (기본값은 defaultParts)
+   * - 치환 모드: 치환할 노드들 (값 전체를 감싼 e{PROC=!@r{NAME}}이면 안쪽 노드)
+   * 직접 만든 파라미터처럼 없으면 extractedValue/defaultValue를 다시 파싱해 사용
+   */
+  parts?: ValueNode[];
+  /**
+   * 퍼센트 디코딩 전 원본 표기 (decodePercent로 디코딩된 정적 값에만 존재)
+   * 변환할 플레이스홀더가 없는 값은 재구성시 디코딩된 값 대신 이 표기를 그대로 사용
+   */
+  sourceValue?: string;
 }
 
 export interface ParsedSegment extends ParsedParameter {
@@ -38,22 +128,136 @@ export interface ParsedSegment extends ParsedParameter {
 }
 
 export interface ParsedQuery extends ParsedParameter {
+  /** 작성된 key (이스케이프 제거, 플레이스홀더가 있으면 변환 전 템플릿 그대로 - 추적 정보 identifier에 사용) */
   key: string;
+  /** 퍼센트 디코딩 전 원본 key (decodePercent로 key가 바뀐 경우에만, 재구성시 그대로 사용) */
+  sourceKey?: string;
+  /**
+   * key에 플레이스홀더가 있을 때 key의 파싱/변환 정보 ({A_TYPE_1}=value, filter_{B_TYPE_1}=x)
+   * 값과 같은 규칙으로 변환되며, 변환 후 finalValue(QUERY_KEY 인코딩 적용)가 재구성 결과의 key
+   */
+  keyParameter?: ParsedQueryKey;
   value: string;
   processingMode: ProcessingMode;
+  /** 같은 이름의 key가 여러 번 나오거나 tag[], tag[0] 형태인 다중 값 쿼리 정보 */
+  arrayKey?: QueryArrayKey;
+  /** = 없이 key만 작성된 쿼리 (lossless 모드에서만 생성, 재구성시 key만 출력: ?debug) */
+  valueless?: boolean;
+}
+
+/**
+ * 플레이스홀더가 있는 쿼리 key의 파싱/변환 정보
+ */
+export interface ParsedQueryKey extends ParsedParameter {
+  processingMode: ProcessingMode;
+}
+
+/**
+ * 다중 값 쿼리 key 정보
+ */
+export interface QueryArrayKey {
+  /** [] / [n]을 제외한 이름 (tag[] → tag) */
+  name: string;
+  /** 템플릿에 작성된 형태 (tag → REPEAT, tag[] → BRACKETS, tag[0] → INDEXED) */
+  style: QueryArrayStyle;
+}
+
+/**
+ * 같은 이름으로 묶인 다중 값 쿼리 (groupArrayQueries 결과)
+ */
+export interface ParsedQueryGroup {
+  name: string;
+  /** 첫 번째 값의 작성 형태 (엔진 옵션 queryArrayStyle이 없으면 이 형태로 재구성) */
+  style: QueryArrayStyle;
+  /** 작성 순서대로의 값들 */
+  items: ParsedQuery[];
 }
 
 export interface GlobalParsedQuery extends ParsedQuery {
-  type: ParameterType.GLOBAL;
+  type: typeof ParameterType.GLOBAL;
   innerResults: ParsedQuery[];
 }
 
+/**
+ * 호스트(authority) 파싱 결과
+ * baseUrl은 원본 그대로 유지되고, 구성요소별 값은 여기서 확인
+ */
+export interface ParsedHost {
+  /** 프로토콜 :// 이후 경로/쿼리 전까지의 원본 문자열 */
+  raw: string;
+  /** @ 앞 부분 (예: user:pass, 없으면 null) */
+  userinfo: string | null;
+  /** 호스트명 (IPv6 리터럴은 대괄호 포함, 예: [::1]) - 변환 후에는 변환된 라벨로 조립된 값 */
+  hostname: string;
+  /** 호스트명을 . 으로 나눈 라벨 (경로 세그먼트와 같은 규칙으로 변환됨) */
+  labels: ParsedSegment[];
+  /** 포트 (예: 8080, 없으면 null) */
+  port: string | null;
+  /** userinfo를 세그먼트 하나처럼 파싱한 결과 ({A_TYPE_1}:{B_TYPE_1} → 치환 모드, 추적 identifier는 host.userinfo) */
+  userinfoParameter: ParsedSegment | null;
+  /** 포트를 세그먼트 하나처럼 파싱한 결과 ({B_TYPE_1} → 파라미터 모드, 추적 identifier는 host.port) */
+  portParameter: ParsedSegment | null;
+  /** hostname이 대괄호로 감싼 IPv6 리터럴인지 */
+  isIPv6: boolean;
+  /** 변환된 호스트명/포트가 올바르지 않은 이유 (플레이스홀더가 있는 구성요소만 검사, 문제가 없으면 undefined) */
+  invalidReason?: string;
+}
+
+/**
+ * # 이후 fragment 파싱 결과
+ * 경로/쿼리와 같은 규칙으로 파싱되며, 재구성시 URL 끝에 #과 함께 붙음
+ */
+export interface ParsedFragment {
+  /** # 이후 원본 문자열 */
+  raw: string;
+  /** fragment 경로가 /로 시작하는지 (#/route 형태의 SPA 라우트) */
+  leadingSlash: boolean;
+  /** fragment 경로 세그먼트 (#section-{A_TYPE_1}은 세그먼트 하나) */
+  url: ParsedSegment[];
+  /** fragment 안의 쿼리 (#/route?x={A_TYPE_1}) */
+  query: ParsedQuery[];
+  /** 변환된 세그먼트로 재구성된 fragment 경로 */
+  reconstructedPath: string;
+}
+
+/**
+ * 변환 추적 정보가 발견된 위치
+ */
+export type TraceLocation = 'host' | 'url' | 'query' | 'fragment';
+
+/**
+ * 변환 실패 사유 코드 (failureReason 문구와 같은 기준, 보고서 언어로 바꿀 때 사용)
+ * - unknown-type: 어떤 타입에도 속하지 않는 값
+ * - no-converter: 타입은 정해졌으나 TypeConverter/타입 전용 converter가 없음
+ * - value-not-found: 변환 함수가 값을 찾지 못함
+ * - no-encryptor: e 플래그가 있지만 Encryptor가 없음
+ * - encryption-failed: Encryptor가 값을 암호화하지 못함
+ * - flag-transform-failed: 확장 플래그 변환에 실패함
+ */
+export type FailureCode =
+  | 'unknown-type'
+  | 'no-converter'
+  | 'value-not-found'
+  | 'no-encryptor'
+  | 'encryption-failed'
+  | 'flag-transform-failed';
+
 /**
  * 변환 추적 정보 - 어떤 값이 어떻게 변환되었는지 기록
  */
 export interface TransformationTrace {
-  /** 원본 타입 (A, B, LITERAL 등) */
+  /** 원본 타입 (A, B, LITERAL 또는 레지스트리에 등록된 타입 이름) */
   type: ParameterType;
+  /** 타입이 {TYPE:NAME} 형태로 명시적으로 선언되었는지 여부 */
+  typeDeclared?: boolean;
+  /** 변환에 실패해 {NAME|기본값}의 기본값이 사용되었는지 (convertedValue는 기본값, failureReason은 원래 값의 실패 이유) */
+  defaultUsed?: boolean;
+  /** 확장 플래그 변환이나 암호화에 실패했는지 (변환값이나 리터럴 값이 있어도 값 전체가 실패) */
+  transformFailed?: boolean;
+  /** 변환에 실패해 적용된 처리 방법 (실패한 경우에만) */
+  failurePolicy?: FailurePolicy;
+  /** 선택 그룹([ ... ]) 안의 플레이스홀더인지 (실패하면 처리 방법 대신 그룹만 생략됨) */
+  optionalGroup?: boolean;
   /** 변환 대상이 된 원본 값 */
   target: string;
   /** 타입 변환된 값 (암호화 전) */
@@ -62,10 +266,12 @@ export interface TransformationTrace {
   encryptedValue: string | null;
   /** 최종 변환된 결과 값 */
   result: string;
-  /** 어디서 발견되었는지 (URL 세그먼트인지 쿼리인지) */
-  location: 'url' | 'query';
-  /** URL/쿼리의 키 또는 세그먼트 인덱스 */
+  /** 어디서 발견되었는지 (URL 세그먼트, 쿼리, fragment) */
+  location: TraceLocation;
+  /** URL/쿼리의 키 또는 세그먼트 인덱스 (key 안의 값은 `키.key`) */
   identifier: string;
+  /** 쿼리의 key와 value 중 어디에서 발견되었는지 (쿼리 안의 값에만 설정) */
+  part?: 'key' | 'value';
   /** 적용된 플래그들 */
   flags: ParameterFlags;
   /** 처리 모드 */
@@ -74,6 +280,26 @@ export interface TransformationTrace {
   transformationSuccess: boolean;
   /** 변환 실패 이유 (실패한 경우) */
   failureReason?: string;
+  /** 변환 실패 사유 코드 (failureReason과 함께 기록) */
+  failureCode?: FailureCode;
+}
+
+/**
+ * 변환에 실패한 필수(r 플래그) 값 정보
+ */
+export interface MissingRequiredValue {
+  /** 변환 대상이 된 원본 값 */
+  target: string;
+  /** 감지된 타입 */
+  type: ParameterType;
+  /** 어디서 발견되었는지 */
+  location: TraceLocation;
+  /** URL/쿼리의 키 또는 세그먼트 인덱스 (추적 정보의 identifier와 동일) */
+  identifier: string;
+  /** 변환 실패 이유 */
+  failureReason?: string;
+  /** 변환 실패 사유 코드 */
+  failureCode?: FailureCode;
 }
 
 export interface ParseResult {
@@ -81,12 +307,28 @@ export interface ParseResult {
   reconstructedPath: string;
   url: ParsedSegment[];
   query: ParsedQuery[];
+  /** 호스트 구성요소 (프로토콜이 없는 경로 템플릿이면 undefined) */
+  host?: ParsedHost;
+  /** # 이후 fragment (없으면 undefined) */
+  fragment?: ParsedFragment;
   /** 변환 과정 추적 정보 배열 */
   transformationTraces: TransformationTrace[];
+  /** 변환에 사용한 엔진의 필터링 모드 (transform 결과에만 설정) */
+  filteringMode?: FilteringMode;
+  /** 변환에 사용한 엔진의 strictDefaults 옵션 (transform 결과에만 설정) */
+  strictDefaults?: 'exclude' | 'include';
+  /** 변환에 실패한 필수 값 목록 (비어있지 않으면 결과 전체가 무효) */
+  missingRequired?: MissingRequiredValue[];
+  /** 원본 템플릿의 AST (parseTemplate 결과) */
+  ast?: UrlNode;
+  /** 템플릿 검증 결과 (validateTemplate) */
+  diagnostics?: TemplateDiagnostic[];
 }
 
 export type TypeConverter = (value: string, type: ParameterType) => Promise<string>;
 export type Encryptor = (value: string) => Promise<string>;
+/** Encryptor의 반대 방향 (암호문 → 평문, 실패하면 throw) */
+export type Decryptor = (value: string) => Promise<string>;
 
 // 타입 값들은 별도 파일로 분리
 export { ATYPE_VALUES, BTYPE_VALUES, type ATypeValue, type BTypeValue } from '../constants/typeValues';
\ No newline at end of file
@@ -0,0 +1,119 @@
+import { FlagDefinition } from './flagRegistry';
+
+/**
+ * 자주 쓰이는 확장 플래그 정의 모음
+ *
+ * 기본 레지스트리에는 등록되어 있지 않음:
+ * - 치환 모드에서 {앞의 플래그 문자는 역추적으로 인식되므로,
+ *   미리 등록하면 "sub{NAME}"의 b 같은 일반 문자가 플래그로 바뀔 수 있음
+ * - 필요한 플래그만 registerFlag(FLAG_PRESETS.base64url)처럼 등록해서 사용
+ *
+ * 구현은 encryption.ts와 같이 브라우저/Node 공통 Web API만 사용
+ */
+
+/**
+ * 문자열을 UTF-8 바이트로 변환한 뒤 base64url(패딩 없음)로 인코딩
+ */
+const bytesToBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/** b: UTF-8 문자열을 base64url로 인코딩 (암호화 후 적용) */
+const base64url: FlagDefinition = {
+  letter: 'b',
+  name: 'base64url',
+  stage: 'afterEncrypt',
+  transform: (value) => bytesToBase64Url(new TextEncoder().encode(value))
+};
+
+/** u: 대문자로 변환 (암호화 전 적용) */
+const uppercase: FlagDefinition = {
+  letter: 'u',
+  name: 'uppercase',
+  stage: 'beforeEncrypt',
+  transform: (value) => value.toUpperCase()
+};
+
+/** h: SHA-256 해시를 16진수 문자열로 (암호화 전 적용, 다른 변환 이후) */
+const sha256: FlagDefinition = {
+  letter: 'h',
+  name: 'sha256',
+  stage: 'beforeEncrypt',
+  order: 10,
+  transform: async (value) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return [...new Uint8Array(digest)]
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+};
+
+/** z: deflate-raw 압축 후 base64url로 인코딩 (암호화 전 적용, 해시 이후) */
+const compress: FlagDefinition = {
+  letter: 'z',
+  name: 'compress',
+  stage: 'beforeEncrypt',
+  order: 20,
+  transform: async (value) => {
+    const stream = new Blob([value]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    const compressed = await new Response(stream).arrayBuffer();
+    return bytesToBase64Url(new Uint8Array(compressed));
+  }
+};
+
+/** p: 이미 퍼센트 인코딩된 값 - 값은 그대로 두고 렌더링시 인코딩만 건너뜀 */
+const preEncoded: FlagDefinition = {
+  letter: 'p',
+  name: 'preEncoded',
+  stage: 'afterEncrypt',
+  skipEncoding: true,
+  transform: (value) => value
+};
+
+/** k: 변환에 실패하면 작성된 플레이스홀더를 그대로 남김 - 값은 바꾸지 않고 실패 정책만 지정 */
+const keepOnFailure: FlagDefinition = {
+  letter: 'k',
+  name: 'keepOnFailure',
+  onFailure: 'keep',
+  transform: (value) => value
+};
+
+/** n: 변환에 실패하면 빈 값으로 남김 (name=, 빈 세그먼트) */
+const emptyOnFailure: FlagDefinition = {
+  letter: 'n',
+  name: 'emptyOnFailure',
+  onFailure: 'empty',
+  transform: (value) => value
+};
+
+/** d: 변환에 실패하면 값이 속한 key=value 쌍 또는 세그먼트 전체를 제외 */
+const dropOnFailure: FlagDefinition = {
+  letter: 'd',
+  name: 'dropOnFailure',
+  onFailure: 'drop',
+  transform: (value) => value
+};
+
+/** t: 변환에 실패하면 PlaceholderConversionError로 렌더링 중단 */
+const throwOnFailure: FlagDefinition = {
+  letter: 't',
+  name: 'throwOnFailure',
+  onFailure: 'throw',
+  transform: (value) => value
+};
+
+export const FLAG_PRESETS = {
+  base64url,
+  uppercase,
+  sha256,
+  compress,
+  preEncoded,
+  keepOnFailure,
+  emptyOnFailure,
+  dropOnFailure,
+  throwOnFailure
+} as const;
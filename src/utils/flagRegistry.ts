@@ -0,0 +1,174 @@
+import { ParameterFlags, FailurePolicy } from '../types/parser.types';
+
+/**
+ * 확장 플래그의 값 변환 단계
+ *
+ * 전체 값 처리 순서:
+ * 1. 타입 변환 (TypeConverter) 또는 리터럴 값
+ * 2. beforeEncrypt 단계 플래그 (예: u 대문자화, z 압축)
+ * 3. 암호화 (e 플래그)
+ * 4. afterEncrypt 단계 플래그 (예: b 암호문을 base64url로)
+ *
+ * 암호화가 없는 경우에도 afterEncrypt 단계는 2단계 결과에 그대로 적용됨
+ */
+export type FlagStage = 'beforeEncrypt' | 'afterEncrypt';
+
+/** 확장 플래그의 값 변환 함수 */
+export type FlagTransform = (value: string) => string | Promise<string>;
+
+/**
+ * 레지스트리에 등록하는 확장 플래그 정의
+ */
+export interface FlagDefinition {
+  /** 플래그 문자 (소문자 한 글자, 예: 'b') */
+  letter: string;
+  /** 플래그 이름 (ParameterFlags.custom과 추적 정보에 표시됨, 예: 'base64url') */
+  name: string;
+  /** 값 변환 함수 */
+  transform: FlagTransform;
+  /** 적용 단계 (기본값: beforeEncrypt) */
+  stage?: FlagStage;
+  /** 같은 단계 안에서의 적용 순서 (작을수록 먼저, 기본값: 0, 같으면 등록 순서) */
+  order?: number;
+  /** true면 이 플래그가 붙은 값은 렌더링시 퍼센트 인코딩하지 않음 (이미 인코딩된 값용) */
+  skipEncoding?: boolean;
+  /** 이 플래그가 붙은 값의 변환 실패시 처리 방법 (타입 정의/엔진 옵션의 onFailure보다 우선) */
+  onFailure?: FailurePolicy;
+}
+
+export interface FlagRegistry {
+  /** 확장 플래그 등록 (같은 문자가 있으면 교체) */
+  register: (definition: FlagDefinition) => FlagRegistry;
+  /** 확장 플래그 등록 해제 */
+  unregister: (letter: string) => boolean;
+  /** 플래그 문자 조회 */
+  get: (letter: string) => FlagDefinition | undefined;
+  /** 플래그 이름으로 조회 */
+  getByName: (name: string) => FlagDefinition | undefined;
+  /** 적용 순서대로 확장 플래그 목록 반환 */
+  list: () => FlagDefinition[];
+  /** 기본 플래그(e, r, v)를 포함한 인식 가능한 전체 플래그 문자 */
+  letters: () => string[];
+}
+
+/**
+ * 기본 플래그 문자와 ParameterFlags 속성의 매핑
+ * 파싱/필터링 로직 전체가 이 의미에 의존하므로 교체나 해제 불가
+ */
+export const BUILT_IN_FLAGS = {
+  e: 'encrypted',
+  r: 'required',
+  v: 'literal'
+} as const;
+
+const STAGE_ORDER: Record<FlagStage, number> = {
+  beforeEncrypt: 0,
+  afterEncrypt: 1
+};
+
+/**
+ * 확장 플래그 레지스트리를 생성하는 팩토리 함수
+ *
+ * 파서, 검증, 출력, 설명 모두 defaultFlagRegistry만 사용하므로 라이브러리 밖으로 공개하지 않음
+ * (따로 만든 레지스트리에 등록한 플래그는 어디에도 적용되지 않음, 앱은 registerFlag 사용)
+ *
+ * 레지스트리가 필요한 이유:
+ * - 기존에는 e/r/v 세 문자가 정규식과 parseFlags에 하드코딩되어 있었음
+ * - 알 수 없는 문자는 조용히 무시되어 새 플래그를 추가하려면 라이브러리 수정이 필요했음
+ * - 앱에서 한 글자 플래그와 값 변환 단계를 직접 등록할 수 있도록 함
+ *
+ * @param definitions 초기 등록할 플래그 정의들
+ * @returns 플래그 레지스트리
+ */
+export const createFlagRegistry = (definitions: FlagDefinition[] = []): FlagRegistry => {
+  const flags = new Map<string, FlagDefinition>();
+
+  const registry: FlagRegistry = {
+    register: (definition) => {
+      if (!/^[a-z]$/.test(definition.letter)) {
+        throw new Error(`플래그 문자는 소문자 한 글자여야 합니다: ${definition.letter}`);
+      }
+      if (definition.letter in BUILT_IN_FLAGS) {
+        throw new Error(`기본 플래그는 재정의할 수 없습니다: ${definition.letter}`);
+      }
+      const sameName = registry.getByName(definition.name);
+      if (sameName && sameName.letter !== definition.letter) {
+        throw new Error(`이미 '${sameName.letter}' 플래그가 사용 중인 이름입니다: ${definition.name}`);
+      }
+      flags.set(definition.letter, definition);
+      return registry;
+    },
+    unregister: (letter) => flags.delete(letter),
+    get: (letter) => flags.get(letter),
+    getByName: (name) => [...flags.values()].find(definition => definition.name === name),
+    list: () => {
+      // 단계 → order → 등록 순서로 정렬 (Array.prototype.sort는 안정 정렬)
+      return [...flags.values()].sort((a, b) =>
+        STAGE_ORDER[a.stage ?? 'beforeEncrypt'] - STAGE_ORDER[b.stage ?? 'beforeEncrypt'] ||
+        (a.order ?? 0) - (b.order ?? 0)
+      );
+    },
+    letters: () => [...Object.keys(BUILT_IN_FLAGS), ...flags.keys()]
+  };
+
+  definitions.forEach(definition => registry.register(definition));
+  return registry;
+};
+
+/**
+ * 라이브러리 전역에서 사용하는 기본 플래그 레지스트리
+ * 확장 플래그는 앱에서 registerFlag로 명시적으로 등록해야 함
+ */
+export const defaultFlagRegistry = createFlagRegistry();
+
+/**
+ * 기본 레지스트리에 확장 플래그를 등록하는 편의 함수
+ *
+ * @example
+ * registerFlag({ letter: 'u', name: 'uppercase', transform: value => value.toUpperCase() });
+ * // u{NAME} → NAME_VALUE, eu{NAME} → ENCRYPTED(NAME_VALUE)
+ */
+export const registerFlag = (definition: FlagDefinition): FlagRegistry => {
+  return defaultFlagRegistry.register(definition);
+};
+
+/**
+ * 정규식에서 사용할 플래그 문자 클래스 (예: '[ervbu]')
+ * 플래그 문자는 소문자 한 글자로 제한되므로 이스케이프가 필요 없음
+ */
+export const getFlagCharClass = (): string => {
+  return `[${defaultFlagRegistry.letters().join('')}]`;
+};
+
+/**
+ * 인식 가능한 플래그 문자인지 확인
+ */
+export const isFlagLetter = (char: string): boolean => {
+  return defaultFlagRegistry.letters().includes(char);
+};
+
+/**
+ * 플래그에 포함된 확장 플래그 변환을 지정한 단계에 맞춰 순서대로 적용
+ *
+ * @param value 변환할 값
+ * @param flags 파싱된 플래그 (custom에 확장 플래그 이름 목록)
+ * @param stage 적용할 단계
+ * @returns 변환된 값
+ */
+export const applyFlagTransforms = async (
+  value: string,
+  flags: ParameterFlags,
+  stage: FlagStage
+): Promise<string> => {
+  if (!flags.custom || flags.custom.length === 0) {
+    return value;
+  }
+
+  let result = value;
+  for (const definition of defaultFlagRegistry.list()) {
+    if ((definition.stage ?? 'beforeEncrypt') === stage && flags.custom.includes(definition.name)) {
+      result = await definition.transform(result);
+    }
+  }
+  return result;
+};
@@ -1,28 +1,75 @@
-import { ParameterType, ParameterFlags, ProcessingMode, FilteringMode, ATYPE_VALUES, BTYPE_VALUES } from '../types/parser.types';
+import {
+  ParameterType,
+  ParameterFlags,
+  ProcessingMode,
+  FilteringMode,
+  FailurePolicy,
+  FailureCode,
+  ParsedQuery
+} from '../types/parser.types';
+import { defaultTypeRegistry, isConvertibleType } from './typeRegistry';
+import { defaultFlagRegistry, getFlagCharClass, applyFlagTransforms } from './flagRegistry';
+
+/**
+ * 백슬래시로 이스케이프할 수 있는 문자들: { } & = | [ ] \
+ *
+ * 예: v{a\&b} → a&b, name=x\{1\} → x{1}, {A_TYPE_1|a\|b} → 기본값 a|b, \[{A_TYPE_1}\] → [변환값]
+ * 그 외 문자 앞의 백슬래시는 일반 문자로 취급
+ */
+const ESCAPE_PATTERN = /\\[{}&=|[\]\\]/g;
+
+/** 구조 분석시 이스케이프된 문자를 대신하는 문자 (구분자/중괄호로 인식되지 않음) */
+const ESCAPE_MASK_CHAR = '\u0000';
+
+/**
+ * 이스케이프된 문자를 구분자로 인식되지 않는 문자로 가린 사본을 반환합니다.
+ * 
+ * 왜 원본을 바꾸지 않고 가린 사본을 쓰는가:
+ * - 길이가 같으므로 가린 사본에서 찾은 위치로 원본을 그대로 잘라낼 수 있음 (AST 위치 정보 유지)
+ * - 중괄호 짝 맞추기, & 분할, = 탐색, 모드 감지 정규식이 모두 같은 방식으로 이스케이프를 존중
+ * 
+ * @param text 템플릿 문자열
+ * @returns 같은 길이의 사본 (\{ → 두 글자 모두 가림 문자)
+ */
+export const maskEscapes = (text: string): string => {
+  return text.replace(ESCAPE_PATTERN, ESCAPE_MASK_CHAR + ESCAPE_MASK_CHAR);
+};
+
+/**
+ * 이스케이프를 제거하여 실제 문자로 되돌립니다. (\{ → {, \\ → \)
+ *
+ * @param text 템플릿 문자열
+ * @param encode 지정하면 복원한 문자를 인코딩하여 넣음 (쿼리 값의 \& → %26)
+ */
+export const unescapeTemplate = (text: string, encode?: (value: string) => string): string => {
+  return text.replace(ESCAPE_PATTERN, match => encode ? encode(match[1]) : match[1]);
+};
+
+/**
+ * 이스케이프 가능한 문자 앞에 백슬래시를 붙입니다.
+ * 치환 도중 삽입되는 값이 다시 중괄호 패턴으로 해석되지 않도록 할 때 사용
+ */
+export const escapeTemplate = (text: string): string => {
+  return text.replace(/[{}&=|[\]\\]/g, char => `\\${char}`);
+};
 
 /**
  * 주어진 값이 어떤 타입에 속하는지 감지합니다.
  * 
  * 로직 설명:
- * - ATYPE_VALUES 배열에 값이 있으면 A 타입
- * - BTYPE_VALUES 배열에 값이 있으면 B 타입  
- * - 둘 다 아니면 UNKNOWN 타입
+ * - 기본 타입 레지스트리에 등록된 타입들을 등록 순서대로 검사
+ * - 기본 레지스트리에는 ATYPE_VALUES(A), BTYPE_VALUES(B)가 미리 등록되어 있음
+ * - 어떤 타입에도 매칭되지 않으면 UNKNOWN 타입
  * 
  * 이 함수가 필요한 이유:
  * - 파싱된 값이 변환 API를 호출해야 하는지 판단하기 위해
- * - A/B 타입은 각각 다른 변환 API를 호출해야 함
+ * - 타입마다 다른 변환 API를 호출해야 함
  * 
  * @param value 검사할 값 (예: 'A_TYPE_1', 'B_TYPE_2')
- * @returns ParameterType enum 값
+ * @returns 감지된 타입 이름 (등록된 타입 또는 UNKNOWN)
  */
 export const detectParameterType = (value: string): ParameterType => {
-  if ((ATYPE_VALUES as readonly string[]).includes(value)) {
-    return ParameterType.A;
-  }
-  if ((BTYPE_VALUES as readonly string[]).includes(value)) {
-    return ParameterType.B;
-  }
-  return ParameterType.UNKNOWN;
+  return defaultTypeRegistry.detect(value);
 };
 
 /**
@@ -32,13 +79,15 @@ export const detectParameterType = (value: string): ParameterType => {
  * - 'e': encrypted (암호화 대상)
  * - 'r': required (필수값)  
  * - 'v': literal (리터럴 값, 타입 변환 없이 그대로 사용)
+ * - 그 외: 플래그 레지스트리에 등록된 확장 플래그 (custom에 이름으로 기록)
  * 
  * 왜 이렇게 구현했는가:
  * - 플래그는 순서에 상관없이 조합 가능 (예: 'er', 've', 'rev' 모두 유효)
  * - 각 문자를 순회하면서 해당하는 플래그를 true로 설정
- * - 알 수 없는 문자는 무시하여 안정성 확보
+ * - 확장 플래그는 작성 순서가 아니라 레지스트리의 적용 순서대로 정렬
+ * - 등록되지 않은 문자는 무시하여 안정성 확보
  * 
- * @param flagString 플래그 문자열 (예: 'er', 'v', 'rev')
+ * @param flagString 플래그 문자열 (예: 'er', 'v', 'rev', 'eb')
  * @returns 파싱된 플래그 객체
  */
 export const parseFlags = (flagString: string): ParameterFlags => {
@@ -47,6 +96,7 @@ export const parseFlags = (flagString: string): ParameterFlags => {
     required: false,
     literal: false
   };
+  const customLetters = new Set<string>();
 
   // 각 문자를 순회하면서 해당하는 플래그 설정
   for (const char of flagString) {
@@ -60,57 +110,135 @@ export const parseFlags = (flagString: string): ParameterFlags => {
       case 'v':
         flags.literal = true;
         break;
-      // 알 수 없는 문자는 무시 (미래 확장성 고려)
+      default:
+        // 등록된 확장 플래그만 기록, 나머지는 무시
+        if (defaultFlagRegistry.get(char)) {
+          customLetters.add(char);
+        }
     }
   }
 
+  if (customLetters.size > 0) {
+    flags.custom = defaultFlagRegistry.list()
+      .filter(definition => customLetters.has(definition.letter))
+      .map(definition => definition.name);
+  }
+
   return flags;
 };
 
 /**
- * 중괄호가 포함된 입력에서 플래그와 값을 추출합니다.
+ * 플래그가 하나라도 설정되어 있는지 확인합니다.
+ * 
+ * @param flags 검사할 플래그
+ * @returns 기본 플래그나 확장 플래그가 하나라도 있으면 true
+ */
+export const hasAnyFlag = (flags: ParameterFlags): boolean => {
+  return flags.encrypted || flags.required || flags.literal || (flags.custom?.length ?? 0) > 0;
+};
+
+/**
+ * 중괄호 안의 명시적 타입 선언({TYPE:NAME})을 분리합니다.
  * 
  * 로직 설명:
- * - 정규식 패턴: ^([erv]*)\{(.+)\}$
- *   - ^([erv]*): 시작부터 e, r, v 문자들 (플래그 부분)
- *   - \{(.+)\}: 중괄호 안의 내용 (실제 값 부분)
- *   - $: 문자열 끝까지
- * 
- * 왜 이 방식을 선택했는가:
- * - 파라미터 모드에서만 사용됨 (예: e{A_TYPE_1}, v{LITERAL})
- * - 치환 모드는 별도 함수에서 처리 (복잡한 중첩 구조 때문)
- * - 매치되지 않으면 플래그 없는 일반 값으로 처리
- * 
- * @param input 입력 문자열 (예: 'e{A_TYPE_1}', 'v{LITERAL}')
- * @returns 파싱된 결과 객체
+ * - 정규식 패턴: ^([A-Za-z][A-Za-z0-9_]*):([^{}]+)$
+ *   - TYPE: 식별자 형태의 타입 이름
+ *   - NAME: 실제 변환 대상 값 (중괄호 없음)
+ * - TYPE이 타입 레지스트리에 등록된 경우에만 타입 선언으로 인정
+ * 
+ * 왜 등록된 타입만 인정하는가:
+ * - v{http://host}, {12:30} 같은 일반 값의 콜론을 타입 선언으로 오인하지 않기 위해
+ * - 등록되지 않은 이름은 기존처럼 값 전체를 타입 감지 대상으로 사용
+ * 
+ * 예시:
+ * - 'A:CUSTOMER_ID' → { declaredType: 'A', name: 'CUSTOMER_ID' }
+ * - 'A_TYPE_1' → { declaredType: null, name: 'A_TYPE_1' }
+ * 
+ * @param content 중괄호 안의 내용
+ * @returns 선언된 타입(없으면 null)과 실제 값
  */
-export const extractValueWithBrackets = (input: string): {
-  value: string;
-  flags: ParameterFlags;
-  extractedValue: string | null;
+export const parseTypeAnnotation = (content: string): {
+  declaredType: ParameterType | null;
+  name: string;
 } => {
-  // 파라미터 형태 매칭: [플래그]{값}
-  const match = input.match(/^([erv]*)\{(.+)\}$/);
+  const match = content.match(/^([A-Za-z][A-Za-z0-9_]*):([^{}]+)$/);
   
-  if (!match) {
-    // 중괄호가 없거나 패턴이 맞지 않으면 일반 값으로 처리
-    return {
-      value: input,
-      flags: { encrypted: false, required: false, literal: false },
-      extractedValue: null
-    };
+  if (match && defaultTypeRegistry.has(match[1])) {
+    return { declaredType: match[1], name: match[2] };
   }
-
-  const [, flagString, content] = match;
-  const flags = parseFlags(flagString);
   
+  return { declaredType: null, name: content };
+};
+
+/**
+ * 중괄호 안의 {NAME|기본값} 형태에서 기본값을 분리합니다.
+ *
+ * 로직 설명:
+ * - 이스케이프되지 않은 첫 번째 | 를 기준으로 이름과 기본값을 나눔
+ * - | 앞(이름)에 { } & = 가 있으면 기본값 문법이 아님
+ *   (e{a=1|2&b=3} 같은 중첩 쿼리나 치환 문자열의 | 를 기본값으로 오인하지 않기 위해)
+ * - 기본값 안의 중괄호는 짝이 맞아야 함 ({NAME|v{OTHER}}는 허용, {A|x}y{B}처럼 잘라낸 내용은 제외)
+ *
+ * 예시:
+ * - 'A_TYPE_1|guest' → { name: 'A_TYPE_1', defaultValue: 'guest' }
+ * - 'A:CUSTOMER_ID|v{OTHER}' → { name: 'A:CUSTOMER_ID', defaultValue: 'v{OTHER}' }
+ * - 'A_TYPE_1|' → { name: 'A_TYPE_1', defaultValue: '' } (빈 값을 기본값으로 사용)
+ * - 'A_TYPE_1' → { name: 'A_TYPE_1', defaultValue: null }
+ *
+ * @param content 중괄호 안의 내용
+ * @returns 이름과 기본값 (기본값 문법이 아니면 null)
+ */
+export const splitDefaultValue = (content: string): {
+  name: string;
+  defaultValue: string | null;
+} => {
+  const masked = maskEscapes(content);
+  const separatorIndex = masked.indexOf('|');
+  if (separatorIndex === -1 || /[{}&=]/.test(masked.slice(0, separatorIndex))) {
+    return { name: content, defaultValue: null };
+  }
+
+  let depth = 0;
+  for (const char of masked.slice(separatorIndex + 1)) {
+    if (char === '{') depth++;
+    if (char === '}' && --depth < 0) break;
+  }
+  if (depth !== 0) {
+    return { name: content, defaultValue: null };
+  }
+
   return {
-    value: input,
-    flags,
-    extractedValue: content
+    name: content.slice(0, separatorIndex),
+    defaultValue: content.slice(separatorIndex + 1)
   };
 };
 
+/**
+ * 중괄호 안의 내용을 타입 선언, 변환 대상 이름, 기본값으로 나눕니다.
+ *
+ * 리터럴(v 플래그)은 내용 전체가 값이므로 아무것도 분리하지 않음:
+ * - v{A:NAME} → 'A:NAME', v{a|b} → 'a|b'
+ *
+ * 그 외에는 기본값을 먼저 분리한 뒤 이름에서 타입 선언을 분리:
+ * - {B:ORDER_NO|0} → declaredType 'B', name 'ORDER_NO', defaultValue '0'
+ *
+ * @param content 중괄호 안의 내용
+ * @param flags 중괄호 앞의 플래그
+ * @returns 선언된 타입, 변환 대상 이름, 기본값 (없으면 null)
+ */
+export const parsePlaceholderContent = (content: string, flags: ParameterFlags): {
+  declaredType: ParameterType | null;
+  name: string;
+  defaultValue: string | null;
+} => {
+  if (flags.literal) {
+    return { declaredType: null, name: content, defaultValue: null };
+  }
+
+  const { name, defaultValue } = splitDefaultValue(content);
+  return { ...parseTypeAnnotation(name), defaultValue };
+};
+
 /**
  * 전역 플래그를 감지하고 분리하는 핵심 함수
  * 
@@ -144,19 +272,19 @@ export const parseNestedStructure = (input: string): {
   globalFlags: ParameterFlags;
   content: string;
 } => {
-  // 전역 플래그 패턴 매칭: ^([erv]*)\{(.+)\}$
+  // 전역 플래그 패턴 매칭: ^([등록된 플래그 문자]*)\{(.+)\}$
   // - 쿼리 시작부터 끝까지 전체가 [플래그]{내용} 형태여야 함
   // - 부분적인 플래그는 전역이 아님 (예: name=e{VALUE}는 일반 플래그)
-  const globalMatch = input.match(/^([erv]*)\{(.+)\}$/);
+  const globalMatch = maskEscapes(input).match(new RegExp(`^(${getFlagCharClass()}*)\\{(.+)\\}$`));
   
   if (globalMatch) {
-    const [, flagString, content] = globalMatch;
+    const [, flagString] = globalMatch;
+    const content = input.slice(flagString.length + 1, -1);
     const flags = parseFlags(flagString);
     
-    // 실제로 플래그가 설정되어 있는지 확인
+    // 실제로 플래그가 설정되어 있는지 확인 (확장 플래그만 있는 ?u{...}도 전역 그룹)
     // 빈 문자열 {}만 있는 경우는 전역 플래그가 아님
-    if (flags.encrypted || flags.required || flags.literal) {
-      console.log(`[DEBUG] Global flags detected: ${flagString} -> ${JSON.stringify(flags)}`);
+    if (hasAnyFlag(flags)) {
       return {
         value: input,
         globalFlags: flags,
@@ -185,6 +313,11 @@ export const parseNestedStructure = (input: string): {
  * 2. **예측 가능성**: 사용자가 v 플래그를 쓰면 반드시 원본 값이 나옴을 보장
  * 3. **타입 충돌 해결**: 같은 문자열이 여러 타입에 해당할 때의 모호함 제거
  * 
+ * 2순위는 명시적 타입 선언:
+ * - {B:ORDER_NO}처럼 작성자가 타입을 선언하면 목록 감지 없이 선언된 타입 사용
+ * - 목록에 없는 이름도 선언된 타입으로 변환을 시도하므로 "알 수 없는 타입" 대신
+ *   "B 타입에 ORDER_NO 값이 없음" 같은 정확한 실패 사유를 남길 수 있음
+ * 
  * 사용 시나리오:
  * 1. **일반 케이스**: {A_TYPE_1} → detectParameterType으로 A 타입 반환
  * 2. **리터럴 케이스**: v{A_TYPE_1} → 강제로 LITERAL 타입 반환 (변환 안함)
@@ -195,12 +328,18 @@ export const parseNestedStructure = (input: string): {
  * - v{A_TYPE_1}: 타입=LITERAL, 변환안됨 → A_TYPE_1 (원본 그대로)
  * - e{A_TYPE_1}: 타입=A, 변환+암호화 → ENCRYPTED(A_TYPE_1_VALUE)
  * - ev{A_TYPE_1}: 타입=LITERAL, 암호화만 → ENCRYPTED(A_TYPE_1)
+ * - {B:ORDER_NO}: 타입=B (선언), 변환됨 → ORDER_NO에 대한 B 타입 값
  * 
- * @param value 검사할 값 (중괄호 안의 내용)
+ * @param value 검사할 값 (중괄호 안의 내용, TYPE:NAME 형태 허용)
  * @param flags 파싱된 플래그 정보
+ * @param declaredType 템플릿 파서가 이미 분리한 타입 선언 (선택적)
  * @returns 결정된 파라미터 타입
  */
-export const determineParameterType = (value: string, flags: ParameterFlags): ParameterType => {
+export const determineParameterType = (
+  value: string,
+  flags: ParameterFlags,
+  declaredType: ParameterType | null = null
+): ParameterType => {
   // 1순위: literal 플래그 확인
   // v 플래그가 있으면 무조건 LITERAL 타입으로 처리
   // 다른 모든 타입 감지를 무시하고 원본 값 사용
@@ -208,9 +347,16 @@ export const determineParameterType = (value: string, flags: ParameterFlags): Pa
     return ParameterType.LITERAL;
   }
   
-  // 2순위: 일반 타입 감지 (A/B/UNKNOWN)
-  // ATYPE_VALUES, BTYPE_VALUES 배열과 매칭하여 타입 결정
-  return detectParameterType(value);
+  // 2순위: 명시적 타입 선언 ({TYPE:NAME})
+  const annotation = parseTypeAnnotation(value);
+  const explicitType = declaredType ?? annotation.declaredType;
+  if (explicitType) {
+    return explicitType;
+  }
+  
+  // 3순위: 일반 타입 감지 (등록된 타입/UNKNOWN)
+  // 타입 레지스트리의 매처들과 비교하여 타입 결정
+  return detectParameterType(annotation.name);
 };
 
 /**
@@ -325,6 +471,55 @@ export const getFinalValue = (
   return originalValue;
 };
 
+/**
+ * 확장 플래그 변환과 암호화를 정해진 순서대로 적용하는 함수
+ * 
+ * 처리 순서:
+ * 1. 기준 값 (타입 변환값 또는 리터럴 값)
+ * 2. beforeEncrypt 단계 확장 플래그 (예: u 대문자화, h 해시)
+ * 3. 암호화 (encrypt 콜백, e 플래그가 없으면 null 반환)
+ * 4. afterEncrypt 단계 확장 플래그 (암호문에 적용, 암호화가 없으면 2단계 결과에 적용)
+ * 
+ * 확장 플래그 변환이나 암호화(encrypt 콜백의 예외)가 실패하면 변환되지 않은 값이나
+ * 암호화되지 않은 평문이 새어나가지 않도록 값 전체를 실패(failed)로 처리합니다.
+ * 
+ * @param baseValue 기준 값 (없으면 아무 처리도 하지 않음)
+ * @param flags 파싱된 플래그
+ * @param encrypt 암호화 콜백 (암호화하지 않으면 null 반환, 실패하면 예외)
+ * @returns 암호화 전 값과 암호화된 값, 실패 여부 (실패하면 두 값 모두 null)
+ */
+export const runValuePipeline = async (
+  baseValue: string | null,
+  flags: ParameterFlags,
+  encrypt: (value: string) => Promise<string | null>
+): Promise<{ value: string | null; encryptedValue: string | null; failed: boolean }> => {
+  if (!baseValue) {
+    return { value: baseValue, encryptedValue: null, failed: false };
+  }
+  
+  try {
+    const transformed = await applyFlagTransforms(baseValue, flags, 'beforeEncrypt');
+    const encryptedValue = await encrypt(transformed);
+    
+    if (encryptedValue !== null) {
+      return {
+        value: transformed,
+        encryptedValue: await applyFlagTransforms(encryptedValue, flags, 'afterEncrypt'),
+        failed: false
+      };
+    }
+    
+    return {
+      value: await applyFlagTransforms(transformed, flags, 'afterEncrypt'),
+      encryptedValue: null,
+      failed: false
+    };
+  } catch {
+    // 확장 플래그 변환이나 암호화가 실패하면 변환 실패로 처리
+    return { value: null, encryptedValue: null, failed: true };
+  }
+};
+
 /**
  * 최종 URL 재구성시 해당 파라미터/세그먼트를 포함할지 결정하는 검증 함수
  * 
@@ -350,7 +545,7 @@ export const getFinalValue = (
  *   - 예: {INVALID_VALUE} → 타입 감지 실패 + 변환 없음
  *   - 결과: 해당 파라미터 완전 제외
  * 
- * **4. A/B 타입 + 변환 실패 = 무효**
+ * **4. 등록된 타입(A/B 등) + 변환 실패 = 무효**
  *   - 이유: 타입은 감지되었으나 변환 API 호출 실패
  *   - 예: {A_TYPE_1} but TypeConverter 없음
  *   - 결과: 해당 파라미터 완전 제외
@@ -416,9 +611,9 @@ export const isValidValue = (
     return false;
   }
   
-  // 4순위: A/B 타입이지만 변환 실패 = 무효
+  // 4순위: 등록된 타입이지만 변환 실패 = 무효
   // 타입은 감지되었으나 실제 변환이 실패한 경우 (API 없음 등)
-  if ((type === ParameterType.A || type === ParameterType.B) && !convertedValue) {
+  if (isConvertibleType(type) && !convertedValue) {
     return false;
   }
   
@@ -426,6 +621,134 @@ export const isValidValue = (
   return true;
 };
 
+/**
+ * 플레이스홀더가 있는 key({A_TYPE_1}=value)를 변환하지 못해 쌍 전체를 제외해야 하는지 확인하는 함수
+ *
+ * key가 빈 문자열인 쌍은 의미가 없으므로 값과 달리 모드/정책과 관계없이 빈 key면 제외:
+ * - 파라미터 모드 key 변환 실패 (default/empty 정책) → 빈 key → 제외
+ * - keep 정책 → 작성된 플레이스홀더가 key로 남음 → 포함
+ * - drop 정책, 모두 생략된 선택 그룹 → 제외
+ * - 치환 모드 key(filter_{NAME})는 값과 같이 실패한 부분만 빈 값 → filter_ 로 포함
+ *
+ * @param query 변환된 쿼리 (key에 플레이스홀더가 없으면 항상 false)
+ */
+export const isQueryKeyExcluded = (query: ParsedQuery): boolean => {
+  const { keyParameter } = query;
+  if (!keyParameter) return false;
+  return !keyParameter.finalValue || keyParameter.failurePolicy === 'drop' || !!keyParameter.omitted;
+};
+
+/**
+ * fragment 시작 위치(#)를 찾는 헬퍼 함수
+ * 
+ * v{#anchor}처럼 중괄호 안의 #은 값의 일부이므로 중괄호 바깥의 첫 번째 #만 인정
+ * 
+ * @param urlString URL 문자열
+ * @returns # 위치 (없으면 -1)
+ */
+const findFragmentStart = (urlString: string): number => {
+  const masked = maskEscapes(urlString);
+  let depth = 0;
+  
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === '{') {
+      depth++;
+    } else if (masked[i] === '}') {
+      depth = Math.max(0, depth - 1);
+    } else if (masked[i] === '#' && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * 중괄호 바깥(깊이 0)에서 특정 문자의 위치를 찾는 함수
+ * 
+ * @param masked maskEscapes를 적용한 문자열
+ * @param char 찾을 문자
+ * @param fromEnd true면 마지막 위치, false면 첫 위치
+ * @returns 위치 (없으면 -1)
+ */
+const findTopLevelChar = (masked: string, char: string, fromEnd: boolean): number => {
+  let depth = 0;
+  let found = -1;
+  
+  for (let i = 0; i < masked.length; i++) {
+    if (masked[i] === '{') {
+      depth++;
+    } else if (masked[i] === '}') {
+      depth = Math.max(0, depth - 1);
+    } else if (masked[i] === char && depth === 0) {
+      if (!fromEnd) return i;
+      found = i;
+    }
+  }
+  return found;
+};
+
+/**
+ * 호스트(authority) 문자열을 userinfo, hostname, port로 분리하는 함수
+ * 
+ * 분리가 필요한 이유:
+ * - user:pass@host:8080, [::1]:3000이 하나의 문자열이면 hostname이나 port만 바꿀 수 없음
+ * - {A:NAME}처럼 중괄호 안의 :, @는 구분자가 아니므로 단순 split으로는 처리 불가
+ * 
+ * 분리 규칙 (모두 중괄호 바깥의 문자만 구분자로 인정):
+ * 1. 마지막 @ 앞은 userinfo (비밀번호에 @가 들어갈 수 있으므로 마지막 기준)
+ * 2. [ 로 시작하면 IPv6 리터럴 → ] 까지가 hostname (대괄호 포함), 그 뒤 :가 있으면 port
+ * 3. 그 외에는 마지막 : 뒤가 port
+ * 
+ * @example
+ * splitHostComponents('user:pass@api.com:8080')
+ * // → { userinfo: 'user:pass', hostname: 'api.com', port: '8080' }
+ * splitHostComponents('[::1]:3000')
+ * // → { userinfo: null, hostname: '[::1]', port: '3000' }
+ * splitHostComponents('{A:NAME}:8080')
+ * // → { userinfo: null, hostname: '{A:NAME}', port: '8080' }
+ * 
+ * @param host 프로토콜 :// 이후 경로/쿼리 전까지의 문자열
+ * @returns 구성요소 (없는 부분은 null, hostname은 항상 문자열)
+ */
+export const splitHostComponents = (host: string): {
+  userinfo: string | null;
+  hostname: string;
+  port: string | null;
+} => {
+  const masked = maskEscapes(host);
+  
+  // 1단계: userinfo 분리
+  const atIndex = findTopLevelChar(masked, '@', true);
+  const userinfo = atIndex === -1 ? null : host.substring(0, atIndex);
+  const hostPart = host.substring(atIndex + 1);
+  const maskedHostPart = masked.substring(atIndex + 1);
+  
+  // 2단계: IPv6 리터럴 ([...]) - 안의 :는 port 구분자가 아님
+  if (maskedHostPart.startsWith('[')) {
+    const closeIndex = maskedHostPart.indexOf(']');
+    if (closeIndex !== -1 && maskedHostPart[closeIndex + 1] === ':') {
+      return {
+        userinfo,
+        hostname: hostPart.substring(0, closeIndex + 1),
+        port: hostPart.substring(closeIndex + 2)
+      };
+    }
+    // 닫는 대괄호가 없거나 뒤에 port가 없으면 전체가 hostname
+    return { userinfo, hostname: hostPart, port: null };
+  }
+  
+  // 3단계: 일반 hostname:port
+  const colonIndex = findTopLevelChar(maskedHostPart, ':', true);
+  if (colonIndex === -1) {
+    return { userinfo, hostname: hostPart, port: null };
+  }
+  return {
+    userinfo,
+    hostname: hostPart.substring(0, colonIndex),
+    port: hostPart.substring(colonIndex + 1)
+  };
+};
+
 /**
  * 커스텀 프로토콜을 지원하는 URL 파싱 함수
  * 
@@ -473,9 +796,13 @@ export const isValidValue = (
  * - 일반적인 URL 구조
  * - 예: https://api.com/users/123?id=1
  * 
+ * **4단계: 호스트 세부 분리**
+ * - splitHostComponents로 userinfo, hostname, port 분리 (host는 전체 문자열 그대로 유지)
+ * - 예: https://user@[::1]:3000 → userinfo="user", hostname="[::1]", port="3000"
+ * 
  * 엣지 케이스 처리:
  * 
- * 1. **빈 구성요소**: 각 부분이 없으면 빈 문자열 반환
+ * 1. **빈 구성요소**: 각 부분이 없으면 빈 문자열 반환 (fragment 포함)
  * 2. **특수 문자**: 쿼리 파라미터의 &, = 등은 여기서 처리하지 않음
  * 3. **중첩 쿼리**: ? 이후 모든 내용을 query로 처리 (파싱은 별도 함수)
  * 4. **인코딩**: URL 인코딩/디코딩은 하지 않음 (원본 유지)
@@ -485,7 +812,11 @@ export const isValidValue = (
  * ```typescript
  * // 표준 HTTP URL
  * parseUrlComponents("https://api.example.com/users/123?id=1&name=test")
- * // → { protocol: "https", host: "api.example.com", path: "/users/123", query: "id=1&name=test" }
+ * // → { protocol: "https", host: "api.example.com", hostname: "api.example.com", port: null, path: "/users/123", query: "id=1&name=test" }
+ * 
+ * // userinfo + port (플레이스홀더 허용)
+ * parseUrlComponents("http://admin@{A_TYPE_1}:8080/api")
+ * // → { host: "admin@{A_TYPE_1}:8080", userinfo: "admin", hostname: "{A_TYPE_1}", port: "8080", path: "/api", ... }
  * 
  * // 커스텀 프로토콜  
  * parseUrlComponents("myapp://action/process?data=value")
@@ -498,6 +829,10 @@ export const isValidValue = (
  * // 쿼리만
  * parseUrlComponents("?name=value&type=test")
  * // → { protocol: "", host: "", path: "", query: "name=value&type=test" }
+ * 
+ * // fragment (SPA 라우트)
+ * parseUrlComponents("https://app.com/#/orders?id={A_TYPE_1}")
+ * // → { protocol: "https", host: "app.com", path: "/", query: "", fragment: "/orders?id={A_TYPE_1}" }
  * ```
  * 
  * 주의사항:
@@ -511,30 +846,47 @@ export const isValidValue = (
 export const parseUrlComponents = (urlString: string): {
   protocol: string;
   host: string;
+  /** host의 @ 앞 부분 (없으면 null) */
+  userinfo: string | null;
+  /** host에서 userinfo와 port를 뺀 부분 (IPv6는 대괄호 포함) */
+  hostname: string;
+  /** host의 : 뒤 포트 (없으면 null) */
+  port: string | null;
   path: string;
   query: string;
+  fragment: string;
 } => {
+  // 0단계: fragment 분리
+  // #/route?x={A_TYPE_1} 같은 SPA fragment 안의 ?와 /가 경로/쿼리로 잘못 인식되지 않도록 먼저 잘라냄
+  const fragmentIndex = findFragmentStart(urlString);
+  const fragment = fragmentIndex === -1 ? '' : urlString.substring(fragmentIndex + 1);
+  const target = fragmentIndex === -1 ? urlString : urlString.substring(0, fragmentIndex);
+  
   // 1단계: 프로토콜 감지
   // 정규식: 영문자로 시작하는 프로토콜명 + ://
   // 커스텀 프로토콜(myapp://, custom://)도 지원
-  const protocolMatch = urlString.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//);
+  const protocolMatch = target.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\//);
   
   // 프로토콜이 없는 경우: 로컬 경로로 처리
   if (!protocolMatch) {
-    const queryIndex = urlString.indexOf('?');
+    const queryIndex = target.indexOf('?');
     return {
       protocol: '',
       host: '',
+      userinfo: null,
+      hostname: '',
+      port: null,
       // 쿼리가 있으면 ? 앞까지가 경로, 없으면 전체가 경로
-      path: queryIndex === -1 ? urlString : urlString.substring(0, queryIndex),
+      path: queryIndex === -1 ? target : target.substring(0, queryIndex),
       // 쿼리가 있으면 ? 뒤 전체, 없으면 빈 문자열
-      query: queryIndex === -1 ? '' : urlString.substring(queryIndex + 1)
+      query: queryIndex === -1 ? '' : target.substring(queryIndex + 1),
+      fragment
     };
   }
   
   // 2단계: 프로토콜 추출 및 나머지 부분 분리
   const protocol = protocolMatch[1]; // 프로토콜명만 (:/는 제외)
-  const afterProtocol = urlString.substring(protocolMatch[0].length); // 프로토콜:// 이후
+  const afterProtocol = target.substring(protocolMatch[0].length); // 프로토콜:// 이후
   
   // 3단계: 호스트 이후에서 경로와 쿼리 시작점 찾기
   const pathStart = afterProtocol.indexOf('/'); // 첫 번째 / 위치
@@ -572,333 +924,97 @@ export const parseUrlComponents = (urlString: string): {
     }
   }
   
-  return { protocol, host, path, query };
+  // 4단계: 호스트 세부 분리
+  return { protocol, host, ...splitHostComponents(host), path, query, fragment };
 };
 
 /**
- * 치환 모드에서 복잡한 문자열 내부의 중괄호 패턴들을 처리하는 핵심 함수
- * 
- * 이 함수가 필요한 이유:
- * - 정규식으로는 중첩된 중괄호 매칭이 불가능
- * - "PROC=!@r{NAME}AND{VALUE}" 같은 복잡한 구조 처리 필요
- * - 안쪽부터 바깥쪽으로 순차 처리해야 올바른 결과
+ * 타입 변환 실패 사유 코드를 결정하는 함수
  * 
- * 알고리즘 선택 이유:
- * - 스택 기반 파싱: 중괄호 매칭의 표준 알고리즘
- * - 여러 번 반복: 안쪽 중괄호 처리 후 바깥쪽 처리
- * - 플래그 역추적: {앞의 e,r,v 문자들을 찾아서 플래그로 인식
+ * 실패 사유 구분:
+ * - UNKNOWN: 어떤 타입에도 속하지 않는 값 → 변환 시도 자체가 불가능
+ * - 변환 함수 없음: 타입은 정해졌으나 TypeConverter/타입 전용 converter가 없음
+ * - 값 없음: 변환 함수가 값을 찾지 못함 (예: {B:ORDER_NO}에서 B 타입에 ORDER_NO가 없음)
  * 
- * 처리 과정:
- * 1. "PROC=!@r{NAME}" 입력
- * 2. r{NAME} 감지 (r은 플래그, NAME은 값)
- * 3. NAME을 API로 변환 → NAME_VALUE
- * 4. r{NAME}을 NAME_VALUE로 치환
- * 5. "PROC=!@NAME_VALUE" 결과
- * 
- * @param content 치환할 문자열
- * @param typeConverter 타입 변환 함수 (옵션)
- * @param encryptor 암호화 함수 (옵션)
- * @param onInnerTrace 내부 변환 추적 콜백 (옵션)
- * @returns 치환 완료된 문자열
+ * @param type 결정된 타입
+ * @param hasConverter 변환 함수 존재 여부
+ * @returns 실패 사유 코드
  */
+export const getConversionFailureCode = (type: ParameterType, hasConverter: boolean): FailureCode => {
+  if (type === ParameterType.UNKNOWN) return 'unknown-type';
+  return hasConverter ? 'value-not-found' : 'no-converter';
+};
+
 /**
- * 플래그 시작 위치를 찾는 헬퍼 함수
+ * 타입 변환 실패 사유 메시지를 만드는 함수 (getConversionFailureCode와 같은 구분)
  * 
- * @param text 전체 문자열
- * @param braceIndex 여는 중괄호의 인덱스
- * @returns 플래그 시작 위치
+ * @param type 결정된 타입
+ * @param value 변환 대상 값
+ * @param hasConverter 변환 함수 존재 여부
+ * @returns 실패 사유 메시지
  */
-const findFlagStartPosition = (text: string, braceIndex: number): number => {
-  // 역순으로 e,r,v 문자들을 찾아서 플래그 시작점 결정
-  // 예: "PROC=!@r{NAME}" → r{ 부분에서 r이 플래그
-  for (let j = braceIndex - 1; j >= 0; j--) {
-    if (!['e', 'r', 'v'].includes(text[j])) {
-      return j + 1; // 플래그가 아닌 문자 다음부터가 플래그 시작
-    }
-    if (j === 0) return 0; // 처음까지 모두 플래그인 경우
+export const describeConversionFailure = (
+  type: ParameterType,
+  value: string | null,
+  hasConverter: boolean
+): string => {
+  switch (getConversionFailureCode(type, hasConverter)) {
+    case 'unknown-type':
+      return `알 수 없는 타입: "${value}"가 등록된 타입 목록에 없음`;
+    case 'no-converter':
+      return 'TypeConverter 함수가 제공되지 않음';
+    default:
+      return `${type} 타입에 "${value}"에 대한 값이 없음`;
   }
-  return braceIndex; // 플래그가 없는 경우
 };
 
+/** e 플래그가 있지만 Encryptor가 없어 암호화하지 못한 값의 실패 사유 (코드: no-encryptor) */
+export const NO_ENCRYPTOR_REASON = 'Encryptor 함수가 제공되지 않음';
+
 /**
- * 단일 중괄호 패턴을 처리하는 헬퍼 함수
- * 
- * @param text 전체 문자열
- * @param pattern 찾은 중괄호 패턴 (예: "r{NAME}")
- * @param flagString 플래그 부분 (예: "r")
- * @param extractedValue 중괄호 안의 값 (예: "NAME")
- * @param typeConverter 타입 변환 함수
- * @param encryptor 암호화 함수
- * @param onInnerTrace 추적 콜백
- * @returns 변환된 값
+ * 확장 플래그 변환이나 암호화 실패 사유 코드를 결정하는 함수
+ *
+ * @param flags 값의 플래그 (e 플래그가 있으면 암호화 실패)
+ * @returns 실패 사유 코드
  */
-const processSingleBracketPattern = async (
-  text: string,
-  pattern: string,
-  flagString: string,
-  extractedValue: string,
-  typeConverter?: (value: string, type: ParameterType) => Promise<string>,
-  encryptor?: (value: string) => Promise<string>,
-  onInnerTrace?: (trace: {
-    type: ParameterType;
-    target: string;
-    convertedValue: string | null;
-    encryptedValue: string | null;
-    result: string;
-    flags: ParameterFlags;
-    processingMode: ProcessingMode;
-    transformationSuccess: boolean;
-    failureReason?: string;
-  }) => void,
-  filteringMode: FilteringMode = FilteringMode.DEFAULT
-): Promise<string> => {
-  console.log(`[DEBUG] Found bracket: "${pattern}"`);
-  console.log(`[DEBUG] - flagString: "${flagString}"`);
-  console.log(`[DEBUG] - extractedValue: "${extractedValue}"`);
-  
-  const flags = parseFlags(flagString);
-  console.log(`[DEBUG] - flags:`, flags);
-  
-  const type = detectParameterType(extractedValue);
-  console.log(`[DEBUG] - type: ${type}`);
-  
-  let convertedValue: string | null = null;
-  let encryptedValue: string | null = null;
-  
-  if (filteringMode === FilteringMode.STRICT) {
-    // STRICT 모드: 변환하지 않고, 변환이 필요한 값이 있으면 실패 처리
-    if (flags.literal) {
-      // 리터럴만 허용: v{NAME} → NAME
-      convertedValue = extractedValue;
-    } else if (flags.encrypted || flags.required || type !== ParameterType.UNKNOWN) {
-      // 변환이 필요한 값이 발견됨 - 이 경우 전체 SUBSTITUTION이 실패되어야 함
-      // 빈 문자열로 대체하여 나중에 전체 제외되도록 함
-      convertedValue = '';
-    }
-    // 암호화는 수행하지 않음
-  } else {
-    // DEFAULT 모드: 기존 변환 로직
-    
-    // 타입 변환 수행
-    if (!flags.literal && type !== ParameterType.UNKNOWN && type !== ParameterType.LITERAL && typeConverter) {
-      try {
-        convertedValue = await typeConverter(extractedValue, type);
-        console.log(`[DEBUG] - converted: "${convertedValue}"`);
-      } catch (error) {
-        console.error(`[DEBUG] - conversion failed for "${extractedValue}":`, error);
-      }
-    }
-    
-    // 암호화 수행
-    const valueToEncrypt = convertedValue || (flags.literal ? extractedValue : null);
-    if (flags.encrypted && encryptor && valueToEncrypt) {
-      try {
-        encryptedValue = await encryptor(valueToEncrypt);
-        console.log(`[DEBUG] - encrypted: "${encryptedValue}"`);
-      } catch (error) {
-        console.error(`[DEBUG] - encryption failed for "${valueToEncrypt}":`, error);
-      }
-    }
-  }
-  
-  // 최종 값 결정
-  const finalValue = getFinalValue(
-    pattern,
-    extractedValue,
-    convertedValue,
-    encryptedValue,
-    flags,
-    type,
-    ProcessingMode.SUBSTITUTION
-  );
-  
-  // 추적 정보 기록
-  if (onInnerTrace) {
-    const hasConversion = convertedValue !== null && convertedValue !== extractedValue;
-    const hasEncryption = encryptedValue !== null;
-    // const isChanged = extractedValue !== finalValue; // 현재 사용되지 않음
-    
-    let failureReason: string | undefined;
-    let transformationSuccess = false;
-    
-    if (flags.literal) {
-      // 리터럴 플래그는 항상 성공
-      transformationSuccess = true;
-    } else if (type === ParameterType.UNKNOWN) {
-      // UNKNOWN 타입이면서 변환이 요구되는 경우는 실패
-      failureReason = `알 수 없는 타입: "${extractedValue}"가 A/B 타입 목록에 없음`;
-      transformationSuccess = false;
-    } else if (flags.encrypted && !hasEncryption) {
-      // 암호화 플래그가 있는데 암호화가 안된 경우 실패
-      failureReason = `암호화 실패: "${extractedValue}" 암호화되지 않음`;
-      transformationSuccess = false;
-    } else if (!flags.literal && !hasConversion && type !== ParameterType.LITERAL) {
-      // 타입 변환이 필요한데 변환이 안된 경우 실패
-      failureReason = 'TypeConverter 함수가 제공되지 않음';
-      transformationSuccess = false;
-    } else {
-      // 성공 케이스: 리터럴이거나, 변환 성공했거나, 암호화 성공했거나
-      transformationSuccess = true;
-    }
-    
-    onInnerTrace({
-      type,
-      target: extractedValue,
-      convertedValue,
-      encryptedValue,
-      result: finalValue,
-      flags,
-      processingMode: ProcessingMode.SUBSTITUTION,
-      transformationSuccess,
-      failureReason
-    });
-  }
-  
-  // 문자열 치환 수행
-  console.log(`[DEBUG] Before replacement: "${text}"`);
-  console.log(`[DEBUG] Replacing "${pattern}" with "${finalValue}"`);
-  const result = text.replace(pattern, finalValue);
-  console.log(`[DEBUG] After replacement: "${result}"`);
-  
-  return result;
+export const getTransformFailureCode = (flags: ParameterFlags): FailureCode => {
+  return flags.encrypted ? 'encryption-failed' : 'flag-transform-failed';
 };
 
-export const processSubstitution = async (
-  content: string,
-  typeConverter?: (value: string, type: ParameterType) => Promise<string>,
-  encryptor?: (value: string) => Promise<string>,
-  onInnerTrace?: (trace: {
-    type: ParameterType;
-    target: string;
-    convertedValue: string | null;
-    encryptedValue: string | null;
-    result: string;
-    flags: ParameterFlags;
-    processingMode: ProcessingMode;
-    transformationSuccess: boolean;
-    failureReason?: string;
-  }) => void,
-  filteringMode: FilteringMode = FilteringMode.DEFAULT
-): Promise<string> => {
-  /**
-   * 중첩된 중괄호를 스택으로 처리하는 내부 함수
-   * 
-   * 스택 기반 알고리즘을 사용하는 이유:
-   * - 정규식은 중첩 구조를 처리할 수 없음
-   * - 괄호 매칭은 스택의 전형적인 응용 사례
-   * - 가장 안쪽 괄호부터 처리해야 올바른 결과
-   */
-  const processNestedBrackets = async (text: string): Promise<string> => {
-    let processed = text;
-    let hasChanges = true;
-    
-    // 변화가 있을 때까지 반복 (안쪽부터 바깥쪽으로)
-    while (hasChanges) {
-      hasChanges = false;
-      const stack: Array<{index: number, flagStart: number}> = [];
-      let flagStart = -1;
-      
-      // 문자열을 순회하면서 중괄호 매칭
-      for (let i = 0; i < processed.length; i++) {
-        const currentChar = processed[i];
-        
-        if (currentChar === '{') {
-          // 여는 중괄호 발견: 플래그 시작점 찾기
-          if (stack.length === 0) {
-            // 최상위 중괄호인 경우, 앞쪽에서 플래그 문자들 찾기
-            flagStart = findFlagStartPosition(processed, i);
-          }
-          stack.push({index: i, flagStart});
-        } else if (currentChar === '}' && stack.length > 0) {
-          // 닫는 중괄호 발견: 매칭되는 여는 중괄호와 짝 맞추기
-          const openBrace = stack.pop()!;
-          
-          // 스택이 비었다면 가장 안쪽 완성된 중괄호 쌍을 찾은 것
-          // 이 부분을 먼저 처리해야 함 (안쪽부터 바깥쪽으로)
-          if (stack.length === 0) {
-            // 치환 대상 문자열 추출
-            const fullStart = openBrace.flagStart;  // 플래그 포함 시작점
-            const fullEnd = i + 1;                  // 닫는 중괄호 포함 끝점
-            const fullMatch = processed.substring(fullStart, fullEnd);  // 전체 매칭 부분
-            const flagString = processed.substring(fullStart, openBrace.index);  // 플래그 부분
-            const extractedValue = processed.substring(openBrace.index + 1, i);  // 중괄호 안 값
-            
-            // 헬퍼 함수를 사용하여 중괄호 패턴 처리
-            processed = await processSingleBracketPattern(
-              processed,
-              fullMatch,
-              flagString,
-              extractedValue,
-              typeConverter,
-              encryptor,
-              onInnerTrace,
-              filteringMode
-            );
-            
-            // 변화가 있었으므로 다시 처리 (바깥쪽 중괄호가 있을 수 있음)
-            hasChanges = true;
-            break; // 하나씩 처리하고 다시 시작
-          }
-        }
-      }
-    }
-    
-    return processed;
-  };
-  
-  return await processNestedBrackets(content);
+/**
+ * 확장 플래그 변환이나 암호화 실패 사유 메시지를 만드는 함수
+ *
+ * 메시지에는 변환/암호화 대상 평문 대신 템플릿에 작성된 이름만 넣음
+ * (암호화하려던 값이 로그나 에러 메시지로 새어나가지 않도록)
+ *
+ * @param flags 값의 플래그 (e 플래그가 있으면 암호화 실패)
+ * @param name 템플릿에 작성된 값 이름
+ * @returns 실패 사유 메시지
+ */
+export const describeTransformFailure = (flags: ParameterFlags, name: string): string => {
+  return flags.encrypted
+    ? `암호화 실패: "${name}" 암호화되지 않음`
+    : `확장 플래그 변환 실패: "${name}" 변환되지 않음`;
 };
 
 /**
- * 파라미터 모드 vs 치환 모드를 감지하는 핵심 함수
- * 
- * 이 함수가 가장 중요한 이유:
- * - 전체 파싱 로직의 분기점 역할
- * - 잘못 판단하면 완전히 다른 결과가 나옴
- * 
- * 파라미터 모드 (값 사용):
- * - 형태: key=evr{VALUE} 또는 key={VALUE}
- * - 특징: 중괄호가 바로 시작하고, 안에 다른 중괄호가 없음
- * - 처리: 중괄호 안의 값을 추출해서 API 변환 후 사용
- * - 예시: name={A_TYPE_1}, where=e{B_TYPE_2}
- * 
- * 치환 모드 (문자열 치환):
- * - 형태: key=복잡한구조{VALUE}더복잡한구조 
- * - 특징: 중괄호와 다른 문자들이 섞여 있음
- * - 처리: 문자열 내부의 중괄호 패턴들을 찾아서 개별 치환
- * - 예시: where=PROC=!@r{NAME}, url=/v{TEXT}.com
- * 
- * 로직 설명:
- * 1. 정규식으로 파라미터 형태인지 먼저 확인
- * 2. 파라미터 형태라면 내부에 중첩 중괄호가 있는지 추가 확인
- * 3. 중첩이 없으면 파라미터 모드, 있거나 패턴이 안 맞으면 치환 모드
- * 
- * @param value 검사할 값
- * @returns ProcessingMode.PARAMETER 또는 ProcessingMode.SUBSTITUTION
+ * 변환에 실패한 값에 적용할 처리 방법을 결정하는 함수
+ * 우선순위: 확장 플래그의 onFailure > 타입 정의의 onFailure > 엔진 옵션
+ *
+ * @param flags 값의 플래그 (onFailure가 있는 확장 플래그가 여러 개면 적용 순서상 첫 번째)
+ * @param type 값의 타입
+ * @param fallback 엔진 옵션의 onFailure (기본값: default)
+ * @returns 적용할 처리 방법
  */
-export const detectProcessingMode = (value: string): ProcessingMode => {
-  // 1단계: 파라미터 형태 체크 - [플래그]{내용} 패턴인가?
-  // 정규식: ^[erv]*\{[^{}]+\}$ 
-  // - ^[erv]*: 시작부터 e,r,v 문자들 (옵션)
-  // - \{[^{}]+\}: 중괄호 안에 중괄호가 아닌 문자들
-  // - $: 문자열 끝
-  if (/^[erv]*\{[^{}]+\}$/.test(value)) {
-    const match = value.match(/^[erv]*\{(.+)\}$/);
-    if (match) {
-      const content = match[1];
-      // 내용 안에 중괄호 패턴이 없으면 진짜 파라미터 모드
-      if (!/\{.*\}/.test(content)) {
-        console.log(`[DEBUG] Parameter mode detected: ${value} (direct brack
-    // 2단계: 혹시 중괄호 안에 또 다른 중괄호가 숨어있나 재확인et form)`);
-        return ProcessingMode.PARAMETER;
-      }
-    }
-  }
-  
-  // 파라미터 패턴이 아니라면 치환 모드
-  // 예: "PROC=!@r{NAME}", "v{TEXT}.com", "복잡한구조{값}더복잡"
-  console.log(`[DEBUG] Substitution mode detected: ${value} (mixed structure)`);
-  return ProcessingMode.SUBSTITUTION;
+export const resolveFailurePolicy = (
+  flags: ParameterFlags,
+  type: ParameterType,
+  fallback: FailurePolicy = 'default'
+): FailurePolicy => {
+  const flagPolicy = flags.custom
+    ?.map(name => defaultFlagRegistry.getByName(name)?.onFailure)
+    .find((policy): policy is FailurePolicy => !!policy);
+  return flagPolicy ?? defaultTypeRegistry.get(type)?.onFailure ?? fallback;
 };
 
 /**
@@ -912,11 +1028,14 @@ export const detectProcessingMode = (value: string): ProcessingMode => {
  * - 문자열 내부에 변환 영역이 하나라도 있으면 전체 파라미터 제외
  * - 예: where=AND!=e{TEXT}AND!=v{DEV} → e{TEXT} 때문에 where 전체 제외
  * 
- * @param value 검사할 값
+ * @param templateValue 검사할 값 (이스케이프 포함 원본)
  * @param processingMode 처리 모드
  * @returns true면 포함 가능, false면 제외
  */
-export const isStrictModeValid = (value: string, processingMode: ProcessingMode): boolean => {
+export const isStrictModeValid = (templateValue: string, processingMode: ProcessingMode): boolean => {
+  // 이스케이프된 문자는 일반 문자이므로 가려서 검사
+  const value = maskEscapes(templateValue);
+  
   // 1. 일반 문자열인 경우 (중괄호가 없음)
   if (!value.includes('{') || !value.includes('}')) {
     return true; // 일반 문자열은 포함
@@ -932,10 +1051,11 @@ export const isStrictModeValid = (value: string, processingMode: ProcessingMode)
   
   // 3. SUBSTITUTION 모드인 경우
   if (processingMode === ProcessingMode.SUBSTITUTION) {
-    // 플래그가 있는 패턴 찾기 (e, r 등의 플래그가 있는 모든 중괄호 패턴)
+    // 플래그가 있는 패턴 찾기 (v 외의 플래그가 있는 모든 중괄호 패턴, 등록된 확장 플래그 포함)
     // 허용: v{...}, {...} (플래그 없음)
-    // 제외: e{...}, r{...}, er{...}, ev{...}, rv{...}, rev{...} 등
-    const hasFlaggedPattern = /[er]+\{[^}]+\}/.test(value);
+    // 제외: e{...}, r{...}, er{...}, ev{...}, rv{...}, rev{...}, u{...} 등
+    const flagStrings = value.match(new RegExp(`${getFlagCharClass()}+(?=\\{[^}]+\\})`, 'g')) ?? [];
+    const hasFlaggedPattern = flagStrings.some(flagString => /[^v]/.test(flagString));
     
     return !hasFlaggedPattern;
   }
@@ -982,7 +1102,7 @@ export const isSegmentValidForFilteringMode = (
     }
     
     // 플래그 없는 기본 타입 변환인지 확인 ({A_TYPE_1}, {B_TYPE_2} 등)
-    const hasNoFlags = !segment.flags.encrypted && !segment.flags.required && !segment.flags.literal;
+    const hasNoFlags = !hasAnyFlag(segment.flags);
     const isBasicPattern = /^\{[^{}]+\}$/.test(segment.originalValue);
     return hasNoFlags && isBasicPattern;
   }
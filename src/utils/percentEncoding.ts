@@ -0,0 +1,245 @@
+import { EncodingContext, ParameterFlags } from '../types/parser.types';
+import { defaultFlagRegistry } from './flagRegistry';
+
+/** 어디서든 그대로 둘 수 있는 문자 (RFC 3986 unreserved) */
+const UNRESERVED = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~';
+
+/** 경로 세그먼트에 그대로 둘 수 있는 문자 (pchar = unreserved + sub-delims + : @) */
+const PATH_SEGMENT_SAFE = `${UNRESERVED}!$&'()*+,;=:@`;
+
+/**
+ * 쿼리 값에 그대로 둘 수 있는 문자
+ * RFC 3986은 & = +도 허용하지만 쿼리 구분자로 해석되거나 서버에서 공백으로 바뀌므로 인코딩
+ */
+const QUERY_VALUE_SAFE = `${UNRESERVED}!$'()*,;:@/?`;
+
+/** 쿼리 키에 그대로 둘 수 있는 문자 (배열 키 a[]=1 표기를 위해 [ ]도 허용) */
+const QUERY_KEY_SAFE = `${QUERY_VALUE_SAFE}[]`;
+
+/** fragment에 그대로 둘 수 있는 문자 (pchar + / ?) */
+const FRAGMENT_SAFE = `${PATH_SEGMENT_SAFE}/?`;
+
+/**
+ * userinfo에 값으로 그대로 둘 수 있는 문자 (unreserved + sub-delims)
+ * RFC 3986은 :도 허용하지만 사용자와 비밀번호 구분자로 해석되므로 값 안에서는 인코딩
+ */
+const USERINFO_SAFE = `${UNRESERVED}!$&'()*+,;=`;
+
+const SAFE_CHARACTERS: Record<EncodingContext, Set<string>> = {
+  [EncodingContext.PATH_SEGMENT]: new Set(PATH_SEGMENT_SAFE),
+  [EncodingContext.QUERY_KEY]: new Set(QUERY_KEY_SAFE),
+  [EncodingContext.QUERY_VALUE]: new Set(QUERY_VALUE_SAFE),
+  [EncodingContext.FRAGMENT]: new Set(FRAGMENT_SAFE),
+  [EncodingContext.USERINFO]: new Set(USERINFO_SAFE),
+  [EncodingContext.GLOBAL_PAYLOAD]: new Set(UNRESERVED)
+};
+
+/** 이미 인코딩된 %XX 표기 */
+const PERCENT_TRIPLET = /^%[0-9A-Fa-f]{2}$/;
+
+/**
+ * 값을 들어갈 위치에 맞게 퍼센트 인코딩하는 함수
+ *
+ * encodeURIComponent를 그대로 쓰지 않는 이유:
+ * - 위치마다 허용 문자가 다름 (경로의 = 와 &는 그대로 둬도 되지만 쿼리 값에서는 구분자가 됨)
+ * - encodeURIComponent는 ! ' ( ) *를 인코딩하지 않고, 쿼리 값의 / ? 까지 인코딩하는 등 RFC 3986과 다름
+ *
+ * 인코딩 규칙:
+ * - 허용 문자(위치별 SAFE 목록)는 그대로, 나머지는 UTF-8 바이트 단위 %XX (대문자 16진수)
+ * - %는 항상 인코딩 (값 안의 %를 이미 인코딩된 것으로 추측하지 않음)
+ * - 단, QUERY_KEY는 템플릿에 작성된 정적 텍스트이므로 이미 인코딩된 %XX는 유지
+ *
+ * @example
+ * percentEncode('a&b=c d', EncodingContext.QUERY_VALUE) // 'a%26b%3Dc%20d'
+ * percentEncode('a/b', EncodingContext.PATH_SEGMENT)     // 'a%2Fb'
+ * percentEncode('x+y=', EncodingContext.GLOBAL_PAYLOAD)  // 'x%2By%3D'
+ *
+ * @param value 인코딩할 값
+ * @param context 값이 들어갈 위치
+ * @returns 인코딩된 값
+ */
+export const percentEncode = (value: string, context: EncodingContext): string => {
+  const safe = SAFE_CHARACTERS[context];
+  const encoder = new TextEncoder();
+  let result = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (safe.has(char)) {
+      result += char;
+      continue;
+    }
+    if (context === EncodingContext.QUERY_KEY && PERCENT_TRIPLET.test(value.substring(i, i + 3))) {
+      result += value.substring(i, i + 3);
+      i += 2;
+      continue;
+    }
+
+    // 서로게이트 쌍은 한 글자로 묶어서 UTF-8 인코딩
+    const codePoint = value.codePointAt(i)!;
+    const fullChar = String.fromCodePoint(codePoint);
+    i += fullChar.length - 1;
+    encoder.encode(fullChar).forEach(byte => {
+      result += `%${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+    });
+  }
+
+  return result;
+};
+
+/**
+ * 인코딩을 건너뛰는 플래그(skipEncoding 확장 플래그, 예: p)가 붙은 값인지 확인
+ *
+ * @param flags 파싱된 플래그
+ * @returns 인코딩하지 않아야 하면 true
+ */
+export const isEncodingSkipped = (flags: ParameterFlags): boolean => {
+  return !!flags.custom?.some(name => defaultFlagRegistry.getByName(name)?.skipEncoding);
+};
+
+/**
+ * decodeTemplateText 결과
+ * offsets[i]는 디코딩된 i번째 문자가 원본에서 시작하는 위치 (마지막 원소는 원본 길이)
+ */
+export interface DecodedText {
+  text: string;
+  offsets: number[];
+}
+
+/** 템플릿에서 구조 문자로 해석되는 문자 (디코딩 결과에서는 이스케이프하여 값으로 유지) */
+const TEMPLATE_STRUCTURAL = new Set(['{', '}', '[', ']', '&', '=', '|', '\\']);
+
+/** %XX 하나의 바이트 값 (%XX가 아니면 null) */
+const readPercentByte = (text: string, index: number): number | null => {
+  const triplet = text.substring(index, index + 3);
+  return PERCENT_TRIPLET.test(triplet) ? parseInt(triplet.slice(1), 16) : null;
+};
+
+/** UTF-8 첫 바이트로 문자 하나의 바이트 수를 구함 (올바른 첫 바이트가 아니면 0) */
+const getUtf8Length = (byte: number): number => {
+  if (byte < 0x80) return 1;
+  if (byte >= 0xc2 && byte < 0xe0) return 2;
+  if (byte >= 0xe0 && byte < 0xf0) return 3;
+  if (byte >= 0xf0 && byte < 0xf5) return 4;
+  return 0;
+};
+
+/**
+ * %XX가 연속된 위치에서 UTF-8 문자 하나를 디코딩하는 함수
+ *
+ * @returns 디코딩된 문자와 소비한 원본 길이 (올바른 UTF-8이 아니면 null)
+ */
+const decodePercentChar = (text: string, index: number): { char: string; length: number } | null => {
+  const first = readPercentByte(text, index);
+  if (first === null) return null;
+
+  const byteLength = getUtf8Length(first);
+  if (byteLength === 0) return null;
+
+  const bytes = [first];
+  for (let k = 1; k < byteLength; k++) {
+    const byte = readPercentByte(text, index + k * 3);
+    if (byte === null) return null;
+    bytes.push(byte);
+  }
+
+  try {
+    const char = new TextDecoder('utf-8', { fatal: true }).decode(new Uint8Array(bytes));
+    return { char, length: byteLength * 3 };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 퍼센트 인코딩된 값을 디코딩하는 함수
+ *
+ * decodeURIComponent를 그대로 쓰지 않는 이유:
+ * - 잘못된 %XX(예: 100%, %E0%A4)가 하나라도 있으면 URIError로 전체가 실패함
+ * - 여기서는 디코딩할 수 없는 부분만 원본 그대로 두고 나머지는 디코딩
+ *
+ * @example
+ * percentDecode('a%20b%26c')    // 'a b&c'
+ * percentDecode('a+b', true)    // 'a b'
+ * percentDecode('100%')         // '100%'
+ *
+ * @param value 디코딩할 값
+ * @param plusAsSpace +를 공백으로 디코딩할지 (application/x-www-form-urlencoded 쿼리)
+ * @returns 디코딩된 값
+ */
+export const percentDecode = (value: string, plusAsSpace: boolean = false): string => {
+  let result = '';
+
+  for (let i = 0; i < value.length; i++) {
+    const decoded = value[i] === '%' ? decodePercentChar(value, i) : null;
+    if (decoded) {
+      result += decoded.char;
+      i += decoded.length - 1;
+    } else {
+      result += plusAsSpace && value[i] === '+' ? ' ' : value[i];
+    }
+  }
+
+  return result;
+};
+
+/**
+ * 템플릿 문자열의 %XX를 디코딩하면서 원본 위치를 함께 기록하는 함수
+ *
+ * 브라우저 주소창이나 로그에서 복사한 템플릿은 %7BA_TYPE_1%7D처럼 중괄호까지 인코딩되어 있어
+ * 디코딩한 뒤에야 플레이스홀더를 찾을 수 있음
+ *
+ * 두 가지 방식:
+ * - bracesOnly: %7B, %7D만 중괄호로 되돌림 (구조 분할 전에 플레이스홀더 위치를 드러내기 위함)
+ * - 전체: 모든 %XX(와 plusAsSpace면 +)를 디코딩하되, 템플릿 구조 문자({ } & = \)는 이스케이프하여
+ *   값으로 남김 (a%26b → a\&b, 원래 값의 &가 쿼리 구분자로 바뀌지 않도록)
+ *
+ * 이미 작성된 이스케이프(\x)는 그대로 둠
+ *
+ * @param text 디코딩할 템플릿 문자열
+ * @param plusAsSpace +를 공백으로 디코딩할지 (전체 방식에서만 적용)
+ * @param bracesOnly %7B, %7D만 디코딩할지
+ * @returns 디코딩된 템플릿 문자열과 문자별 원본 위치
+ */
+export const decodeTemplateText = (
+  text: string,
+  plusAsSpace: boolean = false,
+  bracesOnly: boolean = false
+): DecodedText => {
+  let result = '';
+  const offsets: number[] = [];
+
+  const push = (chars: string, sourceIndex: number) => {
+    result += chars;
+    for (let k = 0; k < chars.length; k++) offsets.push(sourceIndex);
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      push(text[i], i);
+      push(text[i + 1], i + 1);
+      i++;
+      continue;
+    }
+
+    const decoded = text[i] === '%' ? decodePercentChar(text, i) : null;
+    if (decoded && bracesOnly) {
+      if (decoded.char === '{' || decoded.char === '}') {
+        push(decoded.char, i);
+        i += decoded.length - 1;
+      } else {
+        push(text[i], i);
+      }
+    } else if (decoded) {
+      push(TEMPLATE_STRUCTURAL.has(decoded.char) ? `\\${decoded.char}` : decoded.char, i);
+      i += decoded.length - 1;
+    } else if (!bracesOnly && plusAsSpace && text[i] === '+') {
+      push(' ', i);
+    } else {
+      push(text[i], i);
+    }
+  }
+
+  offsets.push(text.length);
+  return { text: result, offsets };
+};
@@ -0,0 +1,171 @@
+import { ParameterType, TypeConverter, FailurePolicy, ATYPE_VALUES, BTYPE_VALUES } from '../types/parser.types';
+
+/**
+ * 값이 특정 타입에 속하는지 판단하는 매처
+ *
+ * - exact: 목록에 정확히 일치하는 값 (기존 ATYPE_VALUES 방식)
+ * - regex: 정규식에 매칭되는 값
+ * - prefix: 지정한 접두사로 시작하는 값
+ * - predicate: 임의의 판별 함수
+ */
+export type TypeMatcher =
+  | { kind: 'exact'; values: readonly string[] }
+  | { kind: 'regex'; pattern: RegExp }
+  | { kind: 'prefix'; prefix: string }
+  | { kind: 'predicate'; test: (value: string) => boolean };
+
+/**
+ * 레지스트리에 등록하는 타입 정의
+ */
+export interface TypeDefinition {
+  /** 타입 이름 (ParameterType 값으로 그대로 사용됨, 예: 'A', 'CUSTOMER') */
+  name: string;
+  /** 하나라도 매칭되면 해당 타입으로 감지 */
+  matchers: TypeMatcher[];
+  /** 타입 전용 변환 함수 (없으면 엔진에 전달된 TypeConverter 사용) */
+  converter?: TypeConverter;
+  /** 이 타입 값의 변환 실패시 처리 방법 (없으면 엔진의 onFailure 사용) */
+  onFailure?: FailurePolicy;
+}
+
+export interface TypeRegistry {
+  /** 타입 등록 (같은 이름이 있으면 교체) */
+  register: (definition: TypeDefinition) => TypeRegistry;
+  /** 타입 등록 해제 */
+  unregister: (name: string) => boolean;
+  /** 등록 여부 확인 */
+  has: (name: string) => boolean;
+  /** 등록된 타입 정의 조회 */
+  get: (name: string) => TypeDefinition | undefined;
+  /** 등록 순서대로 전체 타입 정의 반환 */
+  list: () => TypeDefinition[];
+  /** 값에 해당하는 타입 감지 (등록 순서대로 검사, 없으면 UNKNOWN) */
+  detect: (value: string) => ParameterType;
+}
+
+/**
+ * 레지스트리에 등록할 수 없는 내부 타입 이름
+ * 파싱/필터링 로직이 이 이름들에 특별한 의미를 부여하고 있기 때문
+ */
+const RESERVED_TYPE_NAMES: readonly string[] = [
+  ParameterType.LITERAL,
+  ParameterType.UNKNOWN,
+  ParameterType.GLOBAL
+];
+
+/**
+ * 단일 매처로 값을 검사하는 함수
+ */
+const matchesType = (matcher: TypeMatcher, value: string): boolean => {
+  switch (matcher.kind) {
+    case 'exact':
+      return matcher.values.includes(value);
+    case 'regex':
+      // g/y 플래그가 있는 정규식의 lastIndex 상태에 영향받지 않도록 초기화
+      matcher.pattern.lastIndex = 0;
+      return matcher.pattern.test(value);
+    case 'prefix':
+      return value.startsWith(matcher.prefix);
+    case 'predicate':
+      return matcher.test(value);
+  }
+};
+
+/**
+ * 타입 레지스트리를 생성하는 팩토리 함수
+ *
+ * 타입 감지, 변환 함수 결정, 검증 모두 defaultTypeRegistry만 사용하므로 라이브러리 밖으로 공개하지 않음
+ * (따로 만든 레지스트리에 등록한 타입은 어디에도 적용되지 않음, 앱은 registerType 사용)
+ *
+ * 레지스트리가 필요한 이유:
+ * - 기존에는 ATYPE_VALUES/BTYPE_VALUES 상수에 없는 값은 모두 UNKNOWN
+ * - 새 비즈니스 코드가 생길 때마다 라이브러리 수정이 필요했음
+ * - 앱에서 타입 이름, 매칭 규칙, 변환 함수를 직접 등록할 수 있도록 함
+ *
+ * 감지 우선순위:
+ * - 등록 순서대로 검사하여 처음 매칭된 타입을 사용
+ * - 기본 레지스트리는 A, B 순서로 등록되어 있으므로 기존 동작과 동일
+ *
+ * @param definitions 초기 등록할 타입 정의들
+ * @returns 타입 레지스트리
+ */
+export const createTypeRegistry = (definitions: TypeDefinition[] = []): TypeRegistry => {
+  const types = new Map<string, TypeDefinition>();
+
+  const registry: TypeRegistry = {
+    register: (definition) => {
+      if (!definition.name) {
+        throw new Error('타입 이름이 비어 있습니다.');
+      }
+      if (RESERVED_TYPE_NAMES.includes(definition.name)) {
+        throw new Error(`예약된 타입 이름은 등록할 수 없습니다: ${definition.name}`);
+      }
+      types.set(definition.name, definition);
+      return registry;
+    },
+    unregister: (name) => types.delete(name),
+    has: (name) => types.has(name),
+    get: (name) => types.get(name),
+    list: () => [...types.values()],
+    detect: (value) => {
+      for (const definition of types.values()) {
+        if (definition.matchers.some(matcher => matchesType(matcher, value))) {
+          return definition.name;
+        }
+      }
+      return ParameterType.UNKNOWN;
+    }
+  };
+
+  definitions.forEach(definition => registry.register(definition));
+  return registry;
+};
+
+/**
+ * 라이브러리 전역에서 사용하는 기본 타입 레지스트리
+ * 기존 상수 목록을 A/B 타입으로 미리 등록
+ */
+export const defaultTypeRegistry = createTypeRegistry([
+  { name: ParameterType.A, matchers: [{ kind: 'exact', values: ATYPE_VALUES }] },
+  { name: ParameterType.B, matchers: [{ kind: 'exact', values: BTYPE_VALUES }] }
+]);
+
+/**
+ * 기본 레지스트리에 타입을 등록하는 편의 함수
+ *
+ * @example
+ * registerType({
+ *   name: 'CUSTOMER',
+ *   matchers: [{ kind: 'prefix', prefix: 'CUST_' }],
+ *   converter: async (value) => lookupCustomer(value)
+ * });
+ */
+export const registerType = (definition: TypeDefinition): TypeRegistry => {
+  return defaultTypeRegistry.register(definition);
+};
+
+/**
+ * 변환 API를 호출해야 하는 타입인지 확인
+ * LITERAL/UNKNOWN/GLOBAL 같은 내부 타입은 변환 대상이 아님
+ *
+ * @param type 검사할 타입
+ * @returns 레지스트리에 등록된 타입이면 true
+ */
+export const isConvertibleType = (type: ParameterType): boolean => {
+  return defaultTypeRegistry.has(type);
+};
+
+/**
+ * 타입에 사용할 변환 함수 결정
+ * 우선순위: 타입 전용 converter > 엔진에 전달된 TypeConverter
+ *
+ * @param type 변환할 타입
+ * @param fallback 엔진/Hook에 전달된 TypeConverter
+ * @returns 사용할 변환 함수 (없으면 undefined)
+ */
+export const resolveTypeConverter = (
+  type: ParameterType,
+  fallback?: TypeConverter
+): TypeConverter | undefined => {
+  return defaultTypeRegistry.get(type)?.converter ?? fallback;
+};